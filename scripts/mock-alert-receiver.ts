@@ -0,0 +1,24 @@
+// Starts the mock alert receiver for testing alert deliveries offline
+// Usage: npm run mock:alerts, then set TELEGRAM_API_URL=http://localhost:4020 and point webhook
+// actions at http://localhost:4020/slack/…, /discord/… or /webhook/…
+
+import { createMockAlertReceiver, DEFAULT_MOCK_WEBHOOK_SECRET } from '../src/lib/mock/alert-receiver';
+
+const port = parseInt(process.env.MOCK_ALERTS_PORT || '4020', 10);
+const webhookSecret = process.env.MOCK_ALERTS_WEBHOOK_SECRET || DEFAULT_MOCK_WEBHOOK_SECRET;
+
+const server = createMockAlertReceiver({
+    webhookSecret,
+    onDelivery: (delivery) => {
+        const signature = delivery.signatureValid === undefined ? '' : delivery.signatureValid ? ' (signature ok)' : ' (bad signature)';
+        console.log(`${delivery.receivedAt.toISOString()} ${delivery.channel} ${delivery.path} → ${delivery.status}${signature}`);
+    },
+});
+
+server.listen(port, () => {
+    console.log(`🧪 Mock alert receiver listening on http://localhost:${port} (webhook secret: ${webhookSecret})`);
+});
+
+process.on('SIGINT', () => {
+    server.close(() => process.exit(0));
+});
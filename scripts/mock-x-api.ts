@@ -0,0 +1,21 @@
+// Starts the mock X API server for offline development
+// Usage: npm run mock:x, then set X_BEARER_TOKEN=dev and X_API_BASE_URL=http://localhost:4010/2
+
+import { createMockXApiServer } from '../src/lib/mock/x-api-server';
+
+const port = parseInt(process.env.MOCK_X_API_PORT || '4010', 10);
+
+const server = createMockXApiServer({
+    rateLimit: parseInt(process.env.MOCK_X_API_RATE_LIMIT || '450', 10),
+    streamIntervalMs: parseInt(process.env.MOCK_X_API_STREAM_INTERVAL_MS || '2000', 10),
+});
+
+server.listen(port, () => {
+    console.log(`🧪 Mock X API listening on http://localhost:${port}/2`);
+});
+
+process.on('SIGINT', () => {
+    // Open filtered streams would otherwise keep close() waiting forever
+    server.closeAllConnections();
+    server.close(() => process.exit(0));
+});
@@ -0,0 +1,22 @@
+// POST /api/alerts/:id/enable
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus, redactAlert } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const alert = await getAlertService().setEnabled(id, true);
+        return NextResponse.json({ alert: redactAlert(alert) });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
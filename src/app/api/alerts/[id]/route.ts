@@ -0,0 +1,47 @@
+// GET    /api/alerts/:id – single alert
+// PATCH  /api/alerts/:id – update (name, conditions, actions, throttle, enabled); masked credentials
+//                          sent back keep their stored values
+// DELETE /api/alerts/:id – delete; its trigger history is kept
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus, redactAlert } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const alert = await getAlertService().get(id);
+        return NextResponse.json({ alert: redactAlert(alert) });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const alert = await getAlertService().update(id, await request.json());
+        return NextResponse.json({ alert: redactAlert(alert) });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const alert = await getAlertService().remove(id);
+        return NextResponse.json({ alert: redactAlert(alert) });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
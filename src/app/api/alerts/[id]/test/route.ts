@@ -0,0 +1,24 @@
+// POST /api/alerts/:id/test
+// Evaluates the alert against live data and runs its actions even if it doesn't match. Returns the
+// trigger it would have recorded; test-fires aren't added to the history or the cooldowns.
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const result = await getAlertService().testFire(id);
+        return NextResponse.json(result);
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
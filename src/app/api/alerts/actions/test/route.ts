@@ -0,0 +1,23 @@
+// POST /api/alerts/actions/test  { action: AlertAction, alertName?: string, alertId?: string }
+// Sends a sample notification through one action before it's saved – the "send test" button in the
+// New Alert dialog. `ok: false` with the receiver's error when delivery fails. With `alertId`, the
+// masked bot token / secret of one of that alert's actions is swapped for the stored value.
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const alertName = typeof body?.alertName === 'string' && body.alertName.trim() ? body.alertName.trim() : undefined;
+        const alertId = typeof body?.alertId === 'string' ? body.alertId : undefined;
+        const result = await getAlertService().testAction(body?.action, alertName, alertId);
+        return NextResponse.json(result);
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
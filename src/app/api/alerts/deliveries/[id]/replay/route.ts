@@ -0,0 +1,23 @@
+// POST /api/alerts/deliveries/:id/replay
+// Re-sends a dead-lettered delivery now, with a fresh set of retries if that attempt fails
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const delivery = await getAlertService().replay(id);
+        return NextResponse.json({ delivery });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
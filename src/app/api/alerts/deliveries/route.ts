@@ -0,0 +1,35 @@
+// GET /api/alerts/deliveries?status=dead&alertId=<id>&triggerId=<id>&limit=50
+// Outbox deliveries newest first – status=dead is the dead-letter list
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus } from '@/lib/alerts';
+import type { AlertDeliveryStatus } from '@/lib/db/schema';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+const STATUSES: AlertDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || undefined;
+    const triggerId = searchParams.get('triggerId');
+
+    if (status && !STATUSES.includes(status as AlertDeliveryStatus)) {
+        return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    try {
+        const deliveries = await getAlertService().deliveries({
+            status: status as AlertDeliveryStatus | undefined,
+            alertId: searchParams.get('alertId') || undefined,
+            triggerIds: triggerId ? [triggerId] : undefined,
+            limit: parseInt(searchParams.get('limit') || '50') || undefined,
+        });
+
+        return NextResponse.json({ deliveries, meta: { returned: deliveries.length } });
+    } catch (error: unknown) {
+        const { status: code, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status: code });
+    }
+}
@@ -0,0 +1,32 @@
+// GET /api/alerts/history?alertId=<id>&limit=50&since=<ISO date>
+// Alert triggers newest first, each with the conditions that matched, the items it fired on and the
+// delivery status of each action
+
+import { NextResponse } from 'next/server';
+import { getAlertService } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (since && Number.isNaN(since.getTime())) {
+        return NextResponse.json({ error: 'since must be an ISO date' }, { status: 400 });
+    }
+
+    try {
+        const triggers = await getAlertService().history({
+            alertId: searchParams.get('alertId') || undefined,
+            limit: parseInt(searchParams.get('limit') || '50') || undefined,
+            since,
+        });
+
+        return NextResponse.json({ triggers, meta: { returned: triggers.length } });
+    } catch (error: unknown) {
+        console.error('[/api/alerts/history] Error:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Failed to read alert history' }, { status: 500 });
+    }
+}
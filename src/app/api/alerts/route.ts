@@ -0,0 +1,28 @@
+// GET  /api/alerts – list alert definitions (bot tokens and signing secrets masked)
+// POST /api/alerts – create an alert ({ name, conditions, actions?, throttle?, enabled? })
+
+import { NextResponse } from 'next/server';
+import { getAlertService, alertErrorStatus, redactAlert } from '@/lib/alerts';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    try {
+        const alerts = await getAlertService().list();
+        return NextResponse.json({ alerts: alerts.map(redactAlert) });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const alert = await getAlertService().create(await request.json());
+        return NextResponse.json({ alert: redactAlert(alert) }, { status: 201 });
+    } catch (error: unknown) {
+        const { status, message } = alertErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
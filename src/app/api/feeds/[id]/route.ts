@@ -0,0 +1,47 @@
+// GET    /api/feeds/:id – single feed
+// PATCH  /api/feeds/:id – update (enable/disable, interval, weight, tags, topics…)
+// DELETE /api/feeds/:id – unregister
+
+import { NextResponse } from 'next/server';
+import { getFeedRegistry, feedErrorStatus } from '@/lib/feeds';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const feed = await getFeedRegistry().get(id);
+        if (!feed) return NextResponse.json({ error: `Feed "${id}" not found` }, { status: 404 });
+        return NextResponse.json({ feed });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const feed = await getFeedRegistry().update(id, await request.json());
+        return NextResponse.json({ feed });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status: error instanceof SyntaxError ? 400 : status });
+    }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const feed = await getFeedRegistry().remove(id);
+        return NextResponse.json({ feed });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
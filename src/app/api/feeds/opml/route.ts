@@ -0,0 +1,35 @@
+// GET  /api/feeds/opml – export the registry as OPML 2.0
+// POST /api/feeds/opml – import an OPML document (raw XML body); existing URLs are skipped
+
+import { NextResponse } from 'next/server';
+import { getFeedRegistry, feedErrorStatus } from '@/lib/feeds';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    try {
+        const opml = await getFeedRegistry().exportOpml();
+        return new NextResponse(opml, {
+            headers: {
+                'Content-Type': 'text/x-opml; charset=utf-8',
+                'Content-Disposition': 'attachment; filename="feeds.opml"',
+            },
+        });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const result = await getFeedRegistry().importOpml(await request.text());
+        return NextResponse.json(result, { status: result.added.length ? 201 : 200 });
+    } catch (error: unknown) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Invalid OPML' },
+            { status: 400 }
+        );
+    }
+}
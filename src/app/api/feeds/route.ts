@@ -0,0 +1,28 @@
+// GET  /api/feeds – list registered feeds
+// POST /api/feeds – register a feed
+
+import { NextResponse } from 'next/server';
+import { getFeedRegistry, feedErrorStatus } from '@/lib/feeds';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    try {
+        const feeds = await getFeedRegistry().list();
+        return NextResponse.json({ feeds });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status });
+    }
+}
+
+export async function POST(request: Request) {
+    try {
+        const feed = await getFeedRegistry().create(await request.json());
+        return NextResponse.json({ feed }, { status: 201 });
+    } catch (error: unknown) {
+        const { status, message } = feedErrorStatus(error);
+        return NextResponse.json({ error: message }, { status: error instanceof SyntaxError ? 400 : status });
+    }
+}
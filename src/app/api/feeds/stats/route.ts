@@ -0,0 +1,28 @@
+// GET /api/feeds/stats
+// Per-feed conditional GET statistics (304s, max-age skips, bytes saved)
+
+import { NextResponse } from 'next/server';
+import { getFeedCacheStats } from '@/lib/api/http-cache';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    const feeds = getFeedCacheStats();
+
+    const totals = feeds.reduce(
+        (acc, f) => ({
+            requests: acc.requests + f.requests,
+            fetched: acc.fetched + f.fetched,
+            notModified: acc.notModified + f.notModified,
+            skipped: acc.skipped + f.skippedFresh + f.skippedBackoff,
+            bytesDownloaded: acc.bytesDownloaded + f.bytesDownloaded,
+            bytesSaved: acc.bytesSaved + f.bytesSaved,
+        }),
+        { requests: 0, fetched: 0, notModified: 0, skipped: 0, bytesDownloaded: 0, bytesSaved: 0 }
+    );
+
+    const hitRate = totals.requests > 0 ? (totals.notModified + totals.skipped) / totals.requests : 0;
+
+    return NextResponse.json({ feeds, totals: { ...totals, hitRate } });
+}
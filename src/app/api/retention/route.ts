@@ -0,0 +1,23 @@
+// GET /api/retention – active retention policy and the last compaction/expiry run
+// POST /api/retention – run a pass now (waits for it and returns the report)
+
+import { NextResponse } from 'next/server';
+import { getRetentionJob } from '@/lib/retention';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    const job = getRetentionJob();
+    return NextResponse.json({ policy: job.getPolicy(), status: job.getStatus() });
+}
+
+export async function POST() {
+    try {
+        const report = await getRetentionJob().run();
+        return NextResponse.json({ report });
+    } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        return NextResponse.json({ error: message }, { status: 500 });
+    }
+}
@@ -0,0 +1,72 @@
+// GET /api/stories
+// Near-duplicate items from the ingestion store grouped into stories
+// ?max=20&minSources=2&since=<ISO date>
+// mode=history: persisted story aggregates, which outlive their expired items (see lib/retention)
+
+import { NextResponse } from 'next/server';
+import { ensureIngestionStarted, getIngestionStore } from '@/lib/ingest';
+import { getRepositories, type StoryAggregate } from '@/lib/db';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+// Digits only – parseInt would read "5abc" as 5 and "abc" as NaN
+function positiveInt(value: string | null, fallback: number): number | null {
+    if (value === null || value === '') return fallback;
+    return /^\d+$/.test(value) && Number(value) > 0 ? Number(value) : null;
+}
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const maxParam = positiveInt(searchParams.get('max'), 20);
+    const minSources = positiveInt(searchParams.get('minSources'), 1);
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : undefined;
+
+    if (maxParam === null) {
+        return NextResponse.json({ error: 'max must be a positive integer' }, { status: 400 });
+    }
+    if (minSources === null) {
+        return NextResponse.json({ error: 'minSources must be a positive integer' }, { status: 400 });
+    }
+    if (since && Number.isNaN(since.getTime())) {
+        return NextResponse.json({ error: 'since must be an ISO date' }, { status: 400 });
+    }
+    const max = Math.min(maxParam, 100);
+
+    if (searchParams.get('mode') === 'history') {
+        try {
+            const stories = (await getRepositories().stories.list({ since, limit: max }))
+                .filter((s) => s.sourceCount >= minSources)
+                .map(withoutMemberIds);
+            return NextResponse.json({
+                stories,
+                meta: { mode: 'history', returned: stories.length, minSources },
+            });
+        } catch (error: unknown) {
+            console.error('[/api/stories] History query error:', error instanceof Error ? error.message : error);
+            return NextResponse.json({ error: 'Failed to read story history' }, { status: 500 });
+        }
+    }
+
+    try {
+        await ensureIngestionStarted();
+        const stories = getIngestionStore().stories({ max, minSources, since });
+
+        return NextResponse.json({
+            stories,
+            meta: { returned: stories.length, minSources },
+        });
+    } catch (error: unknown) {
+        console.error('[/api/stories] Ingestion error:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Failed to start ingestion' }, { status: 500 });
+    }
+}
+
+// The id lists are bookkeeping for retention and can run to thousands of entries
+function withoutMemberIds(story: StoryAggregate): Omit<StoryAggregate, 'itemIds' | 'outletIds'> {
+    const summary: Partial<StoryAggregate> = { ...story };
+    delete summary.itemIds;
+    delete summary.outletIds;
+    return summary as Omit<StoryAggregate, 'itemIds' | 'outletIds'>;
+}
@@ -1,10 +1,23 @@
 // GET /api/tweets
-// Priority: RSS (CoinGecko + DeFiLlama + extras) → NewsAPI → X API → mock
+// Default (mode=merge): read merged, deduped and ranked items from the background ingestion store
+// mode=live: fan out to RSS + NewsAPI + X API together for this request only
+// mode=fallback: priority chain RSS (CoinGecko + DeFiLlama + extras) → NewsAPI → X API → mock
+// mode=history: page through persisted tweets from the repository (since/until/cursor/limit/kinds/q)
 
 import { NextResponse } from 'next/server';
-import { fetchAllRssFeeds, filterByKeywords } from '@/lib/api/rss-feeds';
+import { fetchAllRssFeeds, filterFeedItems, type FeedSource } from '@/lib/api/rss-feeds';
 import { isNewsApiConfigured, fetchNewsArticles, transformArticleToTweet } from '@/lib/api/news-api';
 import { getXApiClient, transformXApiTweet, isXApiConfigured } from '@/lib/api/x-api';
+import { aggregateSources } from '@/lib/api/aggregate';
+import {
+    ensureIngestionStarted,
+    getIngestionScheduler,
+    getIngestionStore,
+    type IngestOrigin,
+    type IngestionJobStatus,
+} from '@/lib/ingest';
+import { getFeedRegistry, feedsForTopic } from '@/lib/feeds';
+import { getRepositories, RepositoryError, TWEET_SOURCE_KINDS, type TweetSourceKind } from '@/lib/db';
 import { generateMockTweet } from '@/lib/mock/tweet-generator';
 
 export const runtime = 'nodejs';
@@ -12,22 +25,181 @@ export const revalidate = 0;
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
+    if (searchParams.get('mode') === 'history') return historyResponse(searchParams);
+
     const query = searchParams.get('query') || 'breaking OR market OR technology OR politics';
     const max = Math.min(parseInt(searchParams.get('max') || '20'), 50);
 
-    // Which RSS sources to include (comma-separated ids, default: coingecko + defillama)
-    const sources = (searchParams.get('sources') || 'defillama,coindesk,theblock,decrypt').split(',');
+    // Which RSS feeds to include (comma-separated registry ids, default: every enabled feed)
+    const sourceIds = (searchParams.get('sources') ?? '').split(',').filter(Boolean);
 
     // Optional: keyword filter derived from the topic preset
     const kwParam = searchParams.get('keywords') ?? '';
     const keywords = kwParam ? kwParam.split(',').filter(Boolean) : [];
 
+    // Optional: topic preset id – feeds bound to other topics are excluded
+    let scope: FeedScope;
+    try {
+        const topic = feedsForTopic(await getFeedRegistry().resolve(sourceIds), searchParams.get('topic'));
+        scope = { feeds: topic.feeds, pinnedIds: topic.pinnedIds, keywords };
+    } catch (error: unknown) {
+        console.error('[/api/tweets] Feed registry error:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Failed to load the feed registry' }, { status: 500 });
+    }
+
+    switch (searchParams.get('mode')) {
+        case 'fallback':
+            return fallbackResponse(query, max, scope);
+        case 'live':
+            return liveResponse(query, max, scope);
+        default:
+            return storeResponse(max, scope);
+    }
+}
+
+interface FeedScope {
+    feeds: FeedSource[];
+    pinnedIds: string[];
+    keywords: string[];
+}
+
+// ── Merge mode: served from the ingestion store, no upstream fetch ──────────
+async function storeResponse(max: number, { feeds, pinnedIds, keywords }: FeedScope) {
+    try {
+        // First request after boot waits for the initial sweep; afterwards this resolves immediately
+        await ensureIngestionStarted();
+
+        const store = getIngestionStore();
+        const tweets = store.query({
+            max,
+            keywords,
+            feedIds: feeds.map((f) => f.id),
+            pinnedFeedIds: pinnedIds,
+        });
+        const counts = store.countByOrigin();
+        const jobs = getIngestionScheduler().getStatus();
+
+        if (tweets.length > 0) {
+            return NextResponse.json({
+                tweets,
+                source: 'merged',
+                meta: {
+                    mode: 'merge',
+                    returned: tweets.length,
+                    sources: {
+                        rss: reportFor('rss', counts.rss, jobs),
+                        newsapi: reportFor('newsapi', counts.newsapi, jobs),
+                        x_api: reportFor('x_api', counts.x_api, jobs),
+                    },
+                },
+            });
+        }
+    } catch (error: unknown) {
+        console.error('[/api/tweets] Ingestion store error:', error instanceof Error ? error.message : error);
+    }
+
+    return mockResponse(max);
+}
+
+function reportFor(origin: IngestOrigin, count: number, jobs: IngestionJobStatus[]) {
+    const originJobs = jobs.filter((j) => j.origin === origin);
+    const errors = originJobs.filter((j) => j.lastError).map((j) => `${j.id}: ${j.lastError}`);
+    const lastSuccess = Math.max(0, ...originJobs.map((j) => j.lastSuccessAt?.getTime() ?? 0));
+
+    return {
+        count,
+        configured: originJobs.length > 0,
+        lastSuccessAt: lastSuccess ? new Date(lastSuccess) : undefined,
+        errors: errors.length ? errors : undefined,
+    };
+}
+
+// ── History mode: persisted tweets, newest first, keyset-paginated ──────────
+async function historyResponse(searchParams: URLSearchParams) {
+    const since = parseDate(searchParams.get('since'));
+    const until = parseDate(searchParams.get('until'));
+    if (since === null || until === null) {
+        return NextResponse.json({ error: 'since and until must be ISO dates' }, { status: 400 });
+    }
+
+    const kinds = (searchParams.get('kinds') ?? '').split(',').filter(Boolean);
+    const unknown = kinds.filter((k) => !TWEET_SOURCE_KINDS.includes(k as TweetSourceKind));
+    if (unknown.length) {
+        return NextResponse.json({ error: `Unknown source kinds: ${unknown.join(', ')}` }, { status: 400 });
+    }
+
+    const repositories = getRepositories();
+    try {
+        const page = await repositories.tweets.query({
+            since,
+            until,
+            limit: parseInt(searchParams.get('limit') || '50') || undefined,
+            cursor: searchParams.get('cursor') || undefined,
+            sourceKinds: kinds as TweetSourceKind[],
+            search: searchParams.get('q')?.trim() || undefined,
+        });
+
+        return NextResponse.json({
+            tweets: page.items,
+            nextCursor: page.nextCursor,
+            source: 'history',
+            meta: { mode: 'history', storage: repositories.kind, returned: page.items.length },
+        });
+    } catch (error: unknown) {
+        if (error instanceof RepositoryError && error.code === 'invalid_cursor') {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('[/api/tweets] History query error:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Failed to read tweet history' }, { status: 500 });
+    }
+}
+
+// undefined when absent, null when present but unparseable
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// ── Live mode: all sources in parallel, fetched for this request ───────────
+async function liveResponse(query: string, max: number, { feeds, pinnedIds, keywords }: FeedScope) {
+    try {
+        const result = await aggregateSources({
+            query,
+            max,
+            rssFeeds: feeds,
+            keywords,
+            pinnedFeedIds: pinnedIds,
+        });
+
+        if (result.tweets.length > 0) {
+            return NextResponse.json({
+                tweets: result.tweets,
+                source: 'merged',
+                meta: {
+                    mode: 'live',
+                    returned: result.tweets.length,
+                    sources: result.sources,
+                },
+            });
+        }
+
+        console.warn('[/api/tweets] All sources returned nothing:', result.sources);
+    } catch (error: unknown) {
+        console.error('[/api/tweets] Aggregation error:', error instanceof Error ? error.message : error);
+    }
+
+    return mockResponse(max);
+}
+
+// ── Fallback mode: first source that yields results wins ────────────────────
+async function fallbackResponse(query: string, max: number, { feeds, pinnedIds, keywords }: FeedScope) {
     // ── 1. RSS feeds (always attempted – no API key needed) ────────────────────
     try {
-        const { tweets, errors } = await fetchAllRssFeeds(sources, Math.ceil(max / sources.length) + 5);
+        const { tweets, errors } = await fetchAllRssFeeds(feeds, Math.ceil(max / Math.max(feeds.length, 1)) + 5);
 
-        // Apply keyword filter if topic preset provided keywords
-        const filtered = keywords.length ? filterByKeywords(tweets, keywords) : tweets;
+        // Apply keyword filter if topic preset provided keywords (topic-bound feeds are exempt)
+        const filtered = filterFeedItems(tweets, keywords, pinnedIds);
         const sliced = filtered.slice(0, max);
 
         if (sliced.length > 0) {
@@ -35,7 +207,8 @@ export async function GET(request: Request) {
                 tweets: sliced,
                 source: 'rss',
                 meta: {
-                    sources,
+                    mode: 'fallback',
+                    sources: feeds.map((f) => f.id),
                     returned: sliced.length,
                     errors: errors.length ? errors : undefined,
                 },
@@ -55,11 +228,11 @@ export async function GET(request: Request) {
             const response = await fetchNewsArticles(query, { pageSize: max });
             if (response.status !== 'ok') throw new Error(`NewsAPI status: ${response.status}`);
 
-            const tweets = response.articles.map(transformArticleToTweet);
+            const tweets = response.articles.map((a) => transformArticleToTweet(a));
             return NextResponse.json({
                 tweets,
                 source: 'newsapi',
-                meta: { totalResults: response.totalResults, returned: tweets.length },
+                meta: { mode: 'fallback', totalResults: response.totalResults, returned: tweets.length },
             });
         } catch (error: unknown) {
             console.error('[/api/tweets] NewsAPI error:', error instanceof Error ? error.message : error);
@@ -72,14 +245,18 @@ export async function GET(request: Request) {
             const client = getXApiClient()!;
             const response = await client.searchRecentTweets(query, max);
             const users = response.includes?.users ?? [];
-            const tweets = (response.data ?? []).map((t) => transformXApiTweet(t, users));
-            return NextResponse.json({ tweets, source: 'x_api', meta: response.meta });
+            const tweets = (response.data ?? []).map((t) => transformXApiTweet(t, users, response.includes?.media));
+            return NextResponse.json({ tweets, source: 'x_api', meta: { mode: 'fallback', ...response.meta } });
         } catch (error: unknown) {
             console.error('[/api/tweets] X API error:', error instanceof Error ? error.message : error);
         }
     }
 
     // ── 4. Mock fallback ───────────────────────────────────────────────────────
+    return mockResponse(max);
+}
+
+function mockResponse(max: number) {
     return NextResponse.json({
         tweets: Array.from({ length: max }, () => generateMockTweet()),
         source: 'mock',
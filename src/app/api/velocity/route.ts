@@ -0,0 +1,46 @@
+// GET /api/velocity?range=1h&bucket=1m&topic=crypto[&by=cashtag&keys=BTC,ETH&limit=5&window=10&detector=mad&threshold=3]
+// Item velocity bucketed by createdAt, with per-bucket sentiment, top categories and keywords.
+// `by` adds one series per topic / keyword / cashtag / author, each with its own spike result.
+
+import { NextResponse } from 'next/server';
+import { ensureIngestionStarted } from '@/lib/ingest';
+import { getVelocityService, VelocityQueryError } from '@/lib/velocity';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+function numberParam(value: string | null): number | null {
+    if (!value) return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+
+    try {
+        // Makes sure something is populating the repository this series is read from
+        ensureIngestionStarted().catch(() => undefined);
+
+        const series = await getVelocityService().series({
+            range: searchParams.get('range') || '1h',
+            bucket: searchParams.get('bucket'),
+            topic: searchParams.get('topic'),
+            by: searchParams.get('by'),
+            keys: searchParams.get('keys')?.split(',').filter(Boolean),
+            limit: numberParam(searchParams.get('limit')),
+            windowMinutes: numberParam(searchParams.get('window')),
+            threshold: numberParam(searchParams.get('threshold')),
+            detector: searchParams.get('detector'),
+            season: searchParams.get('season'),
+        });
+
+        return NextResponse.json(series);
+    } catch (error: unknown) {
+        if (error instanceof VelocityQueryError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('[/api/velocity] Error:', error instanceof Error ? error.message : error);
+        return NextResponse.json({ error: 'Failed to compute velocity' }, { status: 500 });
+    }
+}
@@ -0,0 +1,24 @@
+// GET /api/x/status
+// X API quota per endpoint (from x-rate-limit-* headers), polling job state and filtered-stream health
+
+import { NextResponse } from 'next/server';
+import { getXApiClient, isXApiConfigured } from '@/lib/api/x-api';
+import { getIngestionScheduler, getXStream } from '@/lib/ingest';
+
+export const runtime = 'nodejs';
+export const revalidate = 0;
+
+export async function GET() {
+    if (!isXApiConfigured()) {
+        return NextResponse.json({ configured: false, rateLimits: [], poll: null, stream: null });
+    }
+
+    const poll = getIngestionScheduler().getStatus().find((s) => s.id === 'x_api') ?? null;
+
+    return NextResponse.json({
+        configured: true,
+        rateLimits: getXApiClient()?.getRateLimits() ?? [],
+        poll,
+        stream: getXStream()?.getStatus() ?? null,
+    });
+}
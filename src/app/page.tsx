@@ -11,19 +11,33 @@ import {
   StatsPanel,
   AlertConfig,
   NotificationCenter,
-  generateDemoVelocityData,
+  AlertHistory,
+  type VelocityChartSeries,
 } from '@/components/dashboard';
-import { TOPIC_PRESETS, type TopicPreset } from '@/components/dashboard/SignalFilter';
-import { useDashboardStore } from '@/lib/store';
-import type { Tweet, VelocitySnapshot } from '@/lib/db/schema';
+import { TOPIC_PRESETS, type TopicPreset } from '@/lib/topics';
+import { useDashboardStore, useAlertStore } from '@/lib/store';
+import { useSpikeAlerts } from '@/lib/realtime/hooks';
+import type { SpikeAlertPayload } from '@/lib/realtime/events';
+import {
+  VELOCITY_RANGES,
+  VELOCITY_DIMENSIONS,
+  type VelocityRange,
+  type VelocityDimension,
+} from '@/lib/velocity/series';
+import type { AlertHistoryEntry, Tweet, VelocitySnapshot } from '@/lib/db/schema';
 
 export default function Home() {
-  const { isLive, setLive } = useDashboardStore();
+  const { isLive, setLive, selectedTimeRange, setTimeRange } = useDashboardStore();
+  const addNotification = useAlertStore((state) => state.addNotification);
 
   const [tweets, setTweets] = useState<Tweet[]>([]);
-  const [velocityData, setVelocityData] = useState<VelocitySnapshot[]>(generateDemoVelocityData(30));
-  const [dataSource, setDataSource] = useState<'rss' | 'newsapi' | 'x_api' | 'mock'>('mock');
+  const [velocityData, setVelocityData] = useState<VelocitySnapshot[]>([]);
+  const [velocityBreakdown, setVelocityBreakdown] = useState<VelocityDimension | null>(null);
+  const [velocitySeries, setVelocitySeries] = useState<VelocityChartSeries[]>([]);
+  const [alertTriggers, setAlertTriggers] = useState<AlertHistoryEntry[]>([]);
+  const [dataSource, setDataSource] = useState<'merged' | 'rss' | 'newsapi' | 'x_api' | 'mock'>('mock');
   const [activeTopic, setActiveTopic] = useState<TopicPreset>(TOPIC_PRESETS[0]);
+  const [xQuota, setXQuota] = useState<{ remaining: number; limit: number; resetAt: string } | null>(null);
   const [stats, setStats] = useState({
     tweetsAnalyzed: 0,
     sentimentScore: 0,
@@ -34,14 +48,16 @@ export default function Home() {
   });
 
   // Fetch tweets from our API route (which uses real X API or mock)
-  const fetchTweets = useCallback(async (query?: string, keywords?: string[]) => {
+  const fetchTweets = useCallback(async (query?: string, keywords?: string[], topicId?: string) => {
     const q = query ?? activeTopic.query;
     const kw = keywords ?? activeTopic.keywords;
+    const topic = topicId ?? activeTopic.id;
     try {
       const url = new URL('/api/tweets', window.location.href);
       url.searchParams.set('max', '20');
       url.searchParams.set('query', q);
       if (kw.length) url.searchParams.set('keywords', kw.join(','));
+      url.searchParams.set('topic', topic);
       const res = await fetch(url.toString());
       if (!res.ok) return;
       const data = await res.json();
@@ -64,23 +80,10 @@ export default function Home() {
           withSentiment.length
           : 0;
 
-      // Update velocity
-      const newSnapshot: VelocitySnapshot = {
-        id: `snap_${Date.now()}`,
-        timestamp: new Date(),
-        count: newTweets.length,
-        sentimentAvg: avgSentiment,
-        topCategories: [],
-        topKeywords: [],
-      };
-
-      setVelocityData((prev) => [...prev.slice(-59), newSnapshot]);
-
       setStats((prev) => ({
         ...prev,
         tweetsAnalyzed: prev.tweetsAnalyzed + newTweets.length,
         sentimentScore: avgSentiment,
-        velocity: newTweets.length,
         activeTopics: Math.min(
           (prev.activeTopics || 0) +
           new Set(newTweets.map((t) => t.category).filter(Boolean)).size,
@@ -92,23 +95,108 @@ export default function Home() {
     }
   }, []);
 
+  // Items per bucket by createdAt, computed server-side for the selected range and topic –
+  // optionally split into one series per topic / keyword / cashtag / author
+  const fetchVelocity = useCallback(async (range: VelocityRange, topicId: string, by: VelocityDimension | null) => {
+    try {
+      const url = new URL('/api/velocity', window.location.href);
+      url.searchParams.set('range', range);
+      url.searchParams.set('topic', topicId);
+      if (by) url.searchParams.set('by', by);
+      const res = await fetch(url.toString());
+      if (!res.ok) return;
+      const data: { snapshots: VelocitySnapshot[]; breakdown?: { series: VelocityChartSeries[] } } = await res.json();
+
+      setVelocityData(data.snapshots);
+      setVelocitySeries(data.breakdown?.series ?? []);
+      // Last complete bucket – the newest one is still filling up
+      const complete = data.snapshots[data.snapshots.length - 2];
+      setStats((prev) => ({ ...prev, velocity: complete?.count ?? 0 }));
+    } catch (err) {
+      console.error('Failed to fetch velocity:', err);
+    }
+  }, []);
+
+  // Remaining X search quota in the current rate-limit window (null when X isn't configured)
+  const fetchXQuota = useCallback(async () => {
+    try {
+      const res = await fetch('/api/x/status');
+      if (!res.ok) return;
+      const data = await res.json();
+      const search = data.rateLimits?.find((r: { endpoint: string }) => r.endpoint === 'GET /tweets/search/recent');
+      setXQuota(search ? { remaining: search.remaining, limit: search.limit, resetAt: search.resetAt } : null);
+    } catch (err) {
+      console.error('Failed to fetch X quota:', err);
+    }
+  }, []);
+
+  // Recent alert triggers with the evidence they fired on
+  const fetchAlertHistory = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alerts/history?limit=20');
+      if (!res.ok) return;
+      const data: { triggers: AlertHistoryEntry[] } = await res.json();
+      setAlertTriggers(data.triggers);
+    } catch (err) {
+      console.error('Failed to fetch alert history:', err);
+    }
+  }, []);
+
+  // Dead-lettered notifications can be sent again from the history
+  const handleReplayDelivery = useCallback(async (deliveryId: string) => {
+    try {
+      const res = await fetch(`/api/alerts/deliveries/${encodeURIComponent(deliveryId)}/replay`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        addNotification({ id: `replay_${deliveryId}_${Date.now()}`, message: data.error ?? 'Replay failed', type: 'error' });
+      }
+    } catch (err) {
+      console.error('Failed to replay delivery:', err);
+    }
+    fetchAlertHistory();
+  }, [addNotification, fetchAlertHistory]);
+
+  // Alerts are evaluated server-side; with a socket server configured their triggers arrive live,
+  // otherwise the history is picked up by the poll below
+  const handleSpikeAlert = useCallback((alert: SpikeAlertPayload) => {
+    addNotification({
+      id: alert.triggerId ?? `spike_${Date.now()}`,
+      message: `${alert.topic}: ${alert.details ?? `${alert.tweetCount} items`}`,
+      type: 'warning',
+    });
+    fetchAlertHistory();
+  }, [addNotification, fetchAlertHistory]);
+  useSpikeAlerts({ onAlert: handleSpikeAlert, enabled: !!process.env.NEXT_PUBLIC_SOCKET_URL });
+
   // Initial fetch on mount
   useEffect(() => {
     fetchTweets(activeTopic.query);
+    fetchXQuota();
+    fetchAlertHistory();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Velocity follows the selected range, topic and breakdown
+  useEffect(() => {
+    fetchVelocity(selectedTimeRange, activeTopic.id, velocityBreakdown);
+  }, [fetchVelocity, selectedTimeRange, activeTopic, velocityBreakdown]);
+
   // Polling when live
   useEffect(() => {
     if (!isLive) return;
-    const interval = setInterval(() => fetchTweets(activeTopic.query), 15000);
+    const interval = setInterval(() => {
+      fetchTweets(activeTopic.query, activeTopic.keywords, activeTopic.id);
+      fetchVelocity(selectedTimeRange, activeTopic.id, velocityBreakdown);
+      fetchXQuota();
+      fetchAlertHistory();
+    }, 15000);
     return () => clearInterval(interval);
-  }, [isLive, fetchTweets, activeTopic.query]);
+  }, [isLive, fetchTweets, fetchVelocity, fetchXQuota, fetchAlertHistory, activeTopic, selectedTimeRange, velocityBreakdown]);
 
   const handleTopicChange = useCallback((query: string, preset: TopicPreset) => {
     setActiveTopic(preset);
     setTweets([]);
-    fetchTweets(query, preset.keywords);
+    fetchTweets(query, preset.keywords, preset.id);
   }, [fetchTweets]);
 
   const avgVelocity = velocityData.reduce((s, v) => s + v.count, 0) / (velocityData.length || 1);
@@ -137,21 +225,29 @@ export default function Home() {
                     dataSource !== 'mock' ? 'text-neon-green' : 'text-neon-orange'
                   }
                 >
-                  {dataSource === 'rss'
-                    ? 'Live • RSS'
-                    : dataSource === 'newsapi'
-                      ? 'Live • NewsAPI'
-                      : dataSource === 'x_api'
-                        ? 'Live • X API'
-                        : 'Mock Data'}
+                  {dataSource === 'merged'
+                    ? 'Live • All Sources'
+                    : dataSource === 'rss'
+                      ? 'Live • RSS'
+                      : dataSource === 'newsapi'
+                        ? 'Live • NewsAPI'
+                        : dataSource === 'x_api'
+                          ? 'Live • X API'
+                          : 'Mock Data'}
                 </span>
+                {xQuota && (
+                  <span className={xQuota.remaining === 0 ? 'text-neon-orange' : undefined}>
+                    {' '}• X quota {xQuota.remaining}/{xQuota.limit} (resets{' '}
+                    {new Date(xQuota.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})
+                  </span>
+                )}
               </p>
             </div>
           </div>
 
           <div className="flex items-center gap-4">
             <button
-              onClick={() => { fetchTweets(activeTopic.query); }}
+              onClick={() => { fetchTweets(activeTopic.query, activeTopic.keywords, activeTopic.id); }}
               className="glass-panel px-3 py-2 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
             >
               ↻ Refresh
@@ -190,14 +286,44 @@ export default function Home() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         {/* Velocity Chart */}
         <div className="lg:col-span-2 glass-panel p-6">
-          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
-            <TrendingUp className="w-5 h-5 text-neon-cyan" />
-            News Velocity
-          </h2>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-neon-cyan" />
+              News Velocity
+            </h2>
+            <div className="flex items-center gap-1">
+              {([null, ...VELOCITY_DIMENSIONS] as const).map((by) => (
+                <button
+                  key={by ?? 'total'}
+                  onClick={() => setVelocityBreakdown(by)}
+                  className={`px-2 py-1 rounded text-xs font-medium capitalize transition-colors ${by === velocityBreakdown
+                    ? 'bg-neon-purple/20 text-neon-purple'
+                    : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                >
+                  {by ?? 'total'}
+                </button>
+              ))}
+              <span className="mx-1 h-4 w-px bg-border" />
+              {(Object.keys(VELOCITY_RANGES) as VelocityRange[]).map((range) => (
+                <button
+                  key={range}
+                  onClick={() => setTimeRange(range)}
+                  className={`px-2 py-1 rounded text-xs font-medium transition-colors ${range === selectedTimeRange
+                    ? 'bg-neon-cyan/20 text-neon-cyan'
+                    : 'text-muted-foreground hover:text-foreground'
+                    }`}
+                >
+                  {range}
+                </button>
+              ))}
+            </div>
+          </div>
           <VelocityChart
             snapshots={velocityData}
             averageVelocity={avgVelocity}
             peakVelocity={peakVelocity}
+            series={velocityBreakdown ? velocitySeries : undefined}
           />
         </div>
 
@@ -240,6 +366,8 @@ export default function Home() {
             Alert Configuration
           </h2>
           <AlertConfig />
+          <h3 className="text-sm font-semibold mt-6 mb-3 text-muted-foreground">Recent Triggers</h3>
+          <AlertHistory triggers={alertTriggers} onReplay={handleReplayDelivery} />
         </div>
       </div>
 
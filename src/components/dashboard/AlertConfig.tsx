@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
     Bell,
     Plus,
@@ -13,23 +13,150 @@ import {
     Hash,
     Tag,
     AlertTriangle,
+    FolderPlus,
+    Send,
+    RefreshCw,
+    CheckCircle,
 } from 'lucide-react';
 import { useAlertStore } from '@/lib/store';
-import type { Alert, AlertCondition, AlertAction, TweetCategory } from '@/lib/db/schema';
+import {
+    DEFAULT_CONDITION_WINDOW_MINUTES,
+    conditionGroup,
+    conditionLeaves,
+    describeConditions,
+    isConditionGroup,
+} from '@/lib/alerts/conditions';
+import { DEFAULT_ALERT_THROTTLE, DEDUPE_OPTIONS } from '@/lib/alerts/throttle';
+import { DEFAULT_DETECTOR, SEASON_MS, getDetector, listDetectors, type Season } from '@/lib/alerts/detectors';
+import { VELOCITY_DIMENSIONS, type VelocityDimension } from '@/lib/velocity/series';
+import {
+    ACTION_LABELS,
+    CONFIGURABLE_ACTION_TYPES,
+    EMAIL_DIGESTS,
+    describeAction,
+    generateWebhookSecret,
+    newAction,
+} from '@/lib/alerts/actions';
+import type {
+    Alert,
+    AlertThrottle,
+    AlertCondition,
+    AlertConditionGroup,
+    AlertConditionNode,
+    AlertAction,
+    TweetCategory,
+} from '@/lib/db/schema';
+
+function conditionIcon(type: AlertCondition['type']) {
+    switch (type) {
+        case 'velocity_spike': return <Zap className="w-3.5 h-3.5" />;
+        case 'sentiment_shift': return <TrendingUp className="w-3.5 h-3.5" />;
+        case 'keyword_match': return <Hash className="w-3.5 h-3.5" />;
+        case 'category_match': return <Tag className="w-3.5 h-3.5" />;
+        default: return <AlertTriangle className="w-3.5 h-3.5" />;
+    }
+}
+
+// ============================================
+// API
+// ============================================
+
+// Alerts live server-side (/api/alerts), where they're evaluated and shared across devices; the
+// alert store only caches them for this tab
+type AlertDraft = Pick<Alert, 'name' | 'conditions' | 'actions' | 'throttle'>;
+
+const ALERTS_REFRESH_MS = 30_000;
+
+async function alertRequest<T>(path: string, method: string = 'GET', body?: unknown): Promise<T> {
+    const res = await fetch(path, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+    return data as T;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
 
 // ============================================
 // Alert List Component
 // ============================================
 
 export function AlertConfig() {
-    const { alerts, addAlert, removeAlert, toggleAlert } = useAlertStore();
+    const { alerts, setAlerts, addAlert, updateAlert, removeAlert, addNotification } = useAlertStore();
     const [isModalOpen, setIsModalOpen] = useState(false);
-
-    const handleCreateAlert = (alert: Alert) => {
-        addAlert(alert);
+    const [error, setError] = useState<string | null>(null);
+    const [testingId, setTestingId] = useState<string | null>(null);
+
+    // Polled too, so alerts edited elsewhere and trigger counts stay current
+    const loadAlerts = useCallback(async () => {
+        try {
+            const data = await alertRequest<{ alerts: Alert[] }>('/api/alerts');
+            setAlerts(data.alerts);
+            setError(null);
+        } catch (err) {
+            setError(`Couldn't load alerts: ${errorMessage(err)}`);
+        }
+    }, [setAlerts]);
+
+    useEffect(() => {
+        loadAlerts();
+        const interval = setInterval(loadAlerts, ALERTS_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [loadAlerts]);
+
+    // Errors are shown in the modal, which stays open
+    const handleCreateAlert = async (draft: AlertDraft) => {
+        const data = await alertRequest<{ alert: Alert }>('/api/alerts', 'POST', draft);
+        addAlert(data.alert);
         setIsModalOpen(false);
     };
 
+    const handleToggle = async (alert: Alert) => {
+        try {
+            const action = alert.enabled ? 'disable' : 'enable';
+            const data = await alertRequest<{ alert: Alert }>(`/api/alerts/${encodeURIComponent(alert.id)}/${action}`, 'POST');
+            updateAlert(alert.id, data.alert);
+            setError(null);
+        } catch (err) {
+            setError(errorMessage(err));
+        }
+    };
+
+    const handleDelete = async (alert: Alert) => {
+        try {
+            await alertRequest(`/api/alerts/${encodeURIComponent(alert.id)}`, 'DELETE');
+            removeAlert(alert.id);
+            setError(null);
+        } catch (err) {
+            setError(errorMessage(err));
+        }
+    };
+
+    const handleTest = async (alert: Alert) => {
+        setTestingId(alert.id);
+        try {
+            const data = await alertRequest<{ matched: boolean; delivered: boolean }>(
+                `/api/alerts/${encodeURIComponent(alert.id)}/test`,
+                'POST'
+            );
+            addNotification({
+                id: `test_${alert.id}_${Date.now()}`,
+                message: `Test "${alert.name}": ${data.delivered ? 'delivered' : 'no action delivered'}` +
+                    ` (conditions ${data.matched ? 'match' : "don't match"} right now)`,
+                type: data.delivered ? 'info' : 'warning',
+            });
+        } catch (err) {
+            addNotification({ id: `test_${alert.id}_${Date.now()}`, message: errorMessage(err), type: 'error' });
+        } finally {
+            setTestingId(null);
+        }
+    };
+
     return (
         <div className="space-y-4">
             {/* Header */}
@@ -46,6 +173,8 @@ export function AlertConfig() {
                 </button>
             </div>
 
+            {error && <p className="text-xs text-neon-pink">{error}</p>}
+
             {/* Alert List */}
             <div className="space-y-2">
                 {alerts.length === 0 ? (
@@ -59,8 +188,10 @@ export function AlertConfig() {
                         <AlertCard
                             key={alert.id}
                             alert={alert}
-                            onToggle={() => toggleAlert(alert.id)}
-                            onDelete={() => removeAlert(alert.id)}
+                            testing={testingId === alert.id}
+                            onToggle={() => handleToggle(alert)}
+                            onDelete={() => handleDelete(alert)}
+                            onTest={() => handleTest(alert)}
                         />
                     ))
                 )}
@@ -83,20 +214,16 @@ export function AlertConfig() {
 
 interface AlertCardProps {
     alert: Alert;
+    testing: boolean;
     onToggle: () => void;
     onDelete: () => void;
+    onTest: () => void;
 }
 
-function AlertCard({ alert, onToggle, onDelete }: AlertCardProps) {
-    const getConditionIcon = (type: AlertCondition['type']) => {
-        switch (type) {
-            case 'velocity_spike': return <Zap className="w-3.5 h-3.5" />;
-            case 'sentiment_shift': return <TrendingUp className="w-3.5 h-3.5" />;
-            case 'keyword_match': return <Hash className="w-3.5 h-3.5" />;
-            case 'category_match': return <Tag className="w-3.5 h-3.5" />;
-            default: return <AlertTriangle className="w-3.5 h-3.5" />;
-        }
-    };
+function AlertCard({ alert, testing, onToggle, onDelete, onTest }: AlertCardProps) {
+    const leaves = conditionLeaves(alert.conditions);
+    const types = [...new Set(leaves.map((c) => c.type))];
+    const channels = alert.actions.filter((a) => a.type !== 'in_app_notification').map(describeAction);
 
     return (
         <div
@@ -117,19 +244,36 @@ function AlertCard({ alert, onToggle, onDelete }: AlertCardProps) {
                     </div>
 
                     <div className="flex flex-wrap gap-1.5 mt-2">
-                        {alert.conditions.map((condition, i) => (
+                        {types.map((type) => (
                             <span
-                                key={i}
+                                key={type}
                                 className="inline-flex items-center gap-1 px-2 py-0.5 bg-secondary/50 rounded text-xs"
                             >
-                                {getConditionIcon(condition.type)}
-                                {condition.type.replace('_', ' ')}
+                                {conditionIcon(type)}
+                                {type.replace('_', ' ')}
                             </span>
                         ))}
                     </div>
+                    <p className="mt-1.5 text-xs text-muted-foreground">{describeConditions(alert.conditions)}</p>
+                    {channels.length > 0 && (
+                        <p className="mt-1 text-xs text-muted-foreground">Notifies {channels.join(', ')}</p>
+                    )}
+                    {alert.lastTriggeredAt && (
+                        <p className="mt-1 text-xs text-muted-foreground">
+                            Last triggered {new Date(alert.lastTriggeredAt).toLocaleString()}
+                        </p>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={onTest}
+                        disabled={testing}
+                        title="Test-fire this alert's actions"
+                        className="p-1 hover:bg-secondary rounded transition-colors text-muted-foreground hover:text-neon-cyan disabled:opacity-50"
+                    >
+                        <Send className={`w-4 h-4 ${testing ? 'animate-pulse' : ''}`} />
+                    </button>
                     <button
                         onClick={onToggle}
                         className="p-1 hover:bg-secondary rounded transition-colors"
@@ -158,71 +302,79 @@ function AlertCard({ alert, onToggle, onDelete }: AlertCardProps) {
 
 interface CreateAlertModalProps {
     onClose: () => void;
-    onCreate: (alert: Alert) => void;
+    // Rejects with the validation error from the API
+    onCreate: (draft: AlertDraft) => Promise<void>;
+}
+
+const CONDITION_TYPES: { type: AlertCondition['type']; label: string; description: string }[] = [
+    { type: 'velocity_spike', label: 'Velocity Spike', description: 'Tweet volume increases 300%+' },
+    { type: 'sentiment_shift', label: 'Sentiment Shift', description: 'Major positive/negative shift' },
+    { type: 'keyword_match', label: 'Keyword Match', description: 'Specific keywords detected' },
+    { type: 'category_match', label: 'Category Match', description: 'Breaking news or rumors' },
+];
+
+const CATEGORY_OPTIONS: TweetCategory[] = ['breaking_news', 'rumor', 'opinion', 'analysis', 'official', 'spam'];
+
+function newCondition(type: AlertCondition['type']): AlertCondition {
+    switch (type) {
+        case 'velocity_spike':
+            return { type, threshold: 300 };
+        case 'sentiment_shift':
+            return { type, threshold: 0.5 };
+        case 'keyword_match':
+            return { type, keywords: [] };
+        case 'category_match':
+            return { type, categories: ['breaking_news'] };
+    }
+}
+
+const SEASON_LABELS: Record<Season, string> = {
+    day: 'Yesterday',
+    week: 'Last week',
+};
+
+const DEDUPE_LABELS: Record<AlertThrottle['dedupeBy'], string> = {
+    alert: 'Once per alert',
+    keyword: 'Once per keyword',
+    story: 'Once per story',
+    item: 'Once per item',
+};
+
+// Keyword and category conditions without values can never match
+function isComplete(condition: AlertCondition): boolean {
+    if (condition.type === 'keyword_match') return !!condition.keywords?.length;
+    if (condition.type === 'category_match') return !!condition.categories?.length;
+    return true;
 }
 
 function CreateAlertModal({ onClose, onCreate }: CreateAlertModalProps) {
     const [name, setName] = useState('');
-    const [conditions, setConditions] = useState<AlertCondition[]>([]);
-    const [actions, setActions] = useState<AlertAction[]>([]);
-    const [webhookUrl, setWebhookUrl] = useState('');
-
-    const conditionTypes: { type: AlertCondition['type']; label: string; description: string }[] = [
-        { type: 'velocity_spike', label: 'Velocity Spike', description: 'Tweet volume increases 300%+' },
-        { type: 'sentiment_shift', label: 'Sentiment Shift', description: 'Major positive/negative shift' },
-        { type: 'keyword_match', label: 'Keyword Match', description: 'Specific keywords detected' },
-        { type: 'category_match', label: 'Category Match', description: 'Breaking news or rumors' },
-    ];
-
-    const handleAddCondition = (type: AlertCondition['type']) => {
-        if (conditions.find((c) => c.type === type)) return;
-
-        const newCondition: AlertCondition = { type };
-
-        switch (type) {
-            case 'velocity_spike':
-                newCondition.threshold = 300;
-                break;
-            case 'sentiment_shift':
-                newCondition.threshold = 0.5;
-                break;
-            case 'keyword_match':
-                newCondition.keywords = [];
-                break;
-            case 'category_match':
-                newCondition.categories = ['breaking_news'];
-                break;
-        }
+    const [conditions, setConditions] = useState<AlertConditionGroup>(conditionGroup('all'));
+    // In-app notifications are always added; these are the external channels
+    const [actionDrafts, setActionDrafts] = useState<{ id: string; action: AlertAction }[]>([]);
+    const [throttle, setThrottle] = useState<AlertThrottle>(DEFAULT_ALERT_THROTTLE);
 
-        setConditions([...conditions, newCondition]);
-    };
+    const leaves = conditionLeaves(conditions);
+    const canCreate = !!name.trim() && leaves.length > 0 && leaves.every(isComplete);
 
-    const handleRemoveCondition = (type: AlertCondition['type']) => {
-        setConditions(conditions.filter((c) => c.type !== type));
-    };
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-    const handleCreate = () => {
-        if (!name.trim() || conditions.length === 0) return;
+    const handleCreate = async () => {
+        if (!canCreate || saving) return;
 
         const alertActions: AlertAction[] = [
             { type: 'in_app_notification' },
+            ...actionDrafts.map((draft) => draft.action),
         ];
 
-        if (webhookUrl.trim()) {
-            alertActions.push({ type: 'discord_webhook', webhookUrl: webhookUrl.trim() });
+        setSaving(true);
+        try {
+            await onCreate({ name: name.trim(), conditions, actions: alertActions, throttle });
+        } catch (err) {
+            setError(errorMessage(err));
+            setSaving(false);
         }
-
-        const alert: Alert = {
-            id: `alert_${Date.now()}`,
-            name: name.trim(),
-            enabled: true,
-            conditions,
-            actions: alertActions,
-            createdAt: new Date(),
-            triggerCount: 0,
-        };
-
-        onCreate(alert);
     };
 
     return (
@@ -265,51 +417,116 @@ function CreateAlertModal({ onClose, onCreate }: CreateAlertModalProps) {
                     <label className="block text-xs font-semibold uppercase text-muted-foreground mb-2">
                         Trigger Conditions
                     </label>
-                    <div className="space-y-2">
-                        {conditionTypes.map((ct) => {
-                            const isSelected = conditions.some((c) => c.type === ct.type);
-                            return (
-                                <button
-                                    key={ct.type}
-                                    onClick={() => isSelected ? handleRemoveCondition(ct.type) : handleAddCondition(ct.type)}
-                                    className={`
-                    w-full flex items-center justify-between p-3 rounded-lg border transition-all text-left
-                    ${isSelected
-                                            ? 'bg-neon-cyan/20 border-neon-cyan/50'
-                                            : 'bg-secondary/30 border-transparent hover:bg-secondary/50'
-                                        }
-                  `}
-                                >
-                                    <div>
-                                        <span className="text-sm font-medium">{ct.label}</span>
-                                        <p className="text-xs text-muted-foreground">{ct.description}</p>
-                                    </div>
-                                    <div className={`w-5 h-5 rounded border-2 flex items-center justify-center ${isSelected ? 'border-neon-cyan bg-neon-cyan' : 'border-muted'}`}>
-                                        {isSelected && <span className="text-background text-xs">✓</span>}
-                                    </div>
-                                </button>
-                            );
-                        })}
+                    <ConditionGroupEditor group={conditions} onChange={setConditions} />
+                    {leaves.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-2">
+                            Triggers when: {describeConditions(conditions)}
+                        </p>
+                    )}
+                </div>
+
+                {/* Throttling */}
+                <div className="mb-6">
+                    <label className="block text-xs font-semibold uppercase text-muted-foreground mb-2">
+                        Repeat Notifications
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-xs text-muted-foreground">
+                            Cooldown (min)
+                            <input
+                                type="number"
+                                min={0}
+                                value={throttle.cooldownMinutes}
+                                onChange={(e) => setThrottle({ ...throttle, cooldownMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                                className="mt-1 w-full px-2 py-1.5 bg-secondary/50 border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                            />
+                        </label>
+                        <label className="text-xs text-muted-foreground">
+                            Deduplicate
+                            <select
+                                value={throttle.dedupeBy}
+                                onChange={(e) => setThrottle({ ...throttle, dedupeBy: e.target.value as AlertThrottle['dedupeBy'] })}
+                                className="mt-1 w-full px-2 py-1.5 bg-secondary/50 border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                            >
+                                {DEDUPE_OPTIONS.map((option) => (
+                                    <option key={option} value={option}>{DEDUPE_LABELS[option]}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="text-xs text-muted-foreground">
+                            Re-arm
+                            <select
+                                value={throttle.rearm}
+                                onChange={(e) => setThrottle({ ...throttle, rearm: e.target.value as AlertThrottle['rearm'] })}
+                                className="mt-1 w-full px-2 py-1.5 bg-secondary/50 border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                            >
+                                <option value="cooldown">After the cooldown</option>
+                                <option value="clear">Once conditions clear</option>
+                            </select>
+                        </label>
+                        {throttle.rearm === 'clear' && (
+                            <label className="text-xs text-muted-foreground">
+                                Clear for (min)
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={throttle.clearMinutes}
+                                    onChange={(e) => setThrottle({ ...throttle, clearMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                                    className="mt-1 w-full px-2 py-1.5 bg-secondary/50 border border-border rounded text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                                />
+                            </label>
+                        )}
                     </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                        {throttle.rearm === 'clear'
+                            ? `Fires again only after the conditions stop matching for ${throttle.clearMinutes}m`
+                            : `Fires at most every ${throttle.cooldownMinutes}m while the conditions hold`}
+                        {throttle.dedupeBy !== 'alert' && ` – new ${throttle.dedupeBy === 'item' ? 'items' : `${throttle.dedupeBy}s`} fire right away`}
+                    </p>
                 </div>
 
-                {/* Discord Webhook */}
+                {/* Notification Channels */}
                 <div className="mb-6">
                     <label className="block text-xs font-semibold uppercase text-muted-foreground mb-2">
-                        Discord Webhook (Optional)
+                        Notify
                     </label>
-                    <input
-                        type="url"
-                        value={webhookUrl}
-                        onChange={(e) => setWebhookUrl(e.target.value)}
-                        placeholder="https://discord.com/api/webhooks/..."
-                        className="w-full px-3 py-2 bg-secondary/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
-                    />
+                    <div className="space-y-2">
+                        {actionDrafts.map((draft) => (
+                            <ActionEditor
+                                key={draft.id}
+                                action={draft.action}
+                                alertName={name.trim()}
+                                onChange={(action) =>
+                                    setActionDrafts(actionDrafts.map((d) => (d.id === draft.id ? { ...d, action } : d)))
+                                }
+                                onRemove={() => setActionDrafts(actionDrafts.filter((d) => d.id !== draft.id))}
+                            />
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {CONFIGURABLE_ACTION_TYPES.map((type) => (
+                            <button
+                                key={type}
+                                onClick={() =>
+                                    setActionDrafts([
+                                        ...actionDrafts,
+                                        { id: `${type}_${Date.now()}`, action: newAction(type) },
+                                    ])
+                                }
+                                className="flex items-center gap-1 px-2 py-1 bg-secondary/50 hover:bg-secondary rounded text-xs transition-colors"
+                            >
+                                <Plus className="w-3 h-3" />
+                                {ACTION_LABELS[type]}
+                            </button>
+                        ))}
+                    </div>
                     <p className="text-xs text-muted-foreground mt-1">
-                        Get notified in Discord when this alert triggers
+                        In-app notifications are always on
                     </p>
                 </div>
 
+                {error && <p className="mb-4 text-xs text-neon-pink">{error}</p>}
+
                 {/* Actions */}
                 <div className="flex justify-end gap-3">
                     <button
@@ -320,7 +537,7 @@ function CreateAlertModal({ onClose, onCreate }: CreateAlertModalProps) {
                     </button>
                     <button
                         onClick={handleCreate}
-                        disabled={!name.trim() || conditions.length === 0}
+                        disabled={!canCreate || saving}
                         className="px-4 py-2 bg-neon-cyan text-background text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed hover:bg-neon-cyan/90 transition-colors"
                     >
                         Create Alert
@@ -330,3 +547,443 @@ function CreateAlertModal({ onClose, onCreate }: CreateAlertModalProps) {
         </div>
     );
 }
+
+// ============================================
+// Action Editor
+// ============================================
+
+const URL_PLACEHOLDERS: Partial<Record<AlertAction['type'], string>> = {
+    discord_webhook: 'https://discord.com/api/webhooks/...',
+    slack_webhook: 'https://hooks.slack.com/services/...',
+    webhook: 'https://example.com/alerts',
+};
+
+const inputClass =
+    'w-full px-3 py-2 bg-secondary/50 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-neon-cyan/50';
+
+type ActionTest = { state: 'sending' } | { state: 'sent' } | { state: 'failed'; error: string };
+
+interface ActionEditorProps {
+    action: AlertAction;
+    // Shown in the test message
+    alertName: string;
+    onChange: (action: AlertAction) => void;
+    onRemove: () => void;
+}
+
+function ActionEditor({ action, alertName, onChange, onRemove }: ActionEditorProps) {
+    const [test, setTest] = useState<ActionTest | null>(null);
+
+    // A test result no longer applies once the settings change
+    const update = (patch: Partial<AlertAction>) => {
+        onChange({ ...action, ...patch });
+        setTest(null);
+    };
+
+    const sendTest = async () => {
+        setTest({ state: 'sending' });
+        try {
+            const result = await alertRequest<{ ok: boolean; error?: string }>('/api/alerts/actions/test', 'POST', {
+                action,
+                alertName: alertName || undefined,
+            });
+            setTest(result.ok ? { state: 'sent' } : { state: 'failed', error: result.error ?? 'Not delivered' });
+        } catch (err) {
+            setTest({ state: 'failed', error: errorMessage(err) });
+        }
+    };
+
+    return (
+        <div className="p-3 bg-secondary/30 rounded-lg space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-medium">{ACTION_LABELS[action.type]}</span>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={sendTest}
+                        disabled={test?.state === 'sending'}
+                        className="flex items-center gap-1 text-xs text-neon-cyan hover:underline disabled:opacity-50"
+                    >
+                        <Send className={`w-3 h-3 ${test?.state === 'sending' ? 'animate-pulse' : ''}`} />
+                        Send test
+                    </button>
+                    <button
+                        onClick={onRemove}
+                        className="p-0.5 rounded text-muted-foreground hover:text-destructive transition-colors"
+                    >
+                        <X className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </div>
+
+            {action.type in URL_PLACEHOLDERS && (
+                <input
+                    type="url"
+                    value={action.webhookUrl ?? ''}
+                    onChange={(e) => update({ webhookUrl: e.target.value.trim() })}
+                    placeholder={URL_PLACEHOLDERS[action.type]}
+                    className={inputClass}
+                />
+            )}
+
+            {action.type === 'telegram' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <input
+                        type="password"
+                        value={action.botToken ?? ''}
+                        onChange={(e) => update({ botToken: e.target.value.trim() })}
+                        placeholder="Bot token (123456:ABC-DEF…)"
+                        autoComplete="off"
+                        className={inputClass}
+                    />
+                    <input
+                        type="text"
+                        value={action.chatId ?? ''}
+                        onChange={(e) => update({ chatId: e.target.value.trim() })}
+                        placeholder="Chat id or @channel"
+                        className={inputClass}
+                    />
+                </div>
+            )}
+
+            {action.type === 'webhook' && (
+                <>
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={action.secret ?? ''}
+                            onChange={(e) => update({ secret: e.target.value.trim() })}
+                            placeholder="Signing secret"
+                            autoComplete="off"
+                            className={`${inputClass} font-mono text-xs`}
+                        />
+                        <button
+                            onClick={() => update({ secret: generateWebhookSecret() })}
+                            title="Generate a new secret"
+                            className="p-2 hover:bg-secondary rounded-lg transition-colors text-muted-foreground"
+                        >
+                            <RefreshCw className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Signed with X-Alert-Signature: sha256=HMAC(secret, X-Alert-Timestamp + &quot;.&quot; + body)
+                    </p>
+                </>
+            )}
+
+            {action.type === 'email' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <input
+                        type="email"
+                        value={action.email ?? ''}
+                        onChange={(e) => update({ email: e.target.value.trim() })}
+                        placeholder="alerts@example.com"
+                        className={inputClass}
+                    />
+                    <select
+                        value={action.digest ?? ''}
+                        onChange={(e) => update({ digest: (e.target.value || undefined) as AlertAction['digest'] })}
+                        className={`${inputClass} text-foreground`}
+                    >
+                        <option value="">Every trigger</option>
+                        {EMAIL_DIGESTS.map((digest) => (
+                            <option key={digest} value={digest}>{digest === 'hourly' ? 'Hourly digest' : 'Daily digest'}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {test?.state === 'sent' && (
+                <p className="flex items-center gap-1 text-xs text-neon-green">
+                    <CheckCircle className="w-3 h-3" />
+                    Test notification sent
+                </p>
+            )}
+            {test?.state === 'failed' && <p className="text-xs text-neon-pink break-words">{test.error}</p>}
+        </div>
+    );
+}
+
+// ============================================
+// Condition Tree Builder
+// ============================================
+
+const GROUP_LABELS: Record<AlertConditionGroup['op'], string> = {
+    all: 'ALL of',
+    any: 'ANY of',
+    not: 'NONE of',
+};
+
+interface ConditionGroupEditorProps {
+    group: AlertConditionGroup;
+    onChange: (group: AlertConditionGroup) => void;
+    // Nested groups can be removed and negated; the root is always ALL or ANY
+    onRemove?: () => void;
+}
+
+function ConditionGroupEditor({ group, onChange, onRemove }: ConditionGroupEditorProps) {
+    const [isAdding, setIsAdding] = useState(false);
+    const ops: AlertConditionGroup['op'][] = onRemove ? ['all', 'any', 'not'] : ['all', 'any'];
+
+    const updateChild = (index: number, child: AlertConditionNode) => {
+        onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? child : c)) });
+    };
+
+    const removeChild = (index: number) => {
+        onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+    };
+
+    const addChild = (child: AlertConditionNode) => {
+        onChange({ ...group, conditions: [...group.conditions, child] });
+        setIsAdding(false);
+    };
+
+    return (
+        <div className={`space-y-2 ${onRemove ? 'p-2 rounded-lg border border-border' : ''}`}>
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1">
+                    {ops.map((op) => (
+                        <button
+                            key={op}
+                            onClick={() => onChange({ ...group, op })}
+                            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${group.op === op
+                                ? 'bg-neon-purple/20 text-neon-purple'
+                                : 'text-muted-foreground hover:text-foreground'
+                                }`}
+                        >
+                            {GROUP_LABELS[op]}
+                        </button>
+                    ))}
+                </div>
+                {onRemove && (
+                    <button
+                        onClick={onRemove}
+                        className="p-1 hover:bg-destructive/20 rounded transition-colors text-muted-foreground hover:text-destructive"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {group.conditions.map((child, i) =>
+                isConditionGroup(child) ? (
+                    <ConditionGroupEditor
+                        key={i}
+                        group={child}
+                        onChange={(updated) => updateChild(i, updated)}
+                        onRemove={() => removeChild(i)}
+                    />
+                ) : (
+                    <ConditionEditor
+                        key={i}
+                        condition={child}
+                        onChange={(updated) => updateChild(i, updated)}
+                        onRemove={() => removeChild(i)}
+                    />
+                )
+            )}
+
+            {isAdding ? (
+                <div className="space-y-1">
+                    {CONDITION_TYPES.map((ct) => (
+                        <button
+                            key={ct.type}
+                            onClick={() => addChild(newCondition(ct.type))}
+                            className="w-full flex items-center gap-2 p-2 rounded-lg bg-secondary/30 hover:bg-secondary/50 transition-all text-left"
+                        >
+                            {conditionIcon(ct.type)}
+                            <div>
+                                <span className="text-sm font-medium">{ct.label}</span>
+                                <p className="text-xs text-muted-foreground">{ct.description}</p>
+                            </div>
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setIsAdding(true)}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs text-neon-cyan hover:bg-neon-cyan/10 transition-colors"
+                    >
+                        <Plus className="w-3.5 h-3.5" />
+                        Condition
+                    </button>
+                    <button
+                        onClick={() => addChild(conditionGroup('any'))}
+                        className="flex items-center gap-1 px-2 py-1 rounded text-xs text-neon-purple hover:bg-neon-purple/10 transition-colors"
+                    >
+                        <FolderPlus className="w-3.5 h-3.5" />
+                        Group
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface ConditionEditorProps {
+    condition: AlertCondition;
+    onChange: (condition: AlertCondition) => void;
+    onRemove: () => void;
+}
+
+function ConditionEditor({ condition, onChange, onRemove }: ConditionEditorProps) {
+    // Kept as typed so "a, b" can be edited without the separator disappearing mid-word
+    const [keywordText, setKeywordText] = useState(condition.keywords?.join(', ') ?? '');
+    const label = CONDITION_TYPES.find((ct) => ct.type === condition.type)?.label ?? condition.type;
+    const detector = getDetector(condition.detector) ?? getDetector(DEFAULT_DETECTOR)!;
+
+    const toggleCategory = (category: TweetCategory) => {
+        const categories = condition.categories ?? [];
+        onChange({
+            ...condition,
+            categories: categories.includes(category)
+                ? categories.filter((c) => c !== category)
+                : [...categories, category],
+        });
+    };
+
+    return (
+        <div className={`p-2 rounded-lg bg-secondary/30 border ${isComplete(condition) ? 'border-transparent' : 'border-neon-orange/50'}`}>
+            <div className="flex items-center justify-between">
+                <span className="flex items-center gap-1.5 text-sm font-medium">
+                    {conditionIcon(condition.type)}
+                    {label}
+                </span>
+                <button
+                    onClick={onRemove}
+                    className="p-1 hover:bg-destructive/20 rounded transition-colors text-muted-foreground hover:text-destructive"
+                >
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            {condition.type === 'velocity_spike' && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-muted-foreground">
+                    <label className="flex items-center gap-2">
+                        Detector
+                        <select
+                            value={detector.name}
+                            onChange={(e) => {
+                                const next = getDetector(e.target.value)!;
+                                // The threshold's unit changes with the detector (percent vs. standard deviations)
+                                const updated: AlertCondition = { ...condition, detector: next.name, threshold: next.defaultThreshold };
+                                if (next.name !== 'seasonal') delete updated.season;
+                                onChange(updated);
+                            }}
+                            title={detector.description}
+                            className="px-2 py-1 bg-secondary/50 border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                        >
+                            {listDetectors().map((d) => (
+                                <option key={d.name} value={d.name}>{d.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {detector.name === 'seasonal' && (
+                        <label className="flex items-center gap-2">
+                            Compare with
+                            <select
+                                value={condition.season ?? 'day'}
+                                onChange={(e) => onChange({ ...condition, season: e.target.value as Season })}
+                                className="px-2 py-1 bg-secondary/50 border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                            >
+                                {(Object.keys(SEASON_MS) as Season[]).map((season) => (
+                                    <option key={season} value={season}>{SEASON_LABELS[season]}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    <label className="flex items-center gap-2">
+                        Series
+                        <select
+                            value={condition.series?.by ?? ''}
+                            onChange={(e) => {
+                                const updated: AlertCondition = { ...condition };
+                                if (e.target.value) updated.series = { by: e.target.value as VelocityDimension };
+                                else delete updated.series;
+                                onChange(updated);
+                            }}
+                            className="px-2 py-1 bg-secondary/50 border border-border rounded text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                        >
+                            <option value="">Total</option>
+                            {VELOCITY_DIMENSIONS.map((by) => (
+                                <option key={by} value={by}>By {by}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {condition.series && (
+                        <input
+                            type="text"
+                            value={condition.series.key ?? ''}
+                            onChange={(e) => onChange({
+                                ...condition,
+                                series: { by: condition.series!.by, ...(e.target.value.trim() ? { key: e.target.value.trim() } : {}) },
+                            })}
+                            placeholder={`Every ${condition.series.by}`}
+                            className="w-28 px-2 py-1 bg-secondary/50 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                        />
+                    )}
+                </div>
+            )}
+
+            {(condition.type === 'velocity_spike' || condition.type === 'sentiment_shift') && (
+                <label className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                    {condition.type === 'sentiment_shift' ? '|Sentiment| ≥' : detector.maxThreshold === undefined ? 'Increase ≥ (%)' : 'Score ≥ (σ)'}
+                    <input
+                        type="number"
+                        min={0}
+                        max={condition.type === 'velocity_spike' ? detector.maxThreshold : undefined}
+                        step={condition.type === 'sentiment_shift' ? 0.1 : detector.maxThreshold === undefined ? 50 : 0.5}
+                        value={condition.threshold ?? ''}
+                        onChange={(e) => onChange({ ...condition, threshold: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        className="w-20 px-2 py-1 bg-secondary/50 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                    />
+                </label>
+            )}
+
+            <label className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                Window (min)
+                <input
+                    type="number"
+                    min={1}
+                    value={condition.windowMinutes ?? ''}
+                    placeholder={String(condition.type === 'velocity_spike' ? 1 : DEFAULT_CONDITION_WINDOW_MINUTES)}
+                    onChange={(e) => onChange({ ...condition, windowMinutes: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className="w-20 px-2 py-1 bg-secondary/50 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                />
+            </label>
+
+            {condition.type === 'keyword_match' && (
+                <input
+                    type="text"
+                    value={keywordText}
+                    onChange={(e) => {
+                        setKeywordText(e.target.value);
+                        onChange({
+                            ...condition,
+                            keywords: e.target.value.split(',').map((k) => k.trim()).filter(Boolean),
+                        });
+                    }}
+                    placeholder="airdrop, retroactive"
+                    className="w-full mt-2 px-2 py-1 bg-secondary/50 border border-border rounded text-xs focus:outline-none focus:ring-2 focus:ring-neon-cyan/50"
+                />
+            )}
+
+            {condition.type === 'category_match' && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {CATEGORY_OPTIONS.map((category) => (
+                        <button
+                            key={category}
+                            onClick={() => toggleCategory(category)}
+                            className={`px-2 py-0.5 rounded text-xs transition-colors ${condition.categories?.includes(category)
+                                ? 'bg-neon-cyan/20 text-neon-cyan'
+                                : 'text-muted-foreground hover:text-foreground'
+                                }`}
+                        >
+                            {category.replace('_', ' ')}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
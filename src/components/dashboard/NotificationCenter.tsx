@@ -1,9 +1,12 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { AlertTriangle, TrendingUp, Volume2, VolumeX, X } from 'lucide-react';
+import { AlertTriangle, ChevronDown, ChevronUp, RotateCcw, TrendingUp, Volume2, VolumeX, X } from 'lucide-react';
 import { useAlertStore } from '@/lib/store';
-import type { SpikeAlertPayload } from '@/lib/realtime/socket-server';
+import { describeCondition } from '@/lib/alerts/conditions';
+import { ACTION_LABELS, describeAction } from '@/lib/alerts/actions';
+import type { AlertDeliverySummary, AlertHistoryEntry } from '@/lib/db/schema';
+import type { SpikeAlertPayload } from '@/lib/realtime/events';
 
 interface NotificationToastProps {
     id: string;
@@ -145,13 +148,62 @@ export function SpikeAlertBanner({ alert, onDismiss }: SpikeAlertBannerProps) {
 // Alert History Panel
 // ============================================
 
+const DELIVERY_STYLES: Record<AlertDeliverySummary['status'], { label: string; className: string }> = {
+    delivered: { label: 'sent', className: 'text-neon-green border-neon-green/40' },
+    pending: { label: 'retrying', className: 'text-neon-orange border-neon-orange/40' },
+    dead: { label: 'failed', className: 'text-neon-pink border-neon-pink/40' },
+};
+
+function DeliveryBadge({ delivery }: { delivery: AlertDeliverySummary }) {
+    const style = DELIVERY_STYLES[delivery.status];
+    return (
+        <span
+            className={`px-1.5 py-0.5 rounded border text-[10px] ${style.className}`}
+            title={describeAction(delivery.action)}
+        >
+            {ACTION_LABELS[delivery.action.type] ?? delivery.action.type} {style.label}
+        </span>
+    );
+}
+
+function DeliveryDetails({ delivery, onReplay }: { delivery: AlertDeliverySummary; onReplay?: (id: string) => void }) {
+    const attempts = `${delivery.attempts}/${delivery.maxAttempts} ${delivery.maxAttempts === 1 ? 'attempt' : 'attempts'}`;
+    return (
+        <div className="flex items-center gap-2 text-xs">
+            <DeliveryBadge delivery={delivery} />
+            <span className="flex-1 min-w-0 truncate text-muted-foreground" title={delivery.lastError}>
+                {attempts}
+                {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                    <> • next {new Date(delivery.nextAttemptAt).toLocaleTimeString()}</>
+                )}
+                {delivery.lastError && <> • {delivery.lastError}</>}
+            </span>
+            {delivery.status === 'dead' && onReplay && (
+                <button
+                    onClick={() => onReplay(delivery.id)}
+                    title="Send again"
+                    className="flex items-center gap-1 text-neon-cyan hover:underline flex-shrink-0"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                    Replay
+                </button>
+            )}
+        </div>
+    );
+}
+
 interface AlertHistoryProps {
-    alerts: SpikeAlertPayload[];
+    // From /api/alerts/history, newest first
+    triggers: AlertHistoryEntry[];
     maxItems?: number;
+    // Re-sends a dead-lettered delivery
+    onReplay?: (deliveryId: string) => void;
 }
 
-export function AlertHistory({ alerts, maxItems = 10 }: AlertHistoryProps) {
-    if (alerts.length === 0) {
+export function AlertHistory({ triggers, maxItems = 10, onReplay }: AlertHistoryProps) {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    if (triggers.length === 0) {
         return (
             <div className="text-center py-6 text-muted-foreground">
                 <AlertTriangle className="w-6 h-6 mx-auto mb-2 opacity-50" />
@@ -162,23 +214,88 @@ export function AlertHistory({ alerts, maxItems = 10 }: AlertHistoryProps) {
 
     return (
         <div className="space-y-2">
-            {alerts.slice(0, maxItems).map((alert, i) => (
-                <div
-                    key={i}
-                    className="flex items-center gap-3 p-3 bg-secondary/30 rounded-lg"
-                >
-                    <AlertTriangle className="w-4 h-4 text-neon-orange flex-shrink-0" />
-                    <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium truncate">{alert.topic}</p>
-                        <p className="text-xs text-muted-foreground">
-                            {alert.tweetCount} tweets • {alert.sentiment}
-                        </p>
+            {triggers.slice(0, maxItems).map((trigger) => {
+                const expanded = expandedId === trigger.id;
+                const { evidence } = trigger;
+
+                return (
+                    <div key={trigger.id} className="p-3 bg-secondary/30 rounded-lg">
+                        <button
+                            onClick={() => setExpandedId(expanded ? null : trigger.id)}
+                            className="w-full flex items-center gap-3 text-left"
+                        >
+                            <AlertTriangle className="w-4 h-4 text-neon-orange flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate">{trigger.alertName}</p>
+                                <p className="text-xs text-muted-foreground truncate">
+                                    {trigger.conditions.map(describeCondition).join(' • ') || trigger.details}
+                                </p>
+                                {trigger.deliveries.length > 0 && (
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                        {trigger.deliveries.map((delivery) => (
+                                            <DeliveryBadge key={delivery.id} delivery={delivery} />
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                            <div className="text-right flex-shrink-0">
+                                <p className="text-xs text-muted-foreground">
+                                    {new Date(trigger.triggeredAt).toLocaleTimeString()}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    {evidence.itemCount} {evidence.itemCount === 1 ? 'item' : 'items'}
+                                </p>
+                            </div>
+                            {expanded ? (
+                                <ChevronUp className="w-4 h-4 text-muted-foreground" />
+                            ) : (
+                                <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                            )}
+                        </button>
+
+                        {expanded && (
+                            <div className="mt-3 pl-7 space-y-2">
+                                <p className="text-xs text-muted-foreground">
+                                    {trigger.details}
+                                    <span className="mx-2">•</span>
+                                    {evidence.velocity.current}/min vs {evidence.velocity.average.toFixed(1)} avg
+                                    {trigger.dedupeKeys.some((k) => k !== 'alert') && (
+                                        <>
+                                            <span className="mx-2">•</span>
+                                            {trigger.dedupeKeys.join(', ')}
+                                        </>
+                                    )}
+                                </p>
+                                {trigger.deliveries.map((delivery) => (
+                                    <DeliveryDetails key={delivery.id} delivery={delivery} onReplay={onReplay} />
+                                ))}
+                                {evidence.items.map((item) => (
+                                    <div key={item.id} className="text-xs">
+                                        <span className="text-neon-cyan">@{item.author}</span>{' '}
+                                        {item.url ? (
+                                            <a
+                                                href={item.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="hover:underline"
+                                            >
+                                                {item.text}
+                                            </a>
+                                        ) : (
+                                            <span>{item.text}</span>
+                                        )}
+                                    </div>
+                                ))}
+                                {evidence.itemCount > evidence.items.length && (
+                                    <p className="text-xs text-muted-foreground">
+                                        +{evidence.itemCount - evidence.items.length} more
+                                    </p>
+                                )}
+                            </div>
+                        )}
                     </div>
-                    <span className="text-xs text-muted-foreground">
-                        {new Date(alert.startTime).toLocaleTimeString()}
-                    </span>
-                </div>
-            ))}
+                );
+            })}
         </div>
     );
 }
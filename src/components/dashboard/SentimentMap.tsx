@@ -188,6 +188,7 @@ export function generateDemoSentimentData(count: number = 50): Tweet[] {
         },
         createdAt: new Date(Date.now() - Math.random() * 3600000),
         source: 'mock' as const,
+        sourceKind: 'mock' as const,
         sentiment: {
             score: (Math.random() * 2 - 1),
             label: (Math.random() > 0.5 ? 'positive' : Math.random() > 0.5 ? 'negative' : 'neutral') as 'positive' | 'negative' | 'neutral',
@@ -1,8 +1,15 @@
 'use client';
 
 import { formatDistanceToNow } from 'date-fns';
-import { Heart, Repeat2, MessageCircle, Eye, BadgeCheck, AlertTriangle } from 'lucide-react';
-import type { Tweet } from '@/lib/db/schema';
+import { Heart, Repeat2, MessageCircle, Eye, BadgeCheck, AlertTriangle, ExternalLink, Image as ImageIcon, Video } from 'lucide-react';
+import type { Tweet, TweetSourceKind } from '@/lib/db/schema';
+
+const SOURCE_KIND_LABELS: Record<TweetSourceKind, string> = {
+    rss: 'RSS',
+    newsapi: 'NewsAPI',
+    x: 'X',
+    mock: 'Mock',
+};
 
 interface TweetCardProps {
     tweet: Tweet;
@@ -36,6 +43,12 @@ export function TweetCard({ tweet, showAnalysis = true, compact = false }: Tweet
 
     const categoryBadge = getCategoryBadge(tweet.category);
     const isSpam = (tweet.spamScore || 0) > 0.7;
+    const otherOutlets = (tweet.outlets ?? []).filter((o) => o.authorId !== tweet.author.id);
+    const entityTags = [
+        ...(tweet.cashtags ?? []).map((t) => `$${t}`),
+        ...(tweet.hashtags ?? []).map((t) => `#${t}`),
+        ...(tweet.mentions ?? []).map((t) => `@${t}`),
+    ].slice(0, 8);
 
     if (compact) {
         return (
@@ -51,7 +64,18 @@ export function TweetCard({ tweet, showAnalysis = true, compact = false }: Tweet
                             {formatDistanceToNow(new Date(tweet.createdAt), { addSuffix: true })}
                         </span>
                     </div>
-                    <p className="text-sm text-muted-foreground line-clamp-1">{tweet.text}</p>
+                    {tweet.url ? (
+                        <a
+                            href={tweet.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-sm text-muted-foreground line-clamp-1 hover:text-foreground"
+                        >
+                            {tweet.text}
+                        </a>
+                    ) : (
+                        <p className="text-sm text-muted-foreground line-clamp-1">{tweet.text}</p>
+                    )}
                 </div>
                 {tweet.sentiment && (
                     <div className={`text-xs font-medium ${getSentimentColor(tweet.sentiment.score)}`}>
@@ -84,9 +108,10 @@ export function TweetCard({ tweet, showAnalysis = true, compact = false }: Tweet
                         </div>
                     </div>
                 </div>
-                <span className="text-xs text-muted-foreground">
-                    {formatDistanceToNow(new Date(tweet.createdAt), { addSuffix: true })}
-                </span>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="px-1.5 py-0.5 rounded bg-secondary/50">{SOURCE_KIND_LABELS[tweet.sourceKind]}</span>
+                    <span>{formatDistanceToNow(new Date(tweet.createdAt), { addSuffix: true })}</span>
+                </div>
             </div>
 
             {/* Category Badge */}
@@ -99,7 +124,75 @@ export function TweetCard({ tweet, showAnalysis = true, compact = false }: Tweet
             )}
 
             {/* Tweet Text */}
-            <p className="text-sm leading-relaxed mb-4">{tweet.text}</p>
+            <p className="text-sm leading-relaxed mb-4">
+                {tweet.text}
+                {tweet.url && (
+                    <a
+                        href={tweet.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 ml-2 text-xs text-neon-cyan hover:underline"
+                    >
+                        {tweet.sourceKind === 'x' ? 'View post' : 'Read article'}
+                        <ExternalLink className="w-3 h-3" />
+                    </a>
+                )}
+                {tweet.links?.map((link) => (
+                    <a
+                        key={link}
+                        href={link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 ml-2 text-xs text-neon-cyan hover:underline"
+                    >
+                        {new URL(link).hostname.replace(/^www\./, '')}
+                        <ExternalLink className="w-3 h-3" />
+                    </a>
+                ))}
+            </p>
+
+            {/* Media & Entities */}
+            {(tweet.media?.length || entityTags.length > 0) && (
+                <div className="flex flex-wrap items-center gap-1.5 mb-4">
+                    {tweet.media?.map((m, i) => (
+                        <a
+                            key={m.url}
+                            href={m.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title={m.altText}
+                            className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-secondary/50 rounded text-xs hover:text-foreground"
+                        >
+                            {m.type === 'image' ? <ImageIcon className="w-3 h-3" /> : <Video className="w-3 h-3" />}
+                            {m.type === 'image' ? 'Image' : 'Video'} {tweet.media!.length > 1 ? i + 1 : ''}
+                        </a>
+                    ))}
+                    {entityTags.map((tag) => (
+                        <span key={tag} className="px-1.5 py-0.5 bg-secondary/50 rounded text-xs text-neon-cyan">
+                            {tag}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {/* Syndication */}
+            {otherOutlets.length > 0 && (
+                <p className="text-xs text-muted-foreground mb-4">
+                    Also reported by{' '}
+                    {otherOutlets.map((o, i) => (
+                        <span key={o.authorId}>
+                            {i > 0 && ', '}
+                            {o.url ? (
+                                <a href={o.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                    {o.displayName}
+                                </a>
+                            ) : (
+                                o.displayName
+                            )}
+                        </span>
+                    ))}
+                </p>
+            )}
 
             {/* Metrics */}
             <div className="flex items-center gap-6 text-sm text-muted-foreground mb-4">
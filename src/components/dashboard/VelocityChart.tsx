@@ -14,33 +14,71 @@ import {
 import { format } from 'date-fns';
 import type { VelocitySnapshot } from '@/lib/db/schema';
 
+// One overlaid line per series (e.g. per cashtag from /api/velocity?by=cashtag)
+export interface VelocityChartSeries {
+    key: string;
+    label: string;
+    snapshots: VelocitySnapshot[];
+    spike?: { isSpike: boolean; percentageIncrease: number };
+}
+
 interface VelocityChartProps {
     snapshots: VelocitySnapshot[];
     averageVelocity?: number;
     peakVelocity?: number;
     showSpikeLine?: boolean;
     spikeThreshold?: number;
+    // When set, these are drawn instead of the single `snapshots` area
+    series?: VelocityChartSeries[];
 }
 
+const SERIES_COLORS = [
+    'oklch(0.8 0.18 200)',
+    'oklch(0.7 0.25 350)',
+    'oklch(0.8 0.22 145)',
+    'oklch(0.75 0.2 60)',
+    'oklch(0.65 0.25 295)',
+    'oklch(0.85 0.17 95)',
+];
+
 export function VelocityChart({
     snapshots,
     averageVelocity = 0,
     peakVelocity = 0,
     showSpikeLine = true,
     spikeThreshold = 3,
+    series,
 }: VelocityChartProps) {
+    const overlay = !!series?.length;
+
     const chartData = useMemo(() => {
-        return snapshots.map((snapshot) => ({
+        return snapshots.map((snapshot, i) => ({
             time: format(new Date(snapshot.timestamp), 'HH:mm'),
             timestamp: new Date(snapshot.timestamp).getTime(),
             count: snapshot.count,
             sentiment: snapshot.sentimentAvg,
+            // Series share the main series' buckets; indexed keys because recharts reads dots in
+            // a dataKey as a path
+            ...Object.fromEntries((series ?? []).map((s, j) => [`s${j}`, s.snapshots[i]?.count ?? 0])),
         }));
-    }, [snapshots]);
+    }, [snapshots, series]);
 
     const spikeLineValue = averageVelocity * spikeThreshold;
 
-    const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number; name: string }>; label?: string }) => {
+    const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number; name: string; color?: string }>; label?: string }) => {
+        if (active && payload && payload.length && overlay) {
+            return (
+                <div className="glass-panel p-3 border border-border">
+                    <p className="text-sm font-medium">{label}</p>
+                    {payload.map((entry) => (
+                        <p key={entry.name} className="text-sm" style={{ color: entry.color }}>
+                            <span className="text-muted-foreground">{entry.name}: </span>
+                            {entry.value}
+                        </p>
+                    ))}
+                </div>
+            );
+        }
         if (active && payload && payload.length) {
             return (
                 <div className="glass-panel p-3 border border-border">
@@ -64,25 +102,47 @@ export function VelocityChart({
     return (
         <div className="w-full h-full">
             {/* Stats Header */}
-            <div className="flex items-center gap-6 mb-4">
-                <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-neon-cyan" />
-                    <span className="text-xs text-muted-foreground">Current</span>
-                    <span className="text-sm font-semibold">
-                        {snapshots[snapshots.length - 1]?.count || 0}
-                    </span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-neon-green" />
-                    <span className="text-xs text-muted-foreground">Avg</span>
-                    <span className="text-sm font-semibold">{averageVelocity.toFixed(0)}</span>
+            {overlay ? (
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-4">
+                    {series!.map((s, i) => (
+                        <div key={s.key} className="flex items-center gap-2">
+                            <div
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: SERIES_COLORS[i % SERIES_COLORS.length] }}
+                            />
+                            <span className="text-xs text-muted-foreground">{s.label}</span>
+                            <span className="text-sm font-semibold">
+                                {s.snapshots[s.snapshots.length - 1]?.count || 0}
+                            </span>
+                            {s.spike?.isSpike && (
+                                <span className="text-xs font-semibold text-neon-pink">
+                                    +{s.spike.percentageIncrease.toFixed(0)}%
+                                </span>
+                            )}
+                        </div>
+                    ))}
                 </div>
-                <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 rounded-full bg-neon-pink" />
-                    <span className="text-xs text-muted-foreground">Peak</span>
-                    <span className="text-sm font-semibold">{peakVelocity}</span>
+            ) : (
+                <div className="flex items-center gap-6 mb-4">
+                    <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full bg-neon-cyan" />
+                        <span className="text-xs text-muted-foreground">Current</span>
+                        <span className="text-sm font-semibold">
+                            {snapshots[snapshots.length - 1]?.count || 0}
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full bg-neon-green" />
+                        <span className="text-xs text-muted-foreground">Avg</span>
+                        <span className="text-sm font-semibold">{averageVelocity.toFixed(0)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full bg-neon-pink" />
+                        <span className="text-xs text-muted-foreground">Peak</span>
+                        <span className="text-sm font-semibold">{peakVelocity}</span>
+                    </div>
                 </div>
-            </div>
+            )}
 
             {/* Chart */}
             <ResponsiveContainer width="100%" height={280}>
@@ -114,7 +174,7 @@ export function VelocityChart({
                     <Tooltip content={<CustomTooltip />} />
 
                     {/* Spike threshold line */}
-                    {showSpikeLine && spikeLineValue > 0 && (
+                    {!overlay && showSpikeLine && spikeLineValue > 0 && (
                         <ReferenceLine
                             y={spikeLineValue}
                             stroke="oklch(0.65 0.25 25)"
@@ -130,7 +190,7 @@ export function VelocityChart({
                     )}
 
                     {/* Average line */}
-                    {averageVelocity > 0 && (
+                    {!overlay && averageVelocity > 0 && (
                         <ReferenceLine
                             y={averageVelocity}
                             stroke="oklch(0.8 0.22 145)"
@@ -139,20 +199,37 @@ export function VelocityChart({
                         />
                     )}
 
-                    <Area
-                        type="monotone"
-                        dataKey="count"
-                        stroke="oklch(0.8 0.18 200)"
-                        strokeWidth={2}
-                        fill="url(#velocityGradient)"
-                        dot={false}
-                        activeDot={{
-                            r: 4,
-                            fill: 'oklch(0.8 0.18 200)',
-                            stroke: 'oklch(0.12 0.01 270)',
-                            strokeWidth: 2,
-                        }}
-                    />
+                    {overlay && series!.map((s, i) => (
+                        <Area
+                            key={s.key}
+                            type="monotone"
+                            dataKey={`s${i}`}
+                            name={s.label}
+                            stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                            strokeWidth={s.spike?.isSpike ? 3 : 2}
+                            fill={SERIES_COLORS[i % SERIES_COLORS.length]}
+                            fillOpacity={0.08}
+                            dot={false}
+                            isAnimationActive={false}
+                        />
+                    ))}
+
+                    {!overlay && (
+                        <Area
+                            type="monotone"
+                            dataKey="count"
+                            stroke="oklch(0.8 0.18 200)"
+                            strokeWidth={2}
+                            fill="url(#velocityGradient)"
+                            dot={false}
+                            activeDot={{
+                                r: 4,
+                                fill: 'oklch(0.8 0.18 200)',
+                                stroke: 'oklch(0.12 0.01 270)',
+                                strokeWidth: 2,
+                            }}
+                        />
+                    )}
                 </AreaChart>
             </ResponsiveContainer>
         </div>
@@ -1,4 +1,4 @@
-export { VelocityChart, generateDemoVelocityData } from './VelocityChart';
+export { VelocityChart, generateDemoVelocityData, type VelocityChartSeries } from './VelocityChart';
 export { SentimentMap, generateDemoSentimentData } from './SentimentMap';
 export { SignalFilter } from './SignalFilter';
 export { NewsTicker, StaticNewsTicker, LiveNewsTicker } from './NewsTicker';
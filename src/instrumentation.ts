@@ -0,0 +1,36 @@
+// Next.js instrumentation hook – runs once when the server process boots
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { ensureIngestionStarted } = await import('./lib/ingest');
+    ensureIngestionStarted().catch((error) => {
+        console.error('[Ingest] Initial sweep failed:', error);
+    });
+    console.log('📡 Background ingestion started');
+
+    const socketPort = parseInt(process.env.SOCKET_PORT || '', 10);
+    if (socketPort) {
+        const { startSocketServer } = await import('./lib/realtime/socket-server');
+        startSocketServer(socketPort);
+    }
+
+    // Evaluates stored alerts against live ingestion, whether or not a dashboard is open
+    if (process.env.ALERTS_ENABLED !== 'false') {
+        const { getAlertMonitor, getNotificationOutbox } = await import('./lib/alerts');
+        getAlertMonitor().start();
+        // Retries failed notifications, including ones left pending by the last run
+        getNotificationOutbox().start();
+        console.log('🔔 Alert monitor started');
+    }
+
+    if (process.env.RETENTION_ENABLED !== 'false') {
+        const { getRetentionJob } = await import('./lib/retention');
+        try {
+            getRetentionJob().start();
+        } catch (error) {
+            // Usually a malformed retention policy file – ingestion keeps running without it
+            console.error('[Retention] Not started:', error);
+        }
+    }
+}
@@ -0,0 +1,88 @@
+// Alert Actions
+// Labels, defaults and display helpers for each action type. Pure – the CreateAlertModal and the
+// alert history read them from here.
+
+import type { AlertAction, EmailDigest } from '../db/schema';
+
+export const ACTION_LABELS: Record<AlertAction['type'], string> = {
+    discord_webhook: 'Discord',
+    slack_webhook: 'Slack',
+    telegram: 'Telegram',
+    webhook: 'Webhook',
+    in_app_notification: 'In-app',
+    email: 'Email',
+};
+
+// Actions configured per alert in the dialog – in-app notifications are always on
+export const CONFIGURABLE_ACTION_TYPES: AlertAction['type'][] = ['discord_webhook', 'slack_webhook', 'telegram', 'webhook', 'email'];
+
+export const EMAIL_DIGESTS: EmailDigest[] = ['hourly', 'daily'];
+
+export const WEBHOOK_SECRET_MIN_LENGTH = 16;
+
+// A random signing secret for new generic webhooks
+export function generateWebhookSecret(): string {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Credentials the API shows only the tail of – PATCHing the masked value back keeps the stored one
+const REDACTED_PREFIX = '••••';
+
+export function redactCredential(value: string): string {
+    return value ? `${REDACTED_PREFIX}${value.slice(-4)}` : value;
+}
+
+export function isRedacted(value: unknown): boolean {
+    return typeof value === 'string' && value.startsWith(REDACTED_PREFIX);
+}
+
+// The action with its Telegram bot token and webhook signing secret masked
+export function redactAction(action: AlertAction): AlertAction {
+    return {
+        ...action,
+        ...(action.botToken ? { botToken: redactCredential(action.botToken) } : {}),
+        ...(action.secret ? { secret: redactCredential(action.secret) } : {}),
+    };
+}
+
+export function newAction(type: AlertAction['type']): AlertAction {
+    switch (type) {
+        case 'discord_webhook':
+        case 'slack_webhook':
+            return { type, webhookUrl: '' };
+        case 'telegram':
+            return { type, botToken: '', chatId: '' };
+        case 'webhook':
+            return { type, webhookUrl: '', secret: generateWebhookSecret() };
+        case 'email':
+            return { type, email: '' };
+        default:
+            return { type };
+    }
+}
+
+// Where the action sends to, without credentials – e.g. "Slack hooks.slack.com"
+export function describeAction(action: AlertAction): string {
+    const label = ACTION_LABELS[action.type] ?? action.type;
+    switch (action.type) {
+        case 'discord_webhook':
+        case 'slack_webhook':
+        case 'webhook': {
+            try {
+                return `${label} ${new URL(action.webhookUrl ?? '').host}`;
+            } catch {
+                return label;
+            }
+        }
+        case 'telegram':
+            return action.chatId ? `${label} ${action.chatId}` : label;
+        case 'email': {
+            const text = action.email ? `${label} ${action.email}` : label;
+            return action.digest ? `${text} (${action.digest} digest)` : text;
+        }
+        default:
+            return label;
+    }
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WEBHOOK_TOLERANCE_SECONDS, signWebhook, verifyWebhookSignature } from './channels';
+
+const SECRET = '0123456789abcdef0123';
+const BODY = JSON.stringify({ event: 'alert.triggered', deliveryId: 'delivery_1' });
+const NOW = new Date('2026-01-01T12:00:00Z');
+const TIMESTAMP = Math.floor(NOW.getTime() / 1000);
+
+test('signWebhook is HMAC-SHA256 over "<timestamp>.<body>"', () => {
+    assert.match(signWebhook(SECRET, TIMESTAMP, BODY), /^[0-9a-f]{64}$/);
+    assert.notEqual(signWebhook(SECRET, TIMESTAMP + 1, BODY), signWebhook(SECRET, TIMESTAMP, BODY));
+});
+
+test('verifyWebhookSignature accepts what signWebhook produced', () => {
+    const signature = `sha256=${signWebhook(SECRET, TIMESTAMP, BODY)}`;
+    assert.equal(verifyWebhookSignature(SECRET, BODY, String(TIMESTAMP), signature, NOW), true);
+});
+
+test('verifyWebhookSignature rejects tampering, other secrets and stale or missing timestamps', () => {
+    const signature = `sha256=${signWebhook(SECRET, TIMESTAMP, BODY)}`;
+    const stale = new Date(NOW.getTime() + (WEBHOOK_TOLERANCE_SECONDS + 1) * 1000);
+
+    assert.equal(verifyWebhookSignature(SECRET, `${BODY} `, String(TIMESTAMP), signature, NOW), false);
+    assert.equal(verifyWebhookSignature('another-secret-entirely', BODY, String(TIMESTAMP), signature, NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, BODY, String(TIMESTAMP + 1), signature, NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, BODY, String(TIMESTAMP), signature, stale), false);
+    assert.equal(verifyWebhookSignature(SECRET, BODY, null, signature, NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, BODY, String(TIMESTAMP), null, NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, BODY, String(TIMESTAMP), signature.slice(0, -1), NOW), false);
+});
@@ -0,0 +1,340 @@
+// Alert Channels
+// Renders an AlertNotification for each action type and sends it, reporting enough about a
+// failure for the outbox to decide whether and when to retry
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { AlertAction, AlertDelivery, AlertNotification } from '../db/schema';
+import { alertEmail, digestEmail, sendEmail } from './email';
+
+export interface DeliveryResult {
+    ok: boolean;
+    // HTTP status for webhook channels, the SMTP reply code for email
+    status?: number;
+    error?: string;
+    // Delay the receiver asked for before the next attempt (retry_after, Retry-After)
+    retryAfterMs?: number;
+    // Retrying can't help (e.g. the webhook was deleted) – the delivery is dead-lettered at once
+    permanent?: boolean;
+}
+
+// What a channel needs to send one delivery
+export type NotificationDelivery = Pick<AlertDelivery, 'id' | 'alertId' | 'alertName' | 'triggerId' | 'action' | 'payload'>;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const SAMPLE_ITEMS = 3;
+
+// ============================================
+// HTTP
+// ============================================
+
+// Seconds (Discord sends fractions) or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) return Math.max(0, value * 1000);
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 429s carry the wait in the body (Discord, Telegram) or the Retry-After header. Other 4xx
+// responses won't succeed on a retry, except a request timeout.
+async function responseResult(response: Response): Promise<DeliveryResult> {
+    if (response.ok) return { ok: true, status: response.status };
+
+    const text = await response.text().catch(() => '');
+    let body: Record<string, unknown> = {};
+    try {
+        body = JSON.parse(text);
+    } catch {
+        // Not JSON – the text is still useful as the error
+    }
+
+    const error = `HTTP ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`;
+    if (response.status === 429) {
+        return {
+            ok: false,
+            status: 429,
+            error,
+            retryAfterMs:
+                parseRetryAfter(body.retry_after) ??
+                parseRetryAfter((body.parameters as { retry_after?: unknown } | undefined)?.retry_after) ??
+                parseRetryAfter(response.headers.get('retry-after')),
+        };
+    }
+    return {
+        ok: false,
+        status: response.status,
+        error,
+        permanent: response.status >= 400 && response.status < 500 && response.status !== 408,
+    };
+}
+
+// `body` goes out as-is when it's already a string, so a signature over it stays valid
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<DeliveryResult> {
+    try {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: typeof body === 'string' ? body : JSON.stringify(body),
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        return await responseResult(response);
+    } catch (error: unknown) {
+        return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+// ============================================
+// Discord Webhook
+// ============================================
+
+export interface DiscordMessage {
+    content?: string;
+    embeds?: Array<{
+        title: string;
+        description?: string;
+        color?: number;
+        fields?: Array<{ name: string; value: string; inline?: boolean }>;
+        footer?: { text: string };
+        timestamp?: string;
+    }>;
+}
+
+export function sendDiscordWebhook(webhookUrl: string, message: DiscordMessage): Promise<DeliveryResult> {
+    return postJson(webhookUrl, message);
+}
+
+export function discordMessage(alertName: string, notification: AlertNotification): DiscordMessage {
+    const color = notification.type === 'velocity_spike' ? 0xff4444 : 0x3498db;
+
+    return {
+        embeds: [{
+            title: `🚨 Alert: ${alertName}`,
+            description: notification.details,
+            color,
+            fields: [
+                ...(notification.velocity !== undefined ? [{
+                    name: 'Velocity',
+                    value: `${notification.velocity} tweets/min`,
+                    inline: true,
+                }] : []),
+                ...(notification.sentiment !== undefined ? [{
+                    name: 'Avg Sentiment',
+                    value: notification.sentiment.toFixed(2),
+                    inline: true,
+                }] : []),
+                ...(notification.items.length ? [{
+                    name: 'Sample Tweets',
+                    value: notification.items
+                        .slice(0, SAMPLE_ITEMS)
+                        .map((t) => `• @${t.author}: ${t.text.slice(0, 100)}...`)
+                        .join('\n'),
+                    inline: false,
+                }] : []),
+            ],
+            footer: { text: 'X News Crawler Alert System' },
+            timestamp: new Date(notification.timestamp).toISOString(),
+        }],
+    };
+}
+
+// ============================================
+// Slack Incoming Webhook
+// ============================================
+
+export interface SlackMessage {
+    // Fallback for notifications and clients without Block Kit
+    text: string;
+    blocks: Record<string, unknown>[];
+}
+
+// Slack's mrkdwn treats these as control characters
+function slackEscape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function slackMessage(alertName: string, notification: AlertNotification): SlackMessage {
+    const fields = [
+        ...(notification.velocity !== undefined ? [`*Velocity*\n${notification.velocity} tweets/min`] : []),
+        ...(notification.sentiment !== undefined ? [`*Avg Sentiment*\n${notification.sentiment.toFixed(2)}`] : []),
+    ];
+    const items = notification.items.slice(0, SAMPLE_ITEMS).map((t) => {
+        const author = t.url ? `<${t.url}|@${slackEscape(t.author)}>` : `@${slackEscape(t.author)}`;
+        return `• ${author}: ${slackEscape(t.text.slice(0, 150))}`;
+    });
+    const timestamp = new Date(notification.timestamp);
+
+    return {
+        text: slackEscape(`🚨 Alert: ${alertName} – ${notification.details}`),
+        blocks: [
+            // Header text is plain and capped at 150 characters
+            { type: 'header', text: { type: 'plain_text', text: `🚨 Alert: ${alertName}`.slice(0, 150), emoji: true } },
+            { type: 'section', text: { type: 'mrkdwn', text: slackEscape(notification.details) } },
+            ...(fields.length ? [{ type: 'section', fields: fields.map((text) => ({ type: 'mrkdwn', text })) }] : []),
+            ...(items.length ? [{ type: 'section', text: { type: 'mrkdwn', text: items.join('\n') } }] : []),
+            {
+                type: 'context',
+                elements: [{
+                    type: 'mrkdwn',
+                    text: `X News Crawler Alert System • <!date^${Math.floor(timestamp.getTime() / 1000)}^{date_short_pretty} {time}|${timestamp.toISOString()}>`,
+                }],
+            },
+        ],
+    };
+}
+
+export function sendSlackWebhook(webhookUrl: string, message: SlackMessage): Promise<DeliveryResult> {
+    return postJson(webhookUrl, message);
+}
+
+// ============================================
+// Telegram Bot API
+// ============================================
+
+// Overridable so deliveries can be pointed at a local stand-in (npm run mock:alerts)
+function telegramApiUrl(): string {
+    return (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/+$/, '');
+}
+
+// Telegram rejects messages over 4096 characters
+const TELEGRAM_MAX_LENGTH = 4096;
+
+function htmlEscape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// HTML parse mode – only &, < and > need escaping
+export function telegramText(alertName: string, notification: AlertNotification): string {
+    const stats = [
+        ...(notification.velocity !== undefined ? [`Velocity: ${notification.velocity} tweets/min`] : []),
+        ...(notification.sentiment !== undefined ? [`Avg sentiment: ${notification.sentiment.toFixed(2)}`] : []),
+    ];
+    const items = notification.items.slice(0, SAMPLE_ITEMS).map((t) => {
+        const author = t.url ? `<a href="${htmlEscape(t.url)}">@${htmlEscape(t.author)}</a>` : `@${htmlEscape(t.author)}`;
+        return `• ${author}: ${htmlEscape(t.text.slice(0, 200))}`;
+    });
+
+    const text = [
+        `🚨 <b>Alert: ${htmlEscape(alertName)}</b>`,
+        htmlEscape(notification.details),
+        ...(stats.length ? [stats.join(' · ')] : []),
+        ...(items.length ? ['', ...items] : []),
+    ].join('\n');
+    // Items go last, so trimming only ever cuts into them
+    return text.length > TELEGRAM_MAX_LENGTH ? text.slice(0, text.lastIndexOf('\n', TELEGRAM_MAX_LENGTH)) : text;
+}
+
+export function sendTelegramMessage(botToken: string, chatId: string, text: string): Promise<DeliveryResult> {
+    return postJson(`${telegramApiUrl()}/bot${botToken}/sendMessage`, {
+        chat_id: chatId,
+        text,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+    });
+}
+
+// ============================================
+// Signed Webhook
+// ============================================
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Alert-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Alert-Timestamp';
+// Receivers should reject requests signed longer ago than this
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export interface WebhookPayload extends AlertNotification {
+    event: 'alert.triggered';
+    // Stable across retries – receivers can use it to drop duplicates
+    deliveryId: string;
+    alertId: string;
+    alertName: string;
+    triggerId?: string;
+}
+
+// Hex HMAC-SHA256 over "<timestamp>.<body>", so a captured body can't be replayed with a new timestamp
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// For receivers: checks the signature header ("sha256=<hex>") and that the timestamp is recent
+export function verifyWebhookSignature(
+    secret: string,
+    body: string,
+    timestamp: string | null,
+    signature: string | null,
+    now: Date = new Date()
+): boolean {
+    const seconds = Number(timestamp);
+    if (!timestamp || !signature || !Number.isInteger(seconds)) return false;
+    if (Math.abs(now.getTime() / 1000 - seconds) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+    const expected = Buffer.from(`sha256=${signWebhook(secret, seconds, body)}`);
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Signed on every attempt, so a retry carries a fresh timestamp
+export function sendSignedWebhook(webhookUrl: string, secret: string, payload: WebhookPayload): Promise<DeliveryResult> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    return postJson(webhookUrl, body, {
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhook(secret, timestamp, body)}`,
+    });
+}
+
+// ============================================
+// Dispatch
+// ============================================
+
+const MISSING = (field: string): DeliveryResult => ({ ok: false, error: `No ${field} configured`, permanent: true });
+
+// One attempt at one action – the outbox calls this for every try
+export async function deliverNotification(delivery: NotificationDelivery): Promise<DeliveryResult> {
+    const { action, alertName, payload } = delivery;
+    switch (action.type) {
+        case 'discord_webhook':
+            if (!action.webhookUrl) return MISSING('webhook URL');
+            return sendDiscordWebhook(action.webhookUrl, discordMessage(alertName, payload));
+
+        case 'slack_webhook':
+            if (!action.webhookUrl) return MISSING('webhook URL');
+            return sendSlackWebhook(action.webhookUrl, slackMessage(alertName, payload));
+
+        case 'telegram':
+            if (!action.botToken || !action.chatId) return MISSING('bot token or chat id');
+            return sendTelegramMessage(action.botToken, action.chatId, telegramText(alertName, payload));
+
+        case 'webhook':
+            if (!action.webhookUrl || !action.secret) return MISSING('webhook URL or secret');
+            return sendSignedWebhook(action.webhookUrl, action.secret, {
+                event: 'alert.triggered',
+                deliveryId: delivery.id,
+                alertId: delivery.alertId,
+                alertName,
+                triggerId: delivery.triggerId,
+                ...payload,
+            });
+
+        case 'in_app_notification':
+            // Dashboards get triggers over the socket and the history poll
+            console.log('In-app notification:', alertName, payload.details);
+            return { ok: true };
+
+        case 'email':
+            if (!action.email) return MISSING('email address');
+            return sendEmail(action.email, alertEmail(alertName, payload));
+
+        default:
+            return { ok: false, error: `Unknown action type "${(action as AlertAction).type}"`, permanent: true };
+    }
+}
+
+// One email for a batch of digest-mode deliveries of the same alert to the same address
+export async function deliverDigest(deliveries: NotificationDelivery[]): Promise<DeliveryResult> {
+    const [{ action, alertName }] = deliveries;
+    if (!action.email || !action.digest) return MISSING('digest address');
+    return sendEmail(action.email, digestEmail(alertName, deliveries.map((d) => d.payload), action.digest));
+}
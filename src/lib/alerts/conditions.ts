@@ -0,0 +1,137 @@
+// Alert Condition Trees
+// Helpers for the ALL / ANY / NOT tree in Alert.conditions. Pure – shared by the engine, the
+// row converters and the CreateAlertModal builder.
+
+import type { AlertCondition, AlertConditionGroup, AlertConditionNode, Tweet } from '../db/schema';
+
+// Item conditions without a windowMinutes look at the last quarter hour; velocity spikes default
+// to the last (one-minute) bucket
+export const DEFAULT_CONDITION_WINDOW_MINUTES = 15;
+
+export const CONDITION_GROUP_OPS: AlertConditionGroup['op'][] = ['all', 'any', 'not'];
+
+export function isConditionGroup(node: AlertConditionNode): node is AlertConditionGroup {
+    return 'op' in node;
+}
+
+export function conditionGroup(op: AlertConditionGroup['op'], conditions: AlertConditionNode[] = []): AlertConditionGroup {
+    return { op, conditions };
+}
+
+// Alerts stored before condition trees hold a flat list, which always meant ALL
+export function normalizeConditions(value: unknown): AlertConditionGroup {
+    if (Array.isArray(value)) return conditionGroup('all', value as AlertCondition[]);
+    if (value && typeof value === 'object' && 'op' in value) return value as AlertConditionGroup;
+    return conditionGroup('all');
+}
+
+// Every leaf condition, depth first
+export function conditionLeaves(node: AlertConditionNode): AlertCondition[] {
+    return isConditionGroup(node) ? node.conditions.flatMap(conditionLeaves) : [node];
+}
+
+export interface ConditionMatch {
+    matched: boolean;
+    // Items that satisfied the leaves – the evidence cited in notifications
+    tweets: Tweet[];
+    // Leaf conditions that matched
+    conditions: AlertCondition[];
+    // Items that satisfied a negated condition; never cited even if another branch matched them
+    excluded?: Tweet[];
+}
+
+function uniqueTweets(tweets: Tweet[]): Tweet[] {
+    const byId = new Map<string, Tweet>();
+    for (const tweet of tweets) {
+        if (!byId.has(tweet.id)) byId.set(tweet.id, tweet);
+    }
+    return [...byId.values()];
+}
+
+function combine(matched: boolean, parts: ConditionMatch[]): ConditionMatch {
+    return {
+        matched,
+        tweets: uniqueTweets(parts.flatMap((p) => p.tweets)),
+        conditions: matched ? parts.flatMap((p) => p.conditions) : [],
+        excluded: uniqueTweets(parts.flatMap((p) => p.excluded ?? [])),
+    };
+}
+
+function evaluateNode(
+    node: AlertConditionNode,
+    evaluateLeaf: (condition: AlertCondition) => ConditionMatch
+): ConditionMatch {
+    if (!isConditionGroup(node)) return evaluateLeaf(node);
+
+    const children = node.conditions.map((child) => evaluateNode(child, evaluateLeaf));
+    const matched = children.filter((c) => c.matched);
+    switch (node.op) {
+        case 'all':
+            return combine(matched.length === children.length, children);
+        case 'any':
+            // Evidence comes from the branches that matched (all of them when inside a NOT)
+            return combine(matched.length > 0, matched.length ? matched : children);
+        case 'not':
+            return {
+                matched: matched.length === 0,
+                tweets: [],
+                conditions: [],
+                excluded: uniqueTweets(children.flatMap((c) => c.tweets)),
+            };
+    }
+}
+
+// NOT matches when none of its children do; an empty ALL matches, an empty ANY doesn't.
+// Leaves report the items that satisfied them even when they don't match overall (e.g. fewer
+// items than a category threshold), so a NOT can keep those out of the evidence.
+export function evaluateConditionTree(
+    node: AlertConditionNode,
+    evaluateLeaf: (condition: AlertCondition) => ConditionMatch
+): ConditionMatch {
+    const result = evaluateNode(node, evaluateLeaf);
+    const excluded = new Set((result.excluded ?? []).map((t) => t.id));
+    return {
+        matched: result.matched,
+        tweets: result.matched ? result.tweets.filter((t) => !excluded.has(t.id)) : [],
+        conditions: result.conditions,
+    };
+}
+
+export function describeCondition(condition: AlertCondition): string {
+    const text = describeLeaf(condition);
+    return condition.windowMinutes ? `${text} within ${condition.windowMinutes}m` : text;
+}
+
+function describeLeaf(condition: AlertCondition): string {
+    switch (condition.type) {
+        case 'velocity_spike': {
+            const target = condition.series
+                ? ` ${condition.series.by}${condition.series.key ? ` ${condition.series.key}` : ''}`
+                : '';
+            return `velocity spike${target}`;
+        }
+        case 'sentiment_shift':
+            return `sentiment shift ≥ ${condition.threshold ?? 0.5}`;
+        case 'keyword_match':
+            return `keyword ${condition.keywords?.join(' / ') || '(none)'}`;
+        case 'category_match':
+            return `category ${condition.categories?.join(' / ') || '(none)'}`;
+        default:
+            return String((condition as AlertCondition).type);
+    }
+}
+
+// e.g. "(keyword airdrop OR keyword retroactive) AND NOT category spam AND velocity spike"
+export function describeConditions(node: AlertConditionNode, nested: boolean = false): string {
+    if (!isConditionGroup(node)) return describeCondition(node);
+    if (!node.conditions.length) return node.op === 'any' ? 'never' : 'always';
+
+    const parts = node.conditions.map((child) => describeConditions(child, true));
+    if (node.op === 'not') {
+        const inner = parts.length > 1 ? `(${parts.join(' OR ')})` : parts[0];
+        return `NOT ${inner}`;
+    }
+
+    const text = parts.join(node.op === 'all' ? ' AND ' : ' OR ');
+    return nested && parts.length > 1 ? `(${text})` : text;
+}
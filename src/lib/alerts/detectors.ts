@@ -0,0 +1,348 @@
+// Anomaly Detectors
+// Pluggable spike detection over velocity snapshots. Each detector estimates the count expected
+// for the recent window and reports how far the actual count departs from it.
+
+import type { VelocitySnapshot } from '../db/schema';
+
+export interface SpikeDetectionResult {
+    isSpike: boolean;
+    severity: 'low' | 'medium' | 'high' | 'critical';
+    percentageIncrease: number;
+    currentCount: number;
+    averageCount: number;
+}
+
+export interface AnomalyResult extends SpikeDetectionResult {
+    detector: string;
+    // Count expected for the recent window vs. what was observed
+    expected: number;
+    actual: number;
+    // Detector-specific: percentage increase for `mean`, standard deviations for the others
+    score: number;
+    // 0–1, how unlikely the actual count is under the detector's baseline
+    confidence: number;
+}
+
+export interface DetectorOptions {
+    // Minimum `score` for a spike – defaults to the detector's defaultThreshold
+    threshold?: number;
+    // Number of trailing snapshots that make up the recent window (summed)
+    recentBuckets?: number;
+    // Fewer items than this in the recent window never count as a spike (the statistical
+    // detectors only – `mean` keeps its own rules)
+    minCount?: number;
+    // `seasonal` only: the same window one season back (or several), one array per season
+    baseline?: VelocitySnapshot[][];
+}
+
+export interface AnomalyDetector {
+    name: string;
+    description: string;
+    defaultThreshold: number;
+    // Largest threshold an alert condition may set – a score is rarely above a handful of
+    // standard deviations, so a percent-sized threshold on a statistical detector could never fire
+    maxThreshold?: number;
+    detect(snapshots: VelocitySnapshot[], options?: DetectorOptions): AnomalyResult;
+}
+
+export const DEFAULT_DETECTOR = 'mean';
+export const DEFAULT_MIN_SPIKE_COUNT = 5;
+// maxThreshold of the statistical detectors, in standard deviations
+export const MAX_SIGMA_THRESHOLD = 20;
+
+// Seasonal baselines: same time yesterday or a week ago
+export const SEASON_MS = {
+    day: 24 * 60 * 60_000,
+    week: 7 * 24 * 60 * 60_000,
+} as const;
+
+export type Season = keyof typeof SEASON_MS;
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+const mean = (values: number[]) => (values.length ? sum(values) / values.length : 0);
+
+function median(values: number[]): number {
+    if (!values.length) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function stdDev(values: number[]): number {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+// Abramowitz–Stegun 7.1.26, accurate to ~1e-7 – plenty for a confidence figure
+function normalCdf(z: number): number {
+    const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-(z * z) / 2);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function splitRecent(snapshots: VelocitySnapshot[], recentBuckets: number = 1) {
+    const recent = Math.max(1, Math.min(Math.floor(recentBuckets), snapshots.length - 1));
+    return {
+        recent,
+        actual: sum(snapshots.slice(-recent).map((s) => s.count)),
+        history: snapshots.slice(0, -recent).map((s) => s.count),
+    };
+}
+
+function percentOver(actual: number, expected: number): number {
+    if (expected > 0) return ((actual - expected) / expected) * 100;
+    return actual > 0 ? 100 : 0;
+}
+
+// Counts are roughly Poisson, so the spread is never taken as less than √expected – a quiet series
+// going from 0 to 2 items shouldn't read as a ten-sigma event
+function zScore(actual: number, expected: number, spread: number): number {
+    return (actual - expected) / Math.max(spread, Math.sqrt(Math.max(expected, 1)));
+}
+
+// Severity bands scale with the threshold the way 300/400/500% did for the original detector
+function severityFor(score: number, threshold: number): SpikeDetectionResult['severity'] {
+    if (score >= (threshold * 5) / 3) return 'critical';
+    if (score >= (threshold * 4) / 3) return 'high';
+    if (score >= threshold) return 'medium';
+    return 'low';
+}
+
+function result(
+    detector: AnomalyDetector,
+    actual: number,
+    expected: number,
+    z: number,
+    { threshold = detector.defaultThreshold, minCount = DEFAULT_MIN_SPIKE_COUNT }: DetectorOptions
+): AnomalyResult {
+    const isSpike = z >= threshold && actual >= minCount;
+    return {
+        detector: detector.name,
+        isSpike,
+        severity: isSpike ? severityFor(z, threshold) : 'low',
+        percentageIncrease: percentOver(actual, expected),
+        currentCount: actual,
+        averageCount: expected,
+        expected,
+        actual,
+        score: z,
+        confidence: normalCdf(z),
+    };
+}
+
+function insufficient(detector: AnomalyDetector, actual: number): AnomalyResult {
+    return {
+        detector: detector.name,
+        isSpike: false,
+        severity: 'low',
+        percentageIncrease: 0,
+        currentCount: actual,
+        averageCount: 0,
+        expected: 0,
+        actual,
+        score: 0,
+        confidence: 0,
+    };
+}
+
+// ── Detectors ────────────────────────────────────────────────────────────
+
+// Compares the last `recentBuckets` snapshots (summed) with what the earlier ones average over
+// the same number of buckets – with 1m buckets and recentBuckets = 10, "up 600% in 10 minutes"
+export function detectSpike(
+    snapshots: VelocitySnapshot[],
+    thresholdPercent: number = 300,
+    recentBuckets: number = 1
+): SpikeDetectionResult {
+    if (snapshots.length < 2) {
+        return {
+            isSpike: false,
+            severity: 'low',
+            percentageIncrease: 0,
+            currentCount: snapshots[0]?.count || 0,
+            averageCount: 0,
+        };
+    }
+
+    const { recent, actual: recentCount, history: previousCounts } = splitRecent(snapshots, recentBuckets);
+    const averageCount = mean(previousCounts) * recent;
+
+    if (averageCount === 0) {
+        return {
+            isSpike: recentCount > 10,
+            severity: recentCount > 50 ? 'high' : recentCount > 20 ? 'medium' : 'low',
+            percentageIncrease: 100,
+            currentCount: recentCount,
+            averageCount: 0,
+        };
+    }
+
+    const percentageIncrease = ((recentCount - averageCount) / averageCount) * 100;
+    const isSpike = percentageIncrease >= thresholdPercent;
+
+    let severity: SpikeDetectionResult['severity'] = 'low';
+    if (percentageIncrease >= 500) severity = 'critical';
+    else if (percentageIncrease >= 400) severity = 'high';
+    else if (percentageIncrease >= 300) severity = 'medium';
+
+    return {
+        isSpike,
+        severity,
+        percentageIncrease,
+        currentCount: recentCount,
+        averageCount,
+    };
+}
+
+// The original detector: percentage over the plain mean, fixed 300/400/500% bands
+export const meanDetector: AnomalyDetector = {
+    name: 'mean',
+    description: 'Percentage increase over the mean of earlier buckets',
+    defaultThreshold: 300,
+    detect(snapshots, { threshold = meanDetector.defaultThreshold, recentBuckets } = {}) {
+        const spike = detectSpike(snapshots, threshold, recentBuckets);
+        const expected = spike.averageCount;
+        return {
+            ...spike,
+            detector: meanDetector.name,
+            expected,
+            actual: spike.currentCount,
+            score: spike.percentageIncrease,
+            confidence: snapshots.length < 2 ? 0 : normalCdf(zScore(spike.currentCount, expected, 0)),
+        };
+    },
+};
+
+// Exponentially weighted mean and variance – recent buckets dominate the baseline, so a slow
+// ramp-up is absorbed while a sudden jump still stands out
+export function createEwmaDetector(alpha: number = 0.3): AnomalyDetector {
+    const detector: AnomalyDetector = {
+        name: 'ewma',
+        description: `Exponentially weighted moving average (α=${alpha})`,
+        defaultThreshold: 3,
+        maxThreshold: MAX_SIGMA_THRESHOLD,
+        detect(snapshots, options = {}) {
+            const { recent, actual, history } = splitRecent(snapshots, options.recentBuckets);
+            if (!history.length) return insufficient(detector, actual);
+
+            let average = history[0];
+            let variance = 0;
+            for (const count of history.slice(1)) {
+                const diff = count - average;
+                average += alpha * diff;
+                variance = (1 - alpha) * (variance + alpha * diff * diff);
+            }
+
+            const expected = average * recent;
+            return result(detector, actual, expected, zScore(actual, expected, Math.sqrt(variance * recent)), options);
+        },
+    };
+    return detector;
+}
+
+// Rolling z-score over the last `lookback` buckets
+export function createZScoreDetector(lookback: number = 30): AnomalyDetector {
+    const detector: AnomalyDetector = {
+        name: 'zscore',
+        description: `Rolling z-score over the previous ${lookback} buckets`,
+        defaultThreshold: 3,
+        maxThreshold: MAX_SIGMA_THRESHOLD,
+        detect(snapshots, options = {}) {
+            const { recent, actual, history } = splitRecent(snapshots, options.recentBuckets);
+            const window = history.slice(-lookback);
+            if (!window.length) return insufficient(detector, actual);
+
+            const expected = mean(window) * recent;
+            return result(detector, actual, expected, zScore(actual, expected, stdDev(window) * Math.sqrt(recent)), options);
+        },
+    };
+    return detector;
+}
+
+// Median / median absolute deviation – like the z-score, but one earlier burst doesn't inflate
+// the baseline
+export function createMadDetector(lookback: number = 30): AnomalyDetector {
+    const detector: AnomalyDetector = {
+        name: 'mad',
+        description: `Rolling median absolute deviation over the previous ${lookback} buckets`,
+        defaultThreshold: 3,
+        maxThreshold: MAX_SIGMA_THRESHOLD,
+        detect(snapshots, options = {}) {
+            const { recent, actual, history } = splitRecent(snapshots, options.recentBuckets);
+            const window = history.slice(-lookback);
+            if (!window.length) return insufficient(detector, actual);
+
+            const center = median(window);
+            // 1.4826 scales the MAD to a standard deviation for normally distributed counts
+            const spread = 1.4826 * median(window.map((v) => Math.abs(v - center)));
+            const expected = center * recent;
+            return result(detector, actual, expected, zScore(actual, expected, spread * Math.sqrt(recent)), options);
+        },
+    };
+    return detector;
+}
+
+// Compares the recent window with the same window in earlier seasons (options.baseline), so a
+// story that always breaks at market open isn't flagged every morning
+export const seasonalDetector: AnomalyDetector = {
+    name: 'seasonal',
+    description: 'Same window in an earlier season (yesterday or last week)',
+    defaultThreshold: 3,
+    maxThreshold: MAX_SIGMA_THRESHOLD,
+    detect(snapshots, options = {}) {
+        const { recent, actual } = splitRecent(snapshots, options.recentBuckets);
+        const seasons = (options.baseline ?? [])
+            .filter((b) => b.length)
+            .map((b) => sum(b.slice(-recent).map((s) => s.count)));
+        if (!seasons.length) return insufficient(seasonalDetector, actual);
+
+        const expected = mean(seasons);
+        return result(seasonalDetector, actual, expected, zScore(actual, expected, stdDev(seasons)), options);
+    },
+};
+
+// ── Registry ─────────────────────────────────────────────────────────────
+
+const detectors = new Map<string, AnomalyDetector>();
+
+export function registerDetector(detector: AnomalyDetector): void {
+    detectors.set(detector.name, detector);
+}
+
+export function getDetector(name: string = DEFAULT_DETECTOR): AnomalyDetector | undefined {
+    return detectors.get(name);
+}
+
+export function listDetectors(): AnomalyDetector[] {
+    return [...detectors.values()];
+}
+
+registerDetector(meanDetector);
+registerDetector(createEwmaDetector());
+registerDetector(createZScoreDetector());
+registerDetector(createMadDetector());
+registerDetector(seasonalDetector);
+
+export interface SeriesSpike extends AnomalyResult {
+    key: string;
+    label: string;
+}
+
+// Runs a detector per series (e.g. one per cashtag), spiking series first, then by score.
+// `baseline` on a series is passed through for the seasonal detector.
+export function detectSeriesSpikes(
+    series: { key: string; label: string; snapshots: VelocitySnapshot[]; baseline?: VelocitySnapshot[][] }[],
+    options: DetectorOptions & { detector?: string } = {}
+): SeriesSpike[] {
+    const detector = getDetector(options.detector) ?? meanDetector;
+    return series
+        .map(({ key, label, snapshots, baseline }) => ({
+            key,
+            label,
+            ...detector.detect(snapshots, { ...options, baseline: baseline ?? options.baseline }),
+        }))
+        .sort((a, b) => Number(b.isSpike) - Number(a.isSpike) || b.score - a.score);
+}
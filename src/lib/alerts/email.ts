@@ -0,0 +1,182 @@
+// Alert Email
+// HTML and plain-text templates for single alerts and hourly / daily digests, sent over SMTP
+// (SMTP_URL) with nodemailer
+
+import nodemailer from 'nodemailer';
+import type { AlertNotification, EmailDigest } from '../db/schema';
+import type { DeliveryResult } from './channels';
+
+export interface EmailMessage {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+const DEFAULT_FROM = 'X News Crawler <alerts@localhost>';
+const SAMPLE_ITEMS = 5;
+// Per trigger in a digest, which can hold dozens
+const DIGEST_ITEMS = 3;
+
+// ============================================
+// Templates
+// ============================================
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function stats(notification: AlertNotification): string[] {
+    return [
+        ...(notification.velocity !== undefined ? [`Velocity: ${notification.velocity} tweets/min`] : []),
+        ...(notification.sentiment !== undefined ? [`Avg sentiment: ${notification.sentiment.toFixed(2)}`] : []),
+    ];
+}
+
+function itemsText(notification: AlertNotification, limit: number): string[] {
+    return notification.items.slice(0, limit).map((t) => `• @${t.author}: ${t.text}${t.url ? `\n  ${t.url}` : ''}`);
+}
+
+function itemsHtml(notification: AlertNotification, limit: number): string {
+    const items = notification.items.slice(0, limit).map((t) => {
+        const author = t.url
+            ? `<a href="${escapeHtml(t.url)}" style="color:#0891b2;text-decoration:none">@${escapeHtml(t.author)}</a>`
+            : `<strong>@${escapeHtml(t.author)}</strong>`;
+        return `<li style="margin:0 0 8px">${author}: ${escapeHtml(t.text)}</li>`;
+    });
+    return items.length ? `<ul style="margin:12px 0 0;padding-left:18px">${items.join('')}</ul>` : '';
+}
+
+function time(date: Date): string {
+    return new Date(date).toUTCString();
+}
+
+// Inline styles only – most mail clients drop <style> blocks
+function layout(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#18181b">
+<div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+<h1 style="margin:0 0 16px;font-size:18px">${escapeHtml(title)}</h1>
+${body}
+<p style="margin:24px 0 0;font-size:12px;color:#71717a">X News Crawler Alert System</p>
+</div>
+</body>
+</html>`;
+}
+
+export function alertEmail(alertName: string, notification: AlertNotification): EmailMessage {
+    const title = `🚨 Alert: ${alertName}`;
+    const lines = stats(notification);
+    const items = itemsText(notification, SAMPLE_ITEMS);
+
+    return {
+        subject: title,
+        text: [
+            title,
+            '',
+            notification.details,
+            ...(lines.length ? ['', ...lines] : []),
+            ...(items.length ? ['', ...items] : []),
+            '',
+            time(notification.timestamp),
+        ].join('\n'),
+        html: layout(
+            title,
+            `<p style="margin:0">${escapeHtml(notification.details)}</p>` +
+                (lines.length ? `<p style="margin:12px 0 0;color:#52525b">${escapeHtml(lines.join(' · '))}</p>` : '') +
+                itemsHtml(notification, SAMPLE_ITEMS) +
+                `<p style="margin:16px 0 0;font-size:12px;color:#71717a">${escapeHtml(time(notification.timestamp))}</p>`
+        ),
+    };
+}
+
+// Oldest trigger first
+export function digestEmail(alertName: string, notifications: AlertNotification[], digest: EmailDigest): EmailMessage {
+    const sorted = [...notifications].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const count = `${sorted.length} ${sorted.length === 1 ? 'time' : 'times'}`;
+    const title = `${digest === 'hourly' ? 'Hourly' : 'Daily'} digest: ${alertName} fired ${count}`;
+
+    const text = sorted.map((n) => {
+        const lines = stats(n);
+        return [
+            `${time(n.timestamp)} – ${n.details}`,
+            ...(lines.length ? [lines.join(' · ')] : []),
+            ...itemsText(n, DIGEST_ITEMS),
+        ].join('\n');
+    });
+    const html = sorted.map((n) => {
+        const lines = stats(n);
+        return `<div style="margin:0 0 20px;padding:0 0 16px;border-bottom:1px solid #e4e4e7">
+<p style="margin:0;font-size:12px;color:#71717a">${escapeHtml(time(n.timestamp))}</p>
+<p style="margin:4px 0 0">${escapeHtml(n.details)}</p>` +
+            (lines.length ? `<p style="margin:8px 0 0;color:#52525b">${escapeHtml(lines.join(' · '))}</p>` : '') +
+            itemsHtml(n, DIGEST_ITEMS) +
+            '</div>';
+    });
+
+    return {
+        subject: title,
+        text: [title, '', text.join('\n\n')].join('\n'),
+        html: layout(title, html.join('\n')),
+    };
+}
+
+// End of the digest period `at` falls in: the top of the next hour, or the next midnight in the
+// server's time zone (TZ)
+export function digestDueAt(at: Date, digest: EmailDigest): Date {
+    const due = new Date(at);
+    if (digest === 'hourly') due.setMinutes(60, 0, 0);
+    else due.setHours(24, 0, 0, 0);
+    return due;
+}
+
+// ============================================
+// SMTP
+// ============================================
+
+type Transport = ReturnType<typeof nodemailer.createTransport>;
+
+// On globalThis so every route handler reuses the connection settings; rebuilt if SMTP_URL changes
+const globalForMail = globalThis as unknown as { alertMail?: { url: string; transport: Transport } };
+
+function transport(): Transport | null {
+    const url = process.env.SMTP_URL;
+    if (!url) return null;
+    if (globalForMail.alertMail?.url !== url) {
+        globalForMail.alertMail = {
+            url,
+            transport: nodemailer.createTransport({
+                url,
+                connectionTimeout: 10_000,
+                greetingTimeout: 10_000,
+                socketTimeout: 30_000,
+            }),
+        };
+    }
+    return globalForMail.alertMail.transport;
+}
+
+// 5xx replies (unknown mailbox, rejected sender) won't change on a retry; 4xx and connection
+// errors might
+export async function sendEmail(to: string, message: EmailMessage): Promise<DeliveryResult> {
+    const mailer = transport();
+    if (!mailer) return { ok: false, error: 'SMTP_URL is not configured', permanent: true };
+
+    try {
+        await mailer.sendMail({ from: process.env.ALERT_EMAIL_FROM || DEFAULT_FROM, to, ...message });
+        return { ok: true };
+    } catch (error: unknown) {
+        const { responseCode } = error as { responseCode?: number };
+        return {
+            ok: false,
+            status: responseCode,
+            error: error instanceof Error ? error.message : String(error),
+            permanent: !!responseCode && responseCode >= 500,
+        };
+    }
+}
@@ -1,160 +1,170 @@
 // Alert Processing Engine
-// Handles spike detection, sentiment correlation, and Discord webhook dispatch
-
-import type { Tweet, Alert, AlertCondition, AlertAction, VelocitySnapshot, TweetCategory } from '../db/schema';
+// Handles spike detection, sentiment correlation, and queueing alert actions in the outbox
+
+import type {
+    Tweet,
+    Alert,
+    AlertCondition,
+    AlertAction,
+    AlertNotification,
+    AlertTrigger,
+    AlertEvidence,
+    VelocitySnapshot,
+    TweetCategory,
+} from '../db/schema';
+import { MAX_PAGE_SIZE, type AlertRepository, type AlertTriggerRepository } from '../db/repository';
+import { getRepositories } from '../db';
+import { TOPIC_PRESETS } from '../topics';
+import { dimensionKeys, seriesKey, type NamedVelocitySeries, type VelocityDimension } from '../velocity/series';
+import { detectSeriesSpikes, getDetector, meanDetector, type Season } from './detectors';
+import {
+    DEFAULT_CONDITION_WINDOW_MINUTES,
+    conditionLeaves,
+    describeConditions,
+    evaluateConditionTree,
+    normalizeConditions,
+    type ConditionMatch,
+} from './conditions';
+import { AlertThrottler, resolveThrottle } from './throttle';
+import { getNotificationOutbox, type EnqueueOptions, type NotificationOutbox } from './outbox';
 
 // ============================================
-// Spike Detection
+// Alert Condition Evaluation
 // ============================================
 
-export interface SpikeDetectionResult {
-    isSpike: boolean;
-    severity: 'low' | 'medium' | 'high' | 'critical';
-    percentageIncrease: number;
-    currentCount: number;
-    averageCount: number;
+export interface AlertContext {
+    tweets: Tweet[];
+    snapshots: VelocitySnapshot[];
+    currentVelocity: number;
+    averageVelocity: number;
+    // The same window in earlier seasons, for conditions using the seasonal detector
+    baselines?: SeasonalBaselines;
+    // Breakdown series (per topic, keyword, cashtag or author) for series-scoped spike conditions
+    series?: Partial<Record<VelocityDimension, (NamedVelocitySeries & { baselines?: SeasonalBaselines })[]>>;
+    // Evaluation time for condition windows (defaults to the wall clock)
+    now?: Date;
 }
 
-export function detectSpike(
-    snapshots: VelocitySnapshot[],
-    thresholdPercent: number = 300
-): SpikeDetectionResult {
-    if (snapshots.length < 2) {
-        return {
-            isSpike: false,
-            severity: 'low',
-            percentageIncrease: 0,
-            currentCount: snapshots[0]?.count || 0,
-            averageCount: 0,
-        };
-    }
-
-    const recentCount = snapshots[snapshots.length - 1].count;
-    const previousCounts = snapshots.slice(0, -1).map((s) => s.count);
-    const averageCount = previousCounts.reduce((a, b) => a + b, 0) / previousCounts.length;
-
-    if (averageCount === 0) {
-        return {
-            isSpike: recentCount > 10,
-            severity: recentCount > 50 ? 'high' : recentCount > 20 ? 'medium' : 'low',
-            percentageIncrease: 100,
-            currentCount: recentCount,
-            averageCount: 0,
-        };
-    }
+export type SeasonalBaselines = Partial<Record<Season, VelocitySnapshot[]>>;
 
-    const percentageIncrease = ((recentCount - averageCount) / averageCount) * 100;
-    const isSpike = percentageIncrease >= thresholdPercent;
+const MIN_SENTIMENT_SAMPLES = 10;
 
-    let severity: SpikeDetectionResult['severity'] = 'low';
-    if (percentageIncrease >= 500) severity = 'critical';
-    else if (percentageIncrease >= 400) severity = 'high';
-    else if (percentageIncrease >= 300) severity = 'medium';
+function windowStart(condition: AlertCondition, context: AlertContext): number {
+    const now = (context.now ?? new Date()).getTime();
+    return now - (condition.windowMinutes ?? DEFAULT_CONDITION_WINDOW_MINUTES) * 60_000;
+}
 
-    return {
-        isSpike,
-        severity,
-        percentageIncrease,
-        currentCount: recentCount,
-        averageCount,
-    };
+function tweetsSince(tweets: Tweet[], since: number): Tweet[] {
+    return tweets.filter((t) => new Date(t.createdAt).getTime() >= since);
 }
 
-// ============================================
-// Alert Condition Evaluation
-// ============================================
+function match(condition: AlertCondition, matched: boolean, tweets: Tweet[] = []): ConditionMatch {
+    return { matched, tweets, conditions: matched ? [condition] : [] };
+}
 
-export interface AlertContext {
-    tweets: Tweet[];
-    snapshots: VelocitySnapshot[];
-    currentVelocity: number;
-    averageVelocity: number;
+// Items counted by a breakdown series – topic series are approximated by the preset's keywords
+function inSeries(tweet: Tweet, by: VelocityDimension, key: string): boolean {
+    if (by !== 'topic') return dimensionKeys(tweet, by).includes(key);
+    const keywords = TOPIC_PRESETS.find((p) => p.id === key)?.keywords ?? [];
+    const text = tweet.text.toLowerCase();
+    return keywords.some((k) => text.includes(k.toLowerCase()));
 }
 
-export function evaluateCondition(condition: AlertCondition, context: AlertContext): boolean {
+// Evaluates one leaf condition over its time window and returns the items that satisfied it
+export function matchCondition(condition: AlertCondition, context: AlertContext): ConditionMatch {
     switch (condition.type) {
         case 'velocity_spike': {
-            const spike = detectSpike(context.snapshots, condition.threshold || 300);
-            return spike.isSpike;
+            const season = condition.season ?? 'day';
+            // Snapshots are per minute, so the window is a number of trailing buckets
+            const recentBuckets = condition.windowMinutes ?? 1;
+            const options = { detector: condition.detector, threshold: condition.threshold || undefined, recentBuckets };
+
+            // Evidence: items published since the first snapshot of the spike window
+            const first = context.snapshots[Math.max(0, context.snapshots.length - recentBuckets)];
+            const recent = first ? tweetsSince(context.tweets, new Date(first.timestamp).getTime()) : [];
+
+            if (condition.series) {
+                const { by, key } = condition.series;
+                const wanted = key ? seriesKey(by, key) : null;
+                const lines = (context.series?.[by] ?? [])
+                    .filter((s) => !wanted || s.key === wanted)
+                    .map((s) => ({ ...s, baseline: baselineFor(s.baselines, season) }));
+                const spiking = detectSeriesSpikes(lines, options).filter((s) => s.isSpike);
+                return match(
+                    condition,
+                    spiking.length > 0,
+                    recent.filter((t) => spiking.some((s) => inSeries(t, by, s.key)))
+                );
+            }
+            const detector = getDetector(condition.detector) ?? meanDetector;
+            const spike = detector.detect(context.snapshots, {
+                ...options,
+                baseline: baselineFor(context.baselines, season),
+            });
+            return match(condition, spike.isSpike, spike.isSpike ? recent : []);
         }
 
         case 'sentiment_shift': {
-            if (context.tweets.length < 10) return false;
-            const recentTweets = context.tweets.slice(0, 20);
-            const avgSentiment = recentTweets
-                .filter((t) => t.sentiment)
-                .reduce((sum, t) => sum + (t.sentiment?.score || 0), 0) / recentTweets.length;
-
-            const threshold = condition.threshold || 0.5;
-            return Math.abs(avgSentiment) >= threshold;
+            // Only analysed items carry a score – the rest would drag the average towards zero
+            const scored = tweetsSince(context.tweets, windowStart(condition, context)).filter((t) => t.sentiment);
+            if (scored.length < MIN_SENTIMENT_SAMPLES) return match(condition, false);
+
+            const avgSentiment = scored.reduce((sum, t) => sum + t.sentiment!.score, 0) / scored.length;
+            // The shift is a property of the window, so its evidence only exists once it's reached
+            const shifted = Math.abs(avgSentiment) >= (condition.threshold || 0.5);
+            return match(
+                condition,
+                shifted,
+                shifted ? scored.filter((t) => Math.sign(t.sentiment!.score) === Math.sign(avgSentiment)) : []
+            );
         }
 
         case 'keyword_match': {
-            if (!condition.keywords?.length) return false;
-            const recentTweets = context.tweets.slice(0, 50);
+            if (!condition.keywords?.length) return match(condition, false);
             const keywords = condition.keywords.map((k) => k.toLowerCase());
-
-            return recentTweets.some((tweet) =>
-                keywords.some((keyword) =>
-                    tweet.text.toLowerCase().includes(keyword)
-                )
+            const matching = tweetsSince(context.tweets, windowStart(condition, context)).filter((tweet) =>
+                keywords.some((keyword) => tweet.text.toLowerCase().includes(keyword))
             );
+
+            return match(condition, matching.length > 0, matching);
         }
 
         case 'category_match': {
-            if (!condition.categories?.length) return false;
-            const recentTweets = context.tweets.slice(0, 20);
-            const matchCount = recentTweets.filter((t) =>
+            if (!condition.categories?.length) return match(condition, false);
+            const matching = tweetsSince(context.tweets, windowStart(condition, context)).filter((t) =>
                 t.category && condition.categories?.includes(t.category)
-            ).length;
+            );
 
-            return matchCount >= (condition.threshold || 5);
+            return match(condition, matching.length >= (condition.threshold || 5), matching);
         }
 
         default:
-            return false;
+            return match(condition, false);
     }
 }
 
-export function evaluateAlert(alert: Alert, context: AlertContext): boolean {
-    if (!alert.enabled) return false;
+export function evaluateCondition(condition: AlertCondition, context: AlertContext): boolean {
+    return matchCondition(condition, context).matched;
+}
 
-    // All conditions must be met (AND logic)
-    return alert.conditions.every((condition) => evaluateCondition(condition, context));
+function baselineFor(baselines: SeasonalBaselines | undefined, season: Season): VelocitySnapshot[][] {
+    const baseline = baselines?.[season];
+    return baseline ? [baseline] : [];
 }
 
-// ============================================
-// Discord Webhook
-// ============================================
+// The whole condition tree, with the items that satisfied it
+export function matchAlert(alert: Alert, context: AlertContext): ConditionMatch {
+    if (!alert.enabled) return { matched: false, tweets: [], conditions: [] };
 
-export interface DiscordMessage {
-    content?: string;
-    embeds?: Array<{
-        title: string;
-        description?: string;
-        color?: number;
-        fields?: Array<{ name: string; value: string; inline?: boolean }>;
-        footer?: { text: string };
-        timestamp?: string;
-    }>;
+    // An alert with no leaf conditions would match everything under ALL – never fire it
+    const root = normalizeConditions(alert.conditions);
+    if (!conditionLeaves(root).length) return { matched: false, tweets: [], conditions: [] };
+
+    return evaluateConditionTree(root, (condition) => matchCondition(condition, context));
 }
 
-export async function sendDiscordWebhook(
-    webhookUrl: string,
-    message: DiscordMessage
-): Promise<boolean> {
-    try {
-        const response = await fetch(webhookUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(message),
-        });
-
-        return response.ok;
-    } catch (error) {
-        console.error('Discord webhook error:', error);
-        return false;
-    }
+export function evaluateAlert(alert: Alert, context: AlertContext): boolean {
+    return matchAlert(alert, context).matched;
 }
 
 // ============================================
@@ -173,94 +183,121 @@ export interface AlertTriggerData {
     timestamp: Date;
 }
 
+export interface DeliveryOptions extends EnqueueOptions {
+    // Defaults to the shared outbox
+    outbox?: NotificationOutbox;
+}
+
+// The part of the trigger data that's stored with each delivery
+function toNotification(data: AlertTriggerData): AlertNotification {
+    return {
+        type: data.trigger.type,
+        details: data.trigger.details,
+        items: (data.trigger.tweets ?? []).map(evidenceItem),
+        velocity: data.trigger.velocity,
+        sentiment: data.trigger.sentiment,
+        timestamp: data.timestamp,
+    };
+}
+
+// Queues the action in the outbox, which sends it straight away and retries failures later.
+// Resolves true if the first attempt got through.
 export async function executeAction(
     action: AlertAction,
-    data: AlertTriggerData
+    data: AlertTriggerData,
+    { outbox = getNotificationOutbox(), ...options }: DeliveryOptions = {}
 ): Promise<boolean> {
-    switch (action.type) {
-        case 'discord_webhook': {
-            if (!action.webhookUrl) return false;
-
-            const color = data.trigger.type === 'velocity_spike' ? 0xff4444 : 0x3498db;
-
-            const message: DiscordMessage = {
-                embeds: [{
-                    title: `🚨 Alert: ${data.alert.name}`,
-                    description: data.trigger.details,
-                    color,
-                    fields: [
-                        ...(data.trigger.velocity !== undefined ? [{
-                            name: 'Velocity',
-                            value: `${data.trigger.velocity} tweets/min`,
-                            inline: true,
-                        }] : []),
-                        ...(data.trigger.sentiment !== undefined ? [{
-                            name: 'Avg Sentiment',
-                            value: data.trigger.sentiment.toFixed(2),
-                            inline: true,
-                        }] : []),
-                        ...(data.trigger.tweets?.length ? [{
-                            name: 'Sample Tweets',
-                            value: data.trigger.tweets
-                                .slice(0, 3)
-                                .map((t) => `• @${t.author.username}: ${t.text.slice(0, 100)}...`)
-                                .join('\n'),
-                            inline: false,
-                        }] : []),
-                    ],
-                    footer: { text: 'X News Crawler Alert System' },
-                    timestamp: data.timestamp.toISOString(),
-                }],
-            };
-
-            return sendDiscordWebhook(action.webhookUrl, message);
-        }
-
-        case 'in_app_notification': {
-            // Would integrate with the notification store
-            console.log('In-app notification:', data);
-            return true;
-        }
-
-        case 'email': {
-            // Email integration would go here
-            console.log('Email notification:', data);
-            return true;
-        }
-
-        default:
-            return false;
-    }
+    const delivery = await outbox.enqueue(action, data.alert, toNotification(data), options);
+    return delivery.status === 'delivered';
 }
 
+// `match` is the evaluation that fired the alert; notifications cite its items, not the latest ones
 export async function triggerAlert(
     alert: Alert,
-    context: AlertContext
+    context: AlertContext,
+    match: ConditionMatch = matchAlert(alert, context),
+    options: DeliveryOptions = {}
 ): Promise<boolean> {
+    const scored = match.tweets.filter((t) => t.sentiment);
     const triggerData: AlertTriggerData = {
         alert,
         trigger: {
-            type: 'velocity_spike',
-            details: `Alert "${alert.name}" triggered based on configured conditions.`,
-            tweets: context.tweets.slice(0, 5),
+            type: match.conditions[0]?.type ?? 'velocity_spike',
+            details: `Alert "${alert.name}" triggered: ${describeConditions(normalizeConditions(alert.conditions))} ` +
+                `(${match.tweets.length} matching ${match.tweets.length === 1 ? 'item' : 'items'}).`,
+            tweets: match.tweets.slice(0, 5),
             velocity: context.currentVelocity,
-            sentiment: context.tweets[0]?.sentiment?.score,
+            sentiment: scored.length
+                ? scored.reduce((sum, t) => sum + t.sentiment!.score, 0) / scored.length
+                : undefined,
         },
         timestamp: new Date(),
     };
 
     const results = await Promise.all(
-        alert.actions.map((action) => executeAction(action, triggerData))
+        alert.actions.map((action) => executeAction(action, triggerData, options))
     );
 
     return results.some((r) => r);
 }
 
+// ============================================
+// Trigger History
+// ============================================
+
+const MAX_EVIDENCE_ITEMS = 10;
+const EVIDENCE_TEXT_LENGTH = 280;
+
+function evidenceItem(tweet: Tweet): AlertEvidence['items'][number] {
+    return {
+        id: tweet.id,
+        text: tweet.text.slice(0, EVIDENCE_TEXT_LENGTH),
+        author: tweet.author.username,
+        url: tweet.url,
+        createdAt: tweet.createdAt,
+        storyId: tweet.storyId,
+    };
+}
+
+export function buildTrigger(
+    alert: Alert,
+    context: AlertContext,
+    match: ConditionMatch,
+    dedupeKeys: string[],
+    at: Date = new Date()
+): AlertTrigger {
+    const scored = match.tweets.filter((t) => t.sentiment);
+    return {
+        id: `trigger_${at.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+        alertId: alert.id,
+        alertName: alert.name,
+        triggeredAt: at,
+        dedupeKeys,
+        details: describeConditions(normalizeConditions(alert.conditions)),
+        conditions: match.conditions,
+        evidence: {
+            items: match.tweets.slice(0, MAX_EVIDENCE_ITEMS).map(evidenceItem),
+            itemCount: match.tweets.length,
+            velocity: { current: context.currentVelocity, average: context.averageVelocity },
+            sentiment: scored.length
+                ? scored.reduce((sum, t) => sum + t.sentiment!.score, 0) / scored.length
+                : undefined,
+            snapshot: context.snapshots[context.snapshots.length - 1],
+        },
+    };
+}
+
 // ============================================
 // Alert Engine
 // ============================================
 
+export type TriggerListener = (trigger: AlertTrigger, alert: Alert) => void;
+
 export class AlertEngine {
+    private repository: AlertRepository | null;
+    private triggers: AlertTriggerRepository | null;
+    private outbox: NotificationOutbox | undefined;
+    private throttler = new AlertThrottler();
     private alerts: Alert[] = [];
     private context: AlertContext = {
         tweets: [],
@@ -269,33 +306,108 @@ export class AlertEngine {
         averageVelocity: 0,
     };
     private checkInterval: NodeJS.Timeout | null = null;
+    private listeners = new Set<TriggerListener>();
+
+    // Without a repository alerts only live in memory (setAlerts) and trigger stats aren't persisted;
+    // without a trigger repository there's no history and cooldowns reset on restart. Actions go
+    // to the shared outbox unless one is given.
+    constructor(
+        repository: AlertRepository | null = null,
+        triggers: AlertTriggerRepository | null = null,
+        outbox?: NotificationOutbox
+    ) {
+        this.repository = repository;
+        this.triggers = triggers;
+        this.outbox = outbox;
+    }
 
     setAlerts(alerts: Alert[]): void {
         this.alerts = alerts;
     }
 
+    async loadAlerts(): Promise<Alert[]> {
+        if (this.repository) this.alerts = await this.repository.list();
+        if (this.triggers && this.alerts.length) {
+            // Enough history to cover the longest cooldown or re-arm window
+            const minutes = Math.max(...this.alerts.map((a) => {
+                const throttle = resolveThrottle(a);
+                return Math.max(throttle.cooldownMinutes, throttle.clearMinutes);
+            }));
+            const since = new Date(Date.now() - minutes * 60_000);
+            this.throttler.seed(await this.triggers.list({ since, limit: MAX_PAGE_SIZE }));
+        }
+        return this.alerts;
+    }
+
+    // Drops an alert's cooldown state, e.g. once it has been deleted
+    forget(alertId: string): void {
+        this.throttler.forget(alertId);
+        this.alerts = this.alerts.filter((a) => a.id !== alertId);
+    }
+
+    // Called for every trigger, after it has been recorded
+    onTrigger(listener: TriggerListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
     updateContext(context: Partial<AlertContext>): void {
         this.context = { ...this.context, ...context };
     }
 
-    async checkAlerts(): Promise<Alert[]> {
+    // Fires each alert whose conditions match, unless everything it matched is still throttled.
+    // A trigger consumes its dedupe keys even if no action succeeds, so a dead webhook doesn't
+    // re-fire on every check. One alert failing (e.g. the outbox can't enqueue) doesn't stop the
+    // others, and leaves its keys unconsumed so the next check tries again.
+    async checkAlerts(now: Date = new Date()): Promise<Alert[]> {
         const triggered: Alert[] = [];
+        const context = { ...this.context, now: this.context.now ?? now };
 
         for (const alert of this.alerts) {
-            if (evaluateAlert(alert, this.context)) {
-                const success = await triggerAlert(alert, this.context);
-                if (success) {
-                    triggered.push(alert);
-                }
+            try {
+                const match = matchAlert(alert, context);
+                if (!match.matched) continue;
+
+                const fresh = this.throttler.check(alert, match, now);
+                if (!fresh.keys.length) continue;
+
+                // Built first so the deliveries can refer to it
+                const trigger = buildTrigger(alert, context, fresh.match, fresh.keys, now);
+                await triggerAlert(alert, context, fresh.match, { outbox: this.outbox, triggerId: trigger.id });
+                triggered.push(await this.recordTrigger(alert, trigger, now));
+            } catch (error) {
+                console.error(`[Alerts] Alert "${alert.name}" failed:`, error instanceof Error ? error.message : error);
             }
         }
 
         return triggered;
     }
 
+    // Consumes the trigger's dedupe keys once it's been persisted (or persisting has failed – the
+    // actions are already queued, so firing again would only duplicate them)
+    private async recordTrigger(alert: Alert, trigger: AlertTrigger, at: Date): Promise<Alert> {
+        let updated: Alert = { ...alert, lastTriggeredAt: at, triggerCount: alert.triggerCount + 1 };
+
+        try {
+            if (this.repository) updated = (await this.repository.markTriggered(alert.id, at)) ?? updated;
+            await this.triggers?.record(trigger);
+        } catch (error) {
+            console.error('Failed to persist alert trigger:', error instanceof Error ? error.message : error);
+        }
+        this.throttler.record(alert.id, trigger.dedupeKeys, at);
+
+        this.alerts = this.alerts.map((a) => (a.id === alert.id ? updated : a));
+        this.listeners.forEach((listener) => listener(trigger, updated));
+        return updated;
+    }
+
     startMonitoring(intervalMs: number = 30000): void {
         this.stopMonitoring();
-        this.checkInterval = setInterval(() => this.checkAlerts(), intervalMs);
+        this.checkInterval = setInterval(() => {
+            this.checkAlerts().catch((error) => {
+                console.error('[Alerts] Check failed:', error instanceof Error ? error.message : error);
+            });
+        }, intervalMs);
     }
 
     stopMonitoring(): void {
@@ -306,12 +418,13 @@ export class AlertEngine {
     }
 }
 
-// Singleton instance
-let alertEngine: AlertEngine | null = null;
+// On globalThis so route handlers and the instrumentation hook share one engine
+const globalForAlerts = globalThis as unknown as { alertEngine?: AlertEngine };
 
 export function getAlertEngine(): AlertEngine {
-    if (!alertEngine) {
-        alertEngine = new AlertEngine();
+    if (!globalForAlerts.alertEngine) {
+        const repositories = getRepositories();
+        globalForAlerts.alertEngine = new AlertEngine(repositories.alerts, repositories.triggers, getNotificationOutbox());
     }
-    return alertEngine;
+    return globalForAlerts.alertEngine;
 }
@@ -1 +1,9 @@
+export * from './conditions';
+export * from './detectors';
+export * from './throttle';
+export * from './actions';
+export * from './channels';
+export * from './outbox';
 export * from './engine';
+export * from './monitor';
+export * from './service';
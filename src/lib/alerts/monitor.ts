@@ -0,0 +1,242 @@
+// Alert Monitor
+// Hosts the AlertEngine in the server process: reloads alert definitions from storage, builds the
+// evaluation context from stored items and the velocity service, and broadcasts every trigger
+
+import type { Alert, AlertCondition, AlertTrigger, VelocitySnapshot } from '../db/schema';
+import { queryAll, type TweetRepository } from '../db/repository';
+import { getRepositories } from '../db';
+import { getVelocityService, type VelocityQuery, type VelocityService } from '../velocity';
+import { VELOCITY_RANGES, MAX_SERIES_LIMIT, type VelocityRange, type VelocityDimension } from '../velocity/series';
+import { getIngestionScheduler } from '../ingest';
+import { broadcastSpikeAlert, type SpikeAlertPayload } from '../realtime/socket-server';
+import { SEASON_MS, type Season } from './detectors';
+import { DEFAULT_CONDITION_WINDOW_MINUTES, conditionLeaves, normalizeConditions } from './conditions';
+import { getAlertEngine, type AlertContext, type AlertEngine, type SeasonalBaselines } from './engine';
+
+const DEFAULT_INTERVAL_MS = 30_000;
+// Ingested items are persisted asynchronously – give them a moment before re-checking
+const INGEST_SETTLE_MS = 5_000;
+// Velocity baselines cover at least an hour of minute buckets
+const MIN_BASELINE_MINUTES = 60;
+// A spike window is compared with a baseline at least this many times its length
+const BASELINE_WINDOWS = 4;
+
+export interface AlertMonitorStatus {
+    running: boolean;
+    lastCheckAt?: Date;
+    lastError?: string;
+    alerts: number;
+    triggers: number;
+}
+
+export class AlertMonitor {
+    private engine: AlertEngine;
+    private tweets: TweetRepository;
+    private velocity: VelocityService;
+    private intervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private settle: NodeJS.Timeout | null = null;
+    private current: Promise<Alert[]> | null = null;
+    private status: AlertMonitorStatus = { running: false, alerts: 0, triggers: 0 };
+
+    constructor(engine: AlertEngine, tweets: TweetRepository, velocity: VelocityService, intervalMs: number = DEFAULT_INTERVAL_MS) {
+        this.engine = engine;
+        this.tweets = tweets;
+        this.velocity = velocity;
+        this.intervalMs = intervalMs;
+    }
+
+    getStatus(): AlertMonitorStatus {
+        return { ...this.status };
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.checkQuietly(), this.intervalMs);
+        this.timer.unref?.();
+        this.status.running = true;
+        this.checkQuietly();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        if (this.settle) clearTimeout(this.settle);
+        this.timer = null;
+        this.settle = null;
+        this.status.running = false;
+    }
+
+    // Called for each ingested batch, so a spike is caught without waiting for the next interval.
+    // Batches arriving close together share one check.
+    notifyIngest(): void {
+        if (!this.timer || this.settle) return;
+        this.settle = setTimeout(() => {
+            this.settle = null;
+            this.checkQuietly();
+        }, INGEST_SETTLE_MS);
+        this.settle.unref?.();
+    }
+
+    // Concurrent callers share the check already in progress
+    check(now: Date = new Date()): Promise<Alert[]> {
+        this.current ??= this.execute(now).finally(() => {
+            this.current = null;
+        });
+        return this.current;
+    }
+
+    private checkQuietly(): void {
+        this.check().catch((error) => {
+            console.error('[Alerts] Check failed:', error instanceof Error ? error.message : error);
+        });
+    }
+
+    private async execute(now: Date): Promise<Alert[]> {
+        try {
+            // Reloaded every time, so alerts saved through the API apply on the next check
+            const alerts = (await this.engine.loadAlerts()).filter((a) => a.enabled);
+            this.status.alerts = alerts.length;
+            if (!alerts.length) return [];
+
+            this.engine.updateContext(await this.buildContext(alerts, now));
+            const triggered = await this.engine.checkAlerts(now);
+
+            this.status.triggers += triggered.length;
+            this.status.lastError = undefined;
+            return triggered;
+        } catch (error: unknown) {
+            this.status.lastError = error instanceof Error ? error.message : String(error);
+            throw error;
+        } finally {
+            this.status.lastCheckAt = now;
+        }
+    }
+
+    // Everything the enabled alerts' conditions look at, and no more: items for the longest
+    // window, the overall series, breakdown series and seasonal baselines only when referenced
+    async buildContext(alerts: Alert[], now: Date = new Date()): Promise<AlertContext> {
+        const leaves = alerts.flatMap((a) => conditionLeaves(normalizeConditions(a.conditions)));
+        const spikes = leaves.filter((c) => c.type === 'velocity_spike');
+
+        const itemMinutes = Math.max(0, ...leaves.map((c) => c.windowMinutes ?? DEFAULT_CONDITION_WINDOW_MINUTES));
+        const range = baselineRange(Math.max(0, ...spikes.map((c) => c.windowMinutes ?? 1)));
+        const seasons = [...new Set(spikes.filter((c) => c.detector === 'seasonal').map((c) => c.season ?? 'day'))];
+
+        const [tweets, overall] = await Promise.all([
+            queryAll(this.tweets, { since: new Date(now.getTime() - itemMinutes * 60_000) }),
+            spikes.length ? this.snapshots({ range, now }) : Promise.resolve([]),
+        ]);
+        const context: AlertContext = {
+            tweets,
+            snapshots: overall,
+            currentVelocity: overall[overall.length - 1]?.count ?? 0,
+            averageVelocity: overall.length ? overall.reduce((sum, s) => sum + s.count, 0) / overall.length : 0,
+            baselines: await this.baselines(seasons, (at) => this.snapshots({ range, now: at }), now),
+            series: {},
+            now,
+        };
+
+        for (const [by, conditions] of groupBy(spikes.filter((c) => c.series), (c) => c.series!.by)) {
+            context.series![by] = await this.breakdown(by, conditions, range, seasons, now);
+        }
+        return context;
+    }
+
+    // Complete one-minute buckets only – the newest one is still filling up
+    private async snapshots(query: Omit<VelocityQuery, 'bucket'>): Promise<VelocitySnapshot[]> {
+        return (await this.velocity.series({ ...query, bucket: '1m' })).snapshots.slice(0, -1);
+    }
+
+    private async baselines(
+        seasons: Season[],
+        load: (at: Date) => Promise<VelocitySnapshot[]>,
+        now: Date
+    ): Promise<SeasonalBaselines> {
+        const baselines: SeasonalBaselines = {};
+        for (const season of seasons) {
+            baselines[season] = await load(new Date(now.getTime() - SEASON_MS[season]));
+        }
+        return baselines;
+    }
+
+    // The referenced keys, or the busiest series when a condition watches every key of a dimension
+    private async breakdown(
+        by: VelocityDimension,
+        conditions: AlertCondition[],
+        range: VelocityRange,
+        seasons: Season[],
+        now: Date
+    ): Promise<NonNullable<AlertContext['series']>[VelocityDimension]> {
+        const anyKey = conditions.some((c) => !c.series!.key);
+        const keys = anyKey ? undefined : conditions.map((c) => c.series!.key!);
+        const load = async (at: Date, keyList?: string[]) => {
+            const { breakdown } = await this.velocity.series({
+                range,
+                bucket: '1m',
+                by,
+                keys: keyList,
+                limit: keyList ? undefined : MAX_SERIES_LIMIT,
+                now: at,
+            });
+            return (breakdown?.series ?? []).map((s) => ({ ...s, snapshots: s.snapshots.slice(0, -1) }));
+        };
+
+        const series = await load(now, keys);
+        const seasonal = await Promise.all(
+            seasons.map(async (season) => ({
+                season,
+                lines: await load(new Date(now.getTime() - SEASON_MS[season]), series.map((s) => s.key)),
+            }))
+        );
+        return series.map((s) => ({
+            ...s,
+            baselines: Object.fromEntries(
+                seasonal.map(({ season, lines }) => [season, lines.find((l) => l.key === s.key)?.snapshots ?? []])
+            ),
+        }));
+    }
+}
+
+// Shortest velocity range that holds enough baseline for the longest spike window
+function baselineRange(windowMinutes: number): VelocityRange {
+    const minutes = Math.max(MIN_BASELINE_MINUTES, windowMinutes * BASELINE_WINDOWS);
+    const ranges = (['1h', '6h', '24h'] as const).filter((r) => VELOCITY_RANGES[r] >= minutes * 60_000);
+    return ranges[0] ?? '24h';
+}
+
+function groupBy<T, K>(items: T[], keyOf: (item: T) => K): Map<K, T[]> {
+    const groups = new Map<K, T[]>();
+    for (const item of items) groups.set(keyOf(item), [...(groups.get(keyOf(item)) ?? []), item]);
+    return groups;
+}
+
+// What dashboards receive over SOCKET_EVENTS.SPIKE_ALERT
+export function spikeAlertPayload(trigger: AlertTrigger): SpikeAlertPayload {
+    const score = trigger.evidence.sentiment;
+    return {
+        topic: trigger.alertName,
+        tweetCount: trigger.evidence.itemCount,
+        startTime: trigger.triggeredAt,
+        sentiment: score === undefined ? 'neutral' : score > 0.3 ? 'positive' : score < -0.3 ? 'negative' : 'neutral',
+        alertId: trigger.alertId,
+        triggerId: trigger.id,
+        details: trigger.details,
+    };
+}
+
+// On globalThis so route handlers and the instrumentation hook share one monitor
+const globalForMonitor = globalThis as unknown as { alertMonitor?: AlertMonitor };
+
+// Wired to the ingestion scheduler and the socket server on first use; start() begins checking
+export function getAlertMonitor(): AlertMonitor {
+    if (!globalForMonitor.alertMonitor) {
+        const intervalMs = parseInt(process.env.ALERT_CHECK_INTERVAL_MS || '', 10) || undefined;
+        const engine = getAlertEngine();
+        const monitor = new AlertMonitor(engine, getRepositories().tweets, getVelocityService(), intervalMs);
+
+        engine.onTrigger((trigger) => broadcastSpikeAlert(spikeAlertPayload(trigger)));
+        getIngestionScheduler().onIngest(() => monitor.notifyIngest());
+        globalForMonitor.alertMonitor = monitor;
+    }
+    return globalForMonitor.alertMonitor;
+}
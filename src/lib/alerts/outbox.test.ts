@@ -0,0 +1,95 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type { AlertAction, AlertNotification } from '../db/schema';
+import { MemoryAlertDeliveryRepository } from '../db/memory-repository';
+import { DEFAULT_MOCK_WEBHOOK_SECRET, createMockAlertReceiver, type MockFailure } from '../mock/alert-receiver';
+import { NotificationOutbox } from './outbox';
+
+const receiver = createMockAlertReceiver();
+let baseUrl = '';
+
+before(async () => {
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    baseUrl = `http://localhost:${(receiver.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    receiver.close();
+});
+
+const ALERT = { id: 'alert_1', name: 'Test alert' };
+const PAYLOAD: AlertNotification = { type: 'test', details: 'Outbox test', items: [], timestamp: new Date() };
+
+// A separate path per test, so rate-limit blocks from one don't reach another
+function webhook(path: string): AlertAction {
+    return { type: 'webhook', webhookUrl: `${baseUrl}/webhook/${path}`, secret: DEFAULT_MOCK_WEBHOOK_SECRET };
+}
+
+async function failNext(failure: Omit<MockFailure, 'count'> & { count?: number }): Promise<void> {
+    const response = await fetch(`${baseUrl}/__mock/failures`, { method: 'POST', body: JSON.stringify(failure) });
+    assert.equal(response.status, 201);
+}
+
+function later(): Date {
+    return new Date(Date.now() + 60 * 60_000);
+}
+
+test('a failed delivery is retried and then delivered', async () => {
+    const deliveries = new MemoryAlertDeliveryRepository();
+    const outbox = new NotificationOutbox(deliveries, { baseDelayMs: 1000 });
+
+    await failNext({ status: 500 });
+    const first = await outbox.enqueue(webhook('retry'), ALERT, PAYLOAD);
+    assert.equal(first.status, 'pending');
+    assert.equal(first.attempts, 1);
+    assert.equal(first.lastStatus, 500);
+    assert.ok(first.nextAttemptAt && first.nextAttemptAt > first.lastAttemptAt!);
+
+    assert.equal(await outbox.drain(later()), 1);
+    const settled = await deliveries.get(first.id);
+    assert.equal(settled?.status, 'delivered');
+    assert.equal(settled?.attempts, 2);
+});
+
+test('a delivery is dead-lettered once its attempts run out', async () => {
+    const deliveries = new MemoryAlertDeliveryRepository();
+    const outbox = new NotificationOutbox(deliveries, { maxAttempts: 2, baseDelayMs: 1000 });
+
+    await failNext({ status: 503, count: 2 });
+    const first = await outbox.enqueue(webhook('exhausted'), ALERT, PAYLOAD);
+    assert.equal(first.status, 'pending');
+
+    await outbox.drain(later());
+    const dead = await deliveries.get(first.id);
+    assert.equal(dead?.status, 'dead');
+    assert.equal(dead?.attempts, 2);
+    assert.equal(dead?.nextAttemptAt, undefined);
+    assert.deepEqual((await deliveries.list({ status: 'dead' })).map((d) => d.id), [first.id]);
+});
+
+test('a permanent failure is dead-lettered on the first attempt', async () => {
+    const outbox = new NotificationOutbox(new MemoryAlertDeliveryRepository());
+
+    await failNext({ status: 404 });
+    const delivery = await outbox.enqueue(webhook('gone'), ALERT, PAYLOAD);
+    assert.equal(delivery.status, 'dead');
+    assert.equal(delivery.attempts, 1);
+});
+
+test('retry_after is honoured and holds back other deliveries to the same target', async () => {
+    const outbox = new NotificationOutbox(new MemoryAlertDeliveryRepository());
+
+    await failNext({ status: 429, retryAfter: 7 });
+    const limited = await outbox.enqueue(webhook('limited'), ALERT, PAYLOAD);
+    assert.equal(limited.status, 'pending');
+    assert.equal(limited.nextAttemptAt!.getTime() - limited.lastAttemptAt!.getTime(), 7000);
+
+    // Deferred to the same moment without spending an attempt
+    const held = await outbox.enqueue(webhook('limited'), ALERT, PAYLOAD);
+    assert.equal(held.attempts, 0);
+    assert.equal(held.nextAttemptAt!.getTime(), limited.nextAttemptAt!.getTime());
+
+    const other = await outbox.enqueue(webhook('unaffected'), ALERT, PAYLOAD);
+    assert.equal(other.status, 'delivered');
+});
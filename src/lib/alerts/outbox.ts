@@ -0,0 +1,233 @@
+// Notification Outbox
+// Every alert action is persisted as a delivery before it's sent, then retried with exponential
+// backoff – or after the receiver's retry_after – until it succeeds or lands in the dead-letter list.
+// Email actions in digest mode wait for the end of their hour or day and go out as one message.
+
+import type { Alert, AlertAction, AlertDelivery, AlertNotification } from '../db/schema';
+import type { AlertDeliveryQuery, AlertDeliveryRepository } from '../db/repository';
+import { getRepositories } from '../db';
+import { deliverDigest, deliverNotification, type DeliveryResult } from './channels';
+import { digestDueAt } from './email';
+
+export interface OutboxOptions {
+    // Including the first try
+    maxAttempts?: number;
+    // Delay after the first failure; doubles with every attempt up to maxDelayMs
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    // How often due retries are picked up
+    pollIntervalMs?: number;
+}
+
+export interface EnqueueOptions {
+    triggerId?: string;
+    // Overrides OutboxOptions.maxAttempts – 1 sends once and dead-letters on failure
+    maxAttempts?: number;
+    // Send right away even if the action collects a digest – for test-fires
+    immediate?: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<OutboxOptions> = {
+    maxAttempts: 6,
+    baseDelayMs: 30_000,
+    maxDelayMs: 30 * 60_000,
+    pollIntervalMs: 15_000,
+};
+
+// Retries are spread ±20% so deliveries that failed together don't retry in lockstep
+const JITTER = 0.2;
+const DRAIN_BATCH = 50;
+
+// Deliveries to the same webhook, chat or address share a rate limit
+function targetOf(action: AlertAction): string {
+    return `${action.type}:${action.webhookUrl ?? action.chatId ?? action.email ?? ''}`;
+}
+
+function isDigest(delivery: AlertDelivery): boolean {
+    return delivery.action.type === 'email' && !!delivery.action.digest;
+}
+
+export class NotificationOutbox {
+    private deliveries: AlertDeliveryRepository;
+    private options: Required<OutboxOptions>;
+    private timer: NodeJS.Timeout | null = null;
+    private draining: Promise<number> | null = null;
+    private inFlight = new Set<string>();
+    // Target → when its retry_after runs out
+    private blockedUntil = new Map<string, number>();
+
+    constructor(deliveries: AlertDeliveryRepository, options: OutboxOptions = {}) {
+        this.deliveries = deliveries;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    // Persists the delivery, then makes the first attempt right away – or, for a digest, leaves it
+    // pending until the digest is due
+    async enqueue(
+        action: AlertAction,
+        alert: Pick<Alert, 'id' | 'name'>,
+        payload: AlertNotification,
+        options: EnqueueOptions = {}
+    ): Promise<AlertDelivery> {
+        const now = new Date();
+        const delivery: AlertDelivery = {
+            id: `delivery_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+            triggerId: options.triggerId,
+            alertId: alert.id,
+            alertName: alert.name,
+            action,
+            payload,
+            status: 'pending',
+            attempts: 0,
+            maxAttempts: Math.max(1, options.maxAttempts ?? this.options.maxAttempts),
+            createdAt: now,
+            nextAttemptAt: now,
+        };
+
+        if (action.type === 'email' && action.digest && !options.immediate) {
+            delivery.nextAttemptAt = digestDueAt(now, action.digest);
+            await this.deliveries.save(delivery);
+            return delivery;
+        }
+        await this.deliveries.save(delivery);
+        return this.attempt(delivery);
+    }
+
+    // Puts a dead-lettered delivery back in the queue with a fresh set of attempts. A digest entry
+    // is resent on its own.
+    async replay(delivery: AlertDelivery): Promise<AlertDelivery> {
+        const queued: AlertDelivery = { ...delivery, status: 'pending', attempts: 0, nextAttemptAt: new Date() };
+        await this.deliveries.save(queued);
+        return this.attempt(queued);
+    }
+
+    get(id: string): Promise<AlertDelivery | null> {
+        return this.deliveries.get(id);
+    }
+
+    list(query: AlertDeliveryQuery = {}): Promise<AlertDelivery[]> {
+        return this.deliveries.list(query);
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.drainQuietly(), this.options.pollIntervalMs);
+        this.timer.unref?.();
+        // Picks up retries that were pending when the process last stopped
+        this.drainQuietly();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // Attempts every delivery that's due and returns how many were tried. Concurrent callers share
+    // the pass in progress.
+    drain(now: Date = new Date()): Promise<number> {
+        this.draining ??= this.drainDue(now).finally(() => {
+            this.draining = null;
+        });
+        return this.draining;
+    }
+
+    private drainQuietly(): void {
+        this.drain().catch((error) => {
+            console.error('[Outbox] Retry pass failed:', error instanceof Error ? error.message : error);
+        });
+    }
+
+    private async drainDue(now: Date): Promise<number> {
+        const due = await this.deliveries.due(now, DRAIN_BATCH);
+        const digests = new Map<string, AlertDelivery[]>();
+        for (const delivery of due) {
+            if (!isDigest(delivery)) {
+                await this.attempt(delivery);
+                continue;
+            }
+            const key = `${delivery.alertId}:${delivery.action.email}:${delivery.action.digest}`;
+            digests.set(key, [...(digests.get(key) ?? []), delivery]);
+        }
+        for (const batch of digests.values()) await this.attemptBatch(batch, () => deliverDigest(batch));
+        return due.length;
+    }
+
+    // Backoff for the attempt after `attempts` failures, unless the receiver said how long to wait
+    retryDelay(attempts: number, retryAfterMs?: number): number {
+        if (retryAfterMs !== undefined) return retryAfterMs;
+        const delay = Math.min(this.options.baseDelayMs * 2 ** Math.max(0, attempts - 1), this.options.maxDelayMs);
+        return Math.round(delay * (1 - JITTER + Math.random() * 2 * JITTER));
+    }
+
+    private async attempt(delivery: AlertDelivery): Promise<AlertDelivery> {
+        const [updated] = await this.attemptBatch([delivery], () => deliverNotification(delivery));
+        return updated ?? delivery;
+    }
+
+    // Sends once for the whole batch – one delivery, or a digest's worth to the same address – and
+    // settles every delivery in it with the result
+    private async attemptBatch(batch: AlertDelivery[], send: () => Promise<DeliveryResult>): Promise<AlertDelivery[]> {
+        if (batch.some((d) => this.inFlight.has(d.id))) return [];
+
+        // Another delivery to this target was rate limited – wait it out without using an attempt
+        const target = targetOf(batch[0].action);
+        const blocked = this.blockedUntil.get(target) ?? 0;
+        if (blocked > Date.now()) {
+            const deferred = batch.map((d) => ({ ...d, nextAttemptAt: new Date(blocked) }));
+            for (const delivery of deferred) await this.deliveries.save(delivery);
+            return deferred;
+        }
+        // Expired – dropped so the map only holds targets that are still rate limited
+        this.blockedUntil.delete(target);
+
+        for (const delivery of batch) this.inFlight.add(delivery.id);
+        try {
+            const at = new Date();
+            const result: DeliveryResult = await send()
+                .catch((error: unknown) => ({ ok: false, error: error instanceof Error ? error.message : String(error) }));
+            // Retried together, so a digest stays one message
+            const delay = result.ok ? 0 : this.retryDelay(Math.max(...batch.map((d) => d.attempts + 1)), result.retryAfterMs);
+            if (!result.ok && result.retryAfterMs !== undefined) this.blockedUntil.set(target, at.getTime() + delay);
+
+            const settled = batch.map((delivery): AlertDelivery => {
+                const attempts = delivery.attempts + 1;
+                const updated: AlertDelivery = {
+                    ...delivery,
+                    attempts,
+                    lastAttemptAt: at,
+                    lastStatus: result.status,
+                    lastError: result.ok ? undefined : result.error,
+                };
+                if (result.ok) {
+                    updated.status = 'delivered';
+                    updated.deliveredAt = at;
+                    updated.nextAttemptAt = undefined;
+                } else if (result.permanent || attempts >= delivery.maxAttempts) {
+                    updated.status = 'dead';
+                    updated.nextAttemptAt = undefined;
+                } else {
+                    updated.nextAttemptAt = new Date(at.getTime() + delay);
+                }
+                return updated;
+            });
+
+            for (const updated of settled) await this.deliveries.save(updated);
+            const dead = settled.filter((d) => d.status === 'dead');
+            if (dead.length) {
+                const count = dead.length > 1 ? ` (${dead.length} deliveries)` : '';
+                console.warn(`[Outbox] ${dead[0].action.type} for "${dead[0].alertName}" dead-lettered${count}: ${dead[0].lastError}`);
+            }
+            return settled;
+        } finally {
+            for (const delivery of batch) this.inFlight.delete(delivery.id);
+        }
+    }
+}
+
+// On globalThis so the engine, route handlers and the instrumentation hook share one outbox
+const globalForOutbox = globalThis as unknown as { notificationOutbox?: NotificationOutbox };
+
+export function getNotificationOutbox(): NotificationOutbox {
+    globalForOutbox.notificationOutbox ??= new NotificationOutbox(getRepositories().deliveries);
+    return globalForOutbox.notificationOutbox;
+}
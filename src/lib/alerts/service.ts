@@ -0,0 +1,449 @@
+// Alert Service
+// Validated create / update / delete for alert definitions, test-firing and trigger history – the
+// logic behind /api/alerts. Definitions live in the alerts repository, where the monitor reads them.
+
+import {
+    ALERT_ACTION_TYPES,
+    ALERT_CONDITION_TYPES,
+    TWEET_CATEGORIES,
+    type Alert,
+    type AlertAction,
+    type AlertCondition,
+    type AlertConditionGroup,
+    type AlertConditionNode,
+    type AlertDelivery,
+    type AlertDeliverySummary,
+    type AlertHistoryEntry,
+    type AlertThrottle,
+    type AlertTrigger,
+    type EmailDigest,
+} from '../db/schema';
+import type { AlertDeliveryQuery, AlertRepository, AlertTriggerQuery, AlertTriggerRepository } from '../db/repository';
+import { getRepositories } from '../db';
+import { VELOCITY_DIMENSIONS, isVelocityDimension } from '../velocity/series';
+import { SEASON_MS, getDetector, listDetectors } from './detectors';
+import { CONDITION_GROUP_OPS, conditionLeaves, normalizeConditions } from './conditions';
+import { DEDUPE_OPTIONS } from './throttle';
+import { EMAIL_DIGESTS, WEBHOOK_SECRET_MIN_LENGTH, isRedacted, redactAction, redactCredential } from './actions';
+import { deliverNotification, type DeliveryResult } from './channels';
+import { buildTrigger, getAlertEngine, matchAlert, triggerAlert, type AlertEngine } from './engine';
+import { getAlertMonitor, type AlertMonitor } from './monitor';
+import { getNotificationOutbox, type NotificationOutbox } from './outbox';
+
+export class AlertServiceError extends Error {
+    code: 'invalid' | 'not_found' | 'conflict';
+
+    constructor(code: AlertServiceError['code'], message: string) {
+        super(message);
+        this.name = 'AlertServiceError';
+        this.code = code;
+    }
+}
+
+const ERROR_STATUS: Record<AlertServiceError['code'], number> = {
+    invalid: 400,
+    not_found: 404,
+    conflict: 409,
+};
+
+// Maps service errors to HTTP responses for the /api/alerts routes
+export function alertErrorStatus(error: unknown): { status: number; message: string } {
+    if (error instanceof AlertServiceError) return { status: ERROR_STATUS[error.code], message: error.message };
+    if (error instanceof SyntaxError) return { status: 400, message: 'Request body must be JSON' };
+    return { status: 500, message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+export interface TestFireResult {
+    // Whether the conditions hold right now; test-fires deliver either way
+    matched: boolean;
+    delivered: boolean;
+    // Not recorded in the history and doesn't count towards cooldowns
+    trigger: AlertTrigger;
+    // One per action; failures aren't retried but land in the dead-letter list
+    deliveries: AlertDeliverySummary[];
+}
+
+function summarize(delivery: AlertDelivery): AlertDeliverySummary {
+    const status: Partial<AlertDelivery> = { ...delivery, action: redactAction(delivery.action) };
+    delete status.payload;
+    return status as AlertDeliverySummary;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_CONDITION_DEPTH = 5;
+const MAX_WINDOW_MINUTES = 24 * 60;
+
+// ============================================
+// Validation
+// ============================================
+
+function invalid(message: string): never {
+    throw new AlertServiceError('invalid', message);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringList(value: unknown, field: string): string[] {
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) invalid(`${field} must be an array of strings`);
+    return [...new Set((value as string[]).map((v) => v.trim()).filter(Boolean))];
+}
+
+function nonNegative(value: unknown, field: string): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) invalid(`${field} must be a non-negative number`);
+    return value;
+}
+
+function validateCondition(value: Record<string, unknown>, path: string): AlertCondition {
+    const type = value.type as AlertCondition['type'];
+    if (!ALERT_CONDITION_TYPES.includes(type)) {
+        invalid(`${path}.type must be one of ${ALERT_CONDITION_TYPES.join(', ')}`);
+    }
+    const condition: AlertCondition = { type };
+
+    if (value.threshold !== undefined) condition.threshold = nonNegative(value.threshold, `${path}.threshold`);
+    if (value.windowMinutes !== undefined) {
+        const minutes = nonNegative(value.windowMinutes, `${path}.windowMinutes`);
+        if (minutes === 0 || minutes > MAX_WINDOW_MINUTES) invalid(`${path}.windowMinutes must be between 1 and ${MAX_WINDOW_MINUTES}`);
+        condition.windowMinutes = minutes;
+    }
+
+    switch (type) {
+        case 'keyword_match':
+            condition.keywords = stringList(value.keywords ?? [], `${path}.keywords`);
+            if (!condition.keywords.length) invalid(`${path}.keywords must list at least one keyword`);
+            break;
+
+        case 'category_match': {
+            const categories = stringList(value.categories ?? [], `${path}.categories`);
+            const unknown = categories.filter((c) => !(TWEET_CATEGORIES as string[]).includes(c));
+            if (unknown.length) invalid(`${path}.categories: unknown ${unknown.join(', ')}`);
+            if (!categories.length) invalid(`${path}.categories must list at least one category`);
+            condition.categories = categories as AlertCondition['categories'];
+            break;
+        }
+
+        case 'velocity_spike': {
+            if (value.series !== undefined) {
+                if (!isObject(value.series) || typeof value.series.by !== 'string' || !isVelocityDimension(value.series.by)) {
+                    invalid(`${path}.series.by must be one of ${VELOCITY_DIMENSIONS.join(', ')}`);
+                }
+                const key = value.series.key;
+                if (key !== undefined && (typeof key !== 'string' || !key.trim())) invalid(`${path}.series.key must be a string`);
+                condition.series = { by: value.series.by, ...(key ? { key: (key as string).trim() } : {}) };
+            }
+            if (value.detector !== undefined) {
+                if (typeof value.detector !== 'string' || !getDetector(value.detector)) {
+                    invalid(`${path}.detector must be one of ${listDetectors().map((d) => d.name).join(', ')}`);
+                }
+                condition.detector = value.detector;
+            }
+            if (value.season !== undefined) {
+                if (typeof value.season !== 'string' || !Object.prototype.hasOwnProperty.call(SEASON_MS, value.season)) {
+                    invalid(`${path}.season must be one of ${Object.keys(SEASON_MS).join(', ')}`);
+                }
+                condition.season = value.season as AlertCondition['season'];
+            }
+            // The threshold's unit is the detector's: percent for `mean`, standard deviations otherwise
+            const detector = getDetector(condition.detector)!;
+            if (condition.threshold !== undefined && detector.maxThreshold !== undefined && condition.threshold > detector.maxThreshold) {
+                invalid(`${path}.threshold must be at most ${detector.maxThreshold} (standard deviations) for the ${detector.name} detector`);
+            }
+            break;
+        }
+    }
+
+    return condition;
+}
+
+function validateNode(value: unknown, path: string, depth: number): AlertConditionNode {
+    if (!isObject(value)) invalid(`${path} must be a condition or a group`);
+    if (!('op' in value)) return validateCondition(value, path);
+
+    if (depth >= MAX_CONDITION_DEPTH) invalid(`Condition groups may nest at most ${MAX_CONDITION_DEPTH} deep`);
+    if (!CONDITION_GROUP_OPS.includes(value.op as AlertConditionGroup['op'])) {
+        invalid(`${path}.op must be one of ${CONDITION_GROUP_OPS.join(', ')}`);
+    }
+    if (!Array.isArray(value.conditions)) invalid(`${path}.conditions must be an array`);
+    return {
+        op: value.op as AlertConditionGroup['op'],
+        conditions: value.conditions.map((child, i) => validateNode(child, `${path}.conditions[${i}]`, depth + 1)),
+    };
+}
+
+export function validateConditions(value: unknown): AlertConditionGroup {
+    if (!Array.isArray(value) && !isObject(value)) invalid('conditions must be a condition group or an array of conditions');
+
+    const root = validateNode(normalizeConditions(value), 'conditions', 0) as AlertConditionGroup;
+    if (root.op === 'not') invalid('conditions: the root group must be "all" or "any"');
+    if (!conditionLeaves(root).length) invalid('conditions must contain at least one condition');
+    return root;
+}
+
+function httpUrl(value: unknown, field: string): string {
+    let url: URL;
+    try {
+        url = new URL(String(value ?? ''));
+    } catch {
+        invalid(`${field} must be an absolute URL`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') invalid(`${field} must use http or https`);
+    return url.toString();
+}
+
+function trimmed(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : '';
+}
+
+export function validateAction(action: unknown, path: string = 'action'): AlertAction {
+    if (!isObject(action) || !ALERT_ACTION_TYPES.includes(action.type as AlertAction['type'])) {
+        invalid(`${path}.type must be one of ${ALERT_ACTION_TYPES.join(', ')}`);
+    }
+
+    switch (action.type as AlertAction['type']) {
+        case 'discord_webhook':
+        case 'slack_webhook':
+            return { type: action.type as AlertAction['type'], webhookUrl: httpUrl(action.webhookUrl, `${path}.webhookUrl`) };
+        case 'telegram': {
+            const botToken = trimmed(action.botToken);
+            const chatId = typeof action.chatId === 'number' ? String(action.chatId) : trimmed(action.chatId);
+            if (!/^\d+:[\w-]+$/.test(botToken)) invalid(`${path}.botToken must be a bot token like 123456:ABC-DEF…`);
+            if (!/^(-?\d+|@\w{5,})$/.test(chatId)) invalid(`${path}.chatId must be a numeric chat id or @channelname`);
+            return { type: 'telegram', botToken, chatId };
+        }
+        case 'webhook': {
+            const secret = trimmed(action.secret);
+            // A mask that matched no stored secret (see restoreCredentials)
+            if (isRedacted(secret)) invalid(`${path}.secret is masked and matches no saved secret – send the full value`);
+            if (secret.length < WEBHOOK_SECRET_MIN_LENGTH) {
+                invalid(`${path}.secret must be at least ${WEBHOOK_SECRET_MIN_LENGTH} characters`);
+            }
+            return { type: 'webhook', webhookUrl: httpUrl(action.webhookUrl, `${path}.webhookUrl`), secret };
+        }
+        case 'email': {
+            const email = trimmed(action.email);
+            if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) invalid(`${path}.email must be an email address`);
+            if (action.digest === undefined || action.digest === null || action.digest === '') return { type: 'email', email };
+            if (!EMAIL_DIGESTS.includes(action.digest as EmailDigest)) {
+                invalid(`${path}.digest must be one of ${EMAIL_DIGESTS.join(', ')}`);
+            }
+            return { type: 'email', email, digest: action.digest as EmailDigest };
+        }
+        default:
+            return { type: 'in_app_notification' };
+    }
+}
+
+// Swaps masked credentials sent back by a client (see redactAction) for the stored ones: an action
+// keeps its credential when the mask matches an existing action of the same type
+function restoreCredentials(value: unknown, existing: AlertAction[]): unknown {
+    if (!Array.isArray(value)) return value;
+    return value.map((action) => {
+        if (!isObject(action)) return action;
+        const restored = { ...action };
+        for (const field of ['botToken', 'secret'] as const) {
+            if (!isRedacted(action[field])) continue;
+            const stored = existing.find((a) => a.type === action.type && a[field] && redactCredential(a[field]) === action[field]);
+            if (stored) restored[field] = stored[field];
+        }
+        return restored;
+    });
+}
+
+export function validateActions(value: unknown): AlertAction[] {
+    if (!Array.isArray(value)) invalid('actions must be an array');
+    return value.map((action, i) => validateAction(action, `actions[${i}]`));
+}
+
+export function validateThrottle(value: unknown): Partial<AlertThrottle> | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!isObject(value)) invalid('throttle must be an object');
+
+    const throttle: Partial<AlertThrottle> = {};
+    if (value.cooldownMinutes !== undefined) throttle.cooldownMinutes = nonNegative(value.cooldownMinutes, 'throttle.cooldownMinutes');
+    if (value.clearMinutes !== undefined) throttle.clearMinutes = nonNegative(value.clearMinutes, 'throttle.clearMinutes');
+    if (value.rearm !== undefined) {
+        if (value.rearm !== 'cooldown' && value.rearm !== 'clear') invalid('throttle.rearm must be "cooldown" or "clear"');
+        throttle.rearm = value.rearm;
+    }
+    if (value.dedupeBy !== undefined) {
+        if (!DEDUPE_OPTIONS.includes(value.dedupeBy as AlertThrottle['dedupeBy'])) {
+            invalid(`throttle.dedupeBy must be one of ${DEDUPE_OPTIONS.join(', ')}`);
+        }
+        throttle.dedupeBy = value.dedupeBy as AlertThrottle['dedupeBy'];
+    }
+    return throttle;
+}
+
+// Applies `input` on top of `existing` (or a new alert) and validates the result. Server-managed
+// fields (createdAt, trigger stats) in the input are ignored.
+export function validateAlert(input: unknown, existing?: Alert): Alert {
+    if (!isObject(input)) invalid('Request body must be an alert object');
+    const merged = { ...existing, ...input } as Record<string, unknown>;
+
+    if (typeof merged.name !== 'string' || !merged.name.trim()) invalid('name is required');
+    if (merged.name.trim().length > MAX_NAME_LENGTH) invalid(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    if (merged.enabled !== undefined && typeof merged.enabled !== 'boolean') invalid('enabled must be a boolean');
+
+    const id = existing?.id ?? (merged.id === undefined ? `alert_${Date.now()}_${Math.random().toString(36).slice(2, 8)}` : merged.id);
+    if (typeof id !== 'string' || !/^[\w-]{1,64}$/.test(id)) invalid('id may only contain letters, digits, "_" and "-"');
+
+    return {
+        id,
+        name: merged.name.trim(),
+        enabled: merged.enabled !== false,
+        conditions: validateConditions(merged.conditions),
+        actions: validateActions(restoreCredentials(merged.actions, existing?.actions ?? []) ?? [{ type: 'in_app_notification' }]),
+        throttle: validateThrottle(merged.throttle),
+        createdAt: existing?.createdAt ?? new Date(),
+        lastTriggeredAt: existing?.lastTriggeredAt,
+        triggerCount: existing?.triggerCount ?? 0,
+    };
+}
+
+// What the API returns for an alert – credentials masked, see redactAction
+export function redactAlert(alert: Alert): Alert {
+    return { ...alert, actions: alert.actions.map(redactAction) };
+}
+
+// ============================================
+// Service
+// ============================================
+
+export class AlertService {
+    private alerts: AlertRepository;
+    private triggers: AlertTriggerRepository;
+    private engine: AlertEngine;
+    private monitor: AlertMonitor;
+    private outbox: NotificationOutbox;
+
+    constructor(
+        alerts: AlertRepository,
+        triggers: AlertTriggerRepository,
+        engine: AlertEngine,
+        monitor: AlertMonitor,
+        outbox: NotificationOutbox
+    ) {
+        this.alerts = alerts;
+        this.triggers = triggers;
+        this.engine = engine;
+        this.monitor = monitor;
+        this.outbox = outbox;
+    }
+
+    list(): Promise<Alert[]> {
+        return this.alerts.list();
+    }
+
+    async get(id: string): Promise<Alert> {
+        const alert = await this.alerts.get(id);
+        if (!alert) throw new AlertServiceError('not_found', `Alert "${id}" not found`);
+        return alert;
+    }
+
+    async create(input: unknown): Promise<Alert> {
+        const alert = validateAlert(input);
+        if (await this.alerts.get(alert.id)) throw new AlertServiceError('conflict', `Alert "${alert.id}" already exists`);
+        return this.alerts.save(alert);
+    }
+
+    // ids and trigger stats are immutable – validateAlert keeps them from `existing`
+    async update(id: string, patch: unknown): Promise<Alert> {
+        return this.alerts.save(validateAlert(patch, await this.get(id)));
+    }
+
+    async setEnabled(id: string, enabled: boolean): Promise<Alert> {
+        const alert = await this.get(id);
+        return alert.enabled === enabled ? alert : this.alerts.save({ ...alert, enabled });
+    }
+
+    async remove(id: string): Promise<Alert> {
+        const alert = await this.get(id);
+        await this.alerts.remove(id);
+        this.engine.forget(id);
+        return alert;
+    }
+
+    // Evaluates the alert against live data and runs its actions whether or not it matches,
+    // bypassing cooldowns. The result isn't recorded, so testing doesn't skew the history.
+    async testFire(id: string, now: Date = new Date()): Promise<TestFireResult> {
+        const alert = { ...(await this.get(id)), enabled: true };
+        const context = await this.monitor.buildContext([alert], now);
+        const match = matchAlert(alert, context);
+
+        const trigger = buildTrigger(alert, context, match, ['test'], now);
+        const delivered = await triggerAlert(alert, context, match, {
+            outbox: this.outbox,
+            triggerId: trigger.id,
+            maxAttempts: 1,
+            immediate: true,
+        });
+        const deliveries = await this.outbox.list({ triggerIds: [trigger.id] });
+        return { matched: match.matched, delivered, trigger, deliveries: deliveries.map(summarize) };
+    }
+
+    // Sends a sample notification through one action, e.g. one that's still being set up. Goes
+    // straight to the channel rather than through the outbox, so the result is the receiver's answer.
+    // With `alertId`, masked credentials (as GET returns them) resolve against that alert's actions.
+    async testAction(input: unknown, alertName?: string, alertId?: string): Promise<DeliveryResult> {
+        const alert = alertId === undefined ? null : await this.get(alertId);
+        const action = validateAction(alert ? (restoreCredentials([input], alert.actions) as unknown[])[0] : input);
+        alertName ??= alert?.name ?? 'Test alert';
+        const now = new Date();
+        return deliverNotification({
+            id: `test_${now.getTime()}`,
+            alertId: 'test',
+            alertName,
+            action,
+            payload: {
+                type: 'test',
+                details: 'Test notification from X News Crawler – this action is set up correctly.',
+                items: [],
+                timestamp: now,
+            },
+        });
+    }
+
+    // Includes triggers of deleted alerts, which keep their name in the history
+    async history(query: AlertTriggerQuery = {}): Promise<AlertHistoryEntry[]> {
+        const triggers = await this.triggers.list(query);
+        const deliveries = await this.outbox.list({ triggerIds: triggers.map((t) => t.id) });
+        return triggers.map((trigger) => ({
+            ...trigger,
+            deliveries: deliveries.filter((d) => d.triggerId === trigger.id).map(summarize).reverse(),
+        }));
+    }
+
+    // Newest first; `status: 'dead'` is the dead-letter list
+    async deliveries(query: AlertDeliveryQuery = {}): Promise<AlertDeliverySummary[]> {
+        return (await this.outbox.list(query)).map(summarize);
+    }
+
+    // Re-sends a dead-lettered delivery with a fresh set of attempts
+    async replay(deliveryId: string): Promise<AlertDeliverySummary> {
+        const delivery = await this.outbox.get(deliveryId);
+        if (!delivery) throw new AlertServiceError('not_found', `Delivery "${deliveryId}" not found`);
+        if (delivery.status !== 'dead') {
+            throw new AlertServiceError('conflict', `Delivery "${deliveryId}" is ${delivery.status}, not dead-lettered`);
+        }
+        return summarize(await this.outbox.replay(delivery));
+    }
+}
+
+// On globalThis so every route handler shares one service
+const globalForService = globalThis as unknown as { alertService?: AlertService };
+
+export function getAlertService(): AlertService {
+    if (!globalForService.alertService) {
+        const repositories = getRepositories();
+        globalForService.alertService = new AlertService(
+            repositories.alerts,
+            repositories.triggers,
+            getAlertEngine(),
+            getAlertMonitor(),
+            getNotificationOutbox()
+        );
+    }
+    return globalForService.alertService;
+}
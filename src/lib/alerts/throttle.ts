@@ -0,0 +1,129 @@
+// Alert Throttling
+// Cooldowns, re-arm rules and dedupe keys, so an alert fires once per event rather than on every
+// check while its conditions hold. Pure – the CreateAlertModal reads the defaults from here.
+
+import type { Alert, AlertThrottle, AlertTrigger, Tweet } from '../db/schema';
+import { conditionLeaves, normalizeConditions, type ConditionMatch } from './conditions';
+
+export const DEFAULT_ALERT_THROTTLE: AlertThrottle = {
+    cooldownMinutes: 15,
+    rearm: 'cooldown',
+    clearMinutes: 5,
+    dedupeBy: 'alert',
+};
+
+export const DEDUPE_OPTIONS: AlertThrottle['dedupeBy'][] = ['alert', 'keyword', 'story', 'item'];
+
+export function resolveThrottle(alert: Pick<Alert, 'throttle'>): AlertThrottle {
+    return { ...DEFAULT_ALERT_THROTTLE, ...alert.throttle };
+}
+
+// Used when the match carries nothing to key on (e.g. a velocity spike without items)
+const ALERT_KEY = 'alert';
+
+// Dedupe key → the matched items behind it, e.g. `story:abc` → the items in that story
+export function dedupeKeys(alert: Alert, match: ConditionMatch, by: AlertThrottle['dedupeBy']): Map<string, Tweet[]> {
+    const keys = new Map<string, Tweet[]>();
+    const add = (key: string, tweet: Tweet) => keys.set(key, [...(keys.get(key) ?? []), tweet]);
+
+    switch (by) {
+        case 'keyword': {
+            const keywords = conditionLeaves(normalizeConditions(alert.conditions))
+                .filter((c) => c.type === 'keyword_match')
+                .flatMap((c) => c.keywords ?? [])
+                .map((k) => k.toLowerCase());
+            for (const tweet of match.tweets) {
+                const text = tweet.text.toLowerCase();
+                for (const keyword of new Set(keywords)) {
+                    if (text.includes(keyword)) add(`keyword:${keyword}`, tweet);
+                }
+            }
+            break;
+        }
+        case 'story':
+            match.tweets.forEach((t) => add(`story:${t.storyId ?? t.id}`, t));
+            break;
+        case 'item':
+            match.tweets.forEach((t) => add(`item:${t.id}`, t));
+            break;
+    }
+
+    if (!keys.size) keys.set(ALERT_KEY, match.tweets);
+    return keys;
+}
+
+interface KeyState {
+    firedAt: number;
+    // Last evaluation that matched this key – drives the 'clear' re-arm rule
+    lastSeen: number;
+}
+
+// Remembers what each alert fired on. A key is suppressed while it's within its cooldown and,
+// with rearm 'clear', until it has been absent from the matches for clearMinutes.
+export class AlertThrottler {
+    private state = new Map<string, Map<string, KeyState>>();
+
+    // Narrows a match down to the keys that may fire now; `keys` is empty when all are suppressed.
+    // Call on every matching evaluation, even when the result isn't fired.
+    check(alert: Alert, match: ConditionMatch, now: Date = new Date()): { keys: string[]; match: ConditionMatch } {
+        const throttle = resolveThrottle(alert);
+        const time = now.getTime();
+        const keys = this.prune(alert.id, throttle, time);
+
+        const fresh: string[] = [];
+        const tweets = new Map<string, Tweet>();
+        for (const [key, items] of dedupeKeys(alert, match, throttle.dedupeBy)) {
+            const previous = keys.get(key);
+            const cooling = previous && time - previous.firedAt < throttle.cooldownMinutes * 60_000;
+            const active = previous && throttle.rearm === 'clear' && time - previous.lastSeen < throttle.clearMinutes * 60_000;
+            if (previous) previous.lastSeen = time;
+            if (cooling || active) continue;
+
+            fresh.push(key);
+            items.forEach((t) => tweets.set(t.id, t));
+        }
+
+        return { keys: fresh, match: { ...match, tweets: match.tweets.filter((t) => tweets.has(t.id)) } };
+    }
+
+    record(alertId: string, keys: string[], at: Date = new Date()): void {
+        const state = this.keysOf(alertId);
+        for (const key of keys) state.set(key, { firedAt: at.getTime(), lastSeen: at.getTime() });
+    }
+
+    // Restores cooldowns from trigger history after a restart. Keys that already fired since are
+    // left alone, so seeding again (e.g. on every reload) doesn't rewind their state.
+    seed(triggers: AlertTrigger[]): void {
+        for (const trigger of triggers) {
+            const at = new Date(trigger.triggeredAt).getTime();
+            const state = this.keysOf(trigger.alertId);
+            for (const key of trigger.dedupeKeys) {
+                if ((state.get(key)?.firedAt ?? -Infinity) < at) state.set(key, { firedAt: at, lastSeen: at });
+            }
+        }
+    }
+
+    forget(alertId: string): void {
+        this.state.delete(alertId);
+    }
+
+    private keysOf(alertId: string): Map<string, KeyState> {
+        let keys = this.state.get(alertId);
+        if (!keys) {
+            keys = new Map();
+            this.state.set(alertId, keys);
+        }
+        return keys;
+    }
+
+    // Drops keys that can no longer suppress anything, so item and story keys don't pile up
+    private prune(alertId: string, throttle: AlertThrottle, time: number): Map<string, KeyState> {
+        const keys = this.keysOf(alertId);
+        const cooldown = throttle.cooldownMinutes * 60_000;
+        const clear = throttle.rearm === 'clear' ? throttle.clearMinutes * 60_000 : 0;
+        for (const [key, state] of keys) {
+            if (time - state.firedAt >= cooldown && time - state.lastSeen >= clear) keys.delete(key);
+        }
+        return keys;
+    }
+}
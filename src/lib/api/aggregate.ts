@@ -0,0 +1,95 @@
+// Multi-source aggregation
+// Fans out to RSS, NewsAPI and the X API in parallel, then merges, dedupes and ranks
+
+import type { Tweet } from '../db/schema';
+import { fetchAllRssFeeds, filterFeedItems, type FeedSource } from './rss-feeds';
+import { isNewsApiConfigured, fetchNewsArticles, transformArticleToTweet } from './news-api';
+import { getXApiClient, transformXApiTweet, isXApiConfigured } from './x-api';
+import { mergeTweets, rankTweets } from './ranking';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export type AggregateSourceId = 'rss' | 'newsapi' | 'x_api';
+
+export interface SourceReport {
+    count: number;
+    configured: boolean;
+    errors?: string[];
+}
+
+export interface AggregateOptions {
+    query: string;
+    max: number;
+    rssFeeds: FeedSource[];
+    keywords?: string[];
+    // Feeds bound to the requested topic skip the keyword filter
+    pinnedFeedIds?: string[];
+}
+
+export interface AggregateResult {
+    tweets: Tweet[];
+    sources: Record<AggregateSourceId, SourceReport>;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Fan-out
+// ──────────────────────────────────────────────────────────────────────────────
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export async function aggregateSources(options: AggregateOptions): Promise<AggregateResult> {
+    const { query, max, rssFeeds, keywords = [], pinnedFeedIds = [] } = options;
+
+    const rssTask = fetchAllRssFeeds(rssFeeds, Math.ceil(max / Math.max(rssFeeds.length, 1)) + 5);
+
+    const newsTask = isNewsApiConfigured()
+        ? fetchNewsArticles(query, { pageSize: max }).then((response) => {
+            if (response.status !== 'ok') throw new Error(`NewsAPI status: ${response.status}`);
+            return response.articles.map((a) => transformArticleToTweet(a));
+        })
+        : Promise.resolve<Tweet[]>([]);
+
+    const xTask = isXApiConfigured()
+        ? getXApiClient()!.searchRecentTweets(query, max).then((response) => {
+            const users = response.includes?.users ?? [];
+            return (response.data ?? []).map((t): Tweet => transformXApiTweet(t, users, response.includes?.media));
+        })
+        : Promise.resolve<Tweet[]>([]);
+
+    const [rss, news, x] = await Promise.allSettled([rssTask, newsTask, xTask]);
+
+    const rssTweets = rss.status === 'fulfilled'
+        ? filterFeedItems(rss.value.tweets, keywords, pinnedFeedIds)
+        : [];
+    const newsTweets = news.status === 'fulfilled' ? news.value : [];
+    const xTweets = x.status === 'fulfilled' ? x.value : [];
+
+    const rssErrors = rss.status === 'fulfilled' ? rss.value.errors : [errorMessage(rss.reason)];
+
+    const sources: AggregateResult['sources'] = {
+        rss: {
+            count: rssTweets.length,
+            configured: true,
+            errors: rssErrors.length ? rssErrors : undefined,
+        },
+        newsapi: {
+            count: newsTweets.length,
+            configured: isNewsApiConfigured(),
+            errors: news.status === 'rejected' ? [errorMessage(news.reason)] : undefined,
+        },
+        x_api: {
+            count: xTweets.length,
+            configured: isXApiConfigured(),
+            errors: x.status === 'rejected' ? [errorMessage(x.reason)] : undefined,
+        },
+    };
+
+    // X first so that native posts win over the same headline re-published by an outlet
+    const tweets = rankTweets(mergeTweets([xTweets, rssTweets, newsTweets])).slice(0, max);
+
+    return { tweets, sources };
+}
@@ -0,0 +1,133 @@
+// Canonical URLs and deterministic item ids
+// The same article must get the same id on every poll and from every source,
+// so ids are hashes of the normalised URL (or the feed guid when there is no link)
+
+import { createHash } from 'crypto';
+
+// ──────────────────────────────────────────────────────────────────────────────
+// URL normalisation
+// ──────────────────────────────────────────────────────────────────────────────
+
+const TRACKING_PARAMS = new Set([
+    'fbclid',
+    'gclid',
+    'dclid',
+    'msclkid',
+    'mc_cid',
+    'mc_eid',
+    'igshid',
+    'ref',
+    'ref_src',
+    'ref_url',
+    'cmpid',
+    'ocid',
+    'smid',
+    'cid',
+    '_ga',
+    '_gl',
+    'yclid',
+    'twclid',
+    'guccounter',
+    'amp',
+    'outputtype',
+]);
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+// Google AMP cache: https://www-example-com.cdn.ampproject.org/c/s/www.example.com/path
+function unwrapAmpCache(url: URL): URL {
+    if (!url.hostname.endsWith('.cdn.ampproject.org')) return url;
+
+    const match = url.pathname.match(/^\/[a-z]\/(s\/)?(.+)$/);
+    if (!match) return url;
+
+    try {
+        return new URL(`${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`);
+    } catch {
+        return url;
+    }
+}
+
+function stripAmpPath(pathname: string): string {
+    return pathname
+        .replace(/\/amp(\/|$)/i, '/')      // /amp/slug, /slug/amp
+        .replace(/\.amp(\.html?)$/i, '$1') // slug.amp.html
+        .replace(/\.amp$/i, '');           // slug.amp
+}
+
+// Returns a canonical form of an article URL, or null if it isn't an http(s) URL
+export function normalizeUrl(raw: string | null | undefined): string | null {
+    if (!raw) return null;
+
+    let url: URL;
+    try {
+        url = unwrapAmpCache(new URL(raw.trim()));
+    } catch {
+        return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+    const host = url.hostname.toLowerCase().replace(/^(www|amp|m)\./, '');
+
+    const params = [...url.searchParams.entries()]
+        .filter(([name]) => !isTrackingParam(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+
+    let pathname = stripAmpPath(url.pathname).replace(/\/{2,}/g, '/');
+    if (pathname.length > 1) pathname = pathname.replace(/\/+$/, '');
+
+    // Scheme, port and fragment are not part of an article's identity
+    return `https://${host}${pathname}${query}`;
+}
+
+// Lighter than normalizeUrl – drops tracking params, fragments and the AMP cache wrapper
+// but keeps host and scheme, so the result is still safe to link to
+export function cleanUrl(raw: string | null | undefined): string | undefined {
+    if (!raw) return undefined;
+
+    let url: URL;
+    try {
+        url = unwrapAmpCache(new URL(raw.trim()));
+    } catch {
+        return undefined;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined;
+
+    for (const name of [...url.searchParams.keys()]) {
+        if (isTrackingParam(name)) url.searchParams.delete(name);
+    }
+    url.hash = '';
+    return url.toString();
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Deterministic ids
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function hashKey(value: string): string {
+    return createHash('sha1').update(value).digest('hex').slice(0, 16);
+}
+
+export interface ItemIdentity {
+    url?: string | null;
+    guid?: string | null;
+    // Scope for guids / fallbacks – guids are only unique within one feed
+    sourceId: string;
+    title?: string | null;
+    publishedAt?: string | null;
+}
+
+// url_<hash> is shared across sources, so one story syndicated by CoinDesk and
+// NewsAPI gets the same id; guid / title fallbacks are scoped to the source
+export function canonicalItemId(item: ItemIdentity): string {
+    const canonicalUrl = normalizeUrl(item.url) ?? normalizeUrl(item.guid);
+    if (canonicalUrl) return `url_${hashKey(canonicalUrl)}`;
+
+    if (item.guid) return `guid_${hashKey(`${item.sourceId}\n${item.guid}`)}`;
+
+    return `item_${hashKey(`${item.sourceId}\n${item.title ?? ''}\n${item.publishedAt ?? ''}`)}`;
+}
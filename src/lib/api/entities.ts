@@ -0,0 +1,30 @@
+// Text entity extraction
+// X returns hashtags / mentions / cashtags as structured entities; RSS and NewsAPI items
+// only have text, so the same fields are pulled out with regexes
+
+export interface TextEntities {
+    hashtags: string[];
+    mentions: string[];
+    cashtags: string[];
+}
+
+// Preceded by start-of-text or a non-word char so emails and "$100" don't match
+const HASHTAG_RE = /(?:^|[^\w&])#([\p{L}_][\p{L}\p{N}_]{0,99})/gu;
+const MENTION_RE = /(?:^|[^\w.])@(\w{1,15})\b/g;
+const CASHTAG_RE = /(?:^|[^\w$])\$([A-Za-z]{1,6}(?:[._][A-Za-z]{1,2})?)\b/g;
+
+function unique(values: string[], key: (v: string) => string = (v) => v.toLowerCase()): string[] {
+    const seen = new Map<string, string>();
+    for (const value of values) {
+        if (!seen.has(key(value))) seen.set(key(value), value);
+    }
+    return [...seen.values()];
+}
+
+export function extractEntities(text: string): TextEntities {
+    return {
+        hashtags: unique([...text.matchAll(HASHTAG_RE)].map((m) => m[1])),
+        mentions: unique([...text.matchAll(MENTION_RE)].map((m) => m[1])),
+        cashtags: unique([...text.matchAll(CASHTAG_RE)].map((m) => m[1].toUpperCase())),
+    };
+}
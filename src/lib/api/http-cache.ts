@@ -0,0 +1,217 @@
+// Conditional HTTP layer for feed polling
+// Stores ETag / Last-Modified validators per feed, honours Cache-Control max-age and
+// Retry-After, and keeps per-feed statistics so we can see how much bandwidth is saved
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Types
+// ──────────────────────────────────────────────────────────────────────────────
+
+export interface FeedCacheEntry {
+    etag?: string;
+    lastModified?: string;
+    freshUntil?: number;      // epoch ms – from Cache-Control: max-age
+    retryAfterUntil?: number; // epoch ms – from Retry-After on 429 / 503
+    lastBodyBytes: number;
+}
+
+export interface FeedCacheStats {
+    key: string;
+    requests: number;       // conditional fetches attempted (incl. skipped)
+    fetched: number;        // 200 responses
+    notModified: number;    // 304 responses
+    skippedFresh: number;   // not sent – still within max-age
+    skippedBackoff: number; // not sent – still within Retry-After
+    bytesDownloaded: number;
+    bytesSaved: number;     // estimated: last full body size for every 304 / skip
+    lastStatus?: number;
+    lastCheckedAt?: Date;
+    etag?: string;
+    lastModified?: string;
+    freshUntil?: Date;
+    retryAfterUntil?: Date;
+}
+
+export type ConditionalFetchResult =
+    | { status: 'fetched'; body: string }
+    | { status: 'not_modified' }
+    | { status: 'skipped'; reason: 'fresh' | 'retry_after' };
+
+export interface ConditionalFetchOptions {
+    headers?: Record<string, string>;
+    timeoutMs?: number;
+    // false → always download (no validators, ignore max-age). Retry-After is still honoured.
+    conditional?: boolean;
+}
+
+export class RetryAfterError extends Error {
+    retryAt: Date;
+
+    constructor(key: string, retryAt: Date) {
+        super(`${key} rate limited until ${retryAt.toISOString()}`);
+        this.name = 'RetryAfterError';
+        this.retryAt = retryAt;
+    }
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// State (on globalThis so every Next.js bundle shares validators)
+// ──────────────────────────────────────────────────────────────────────────────
+
+const globalForCache = globalThis as unknown as {
+    feedCacheEntries?: Map<string, FeedCacheEntry>;
+    feedCacheStats?: Map<string, FeedCacheStats>;
+};
+
+const entries: Map<string, FeedCacheEntry> = (globalForCache.feedCacheEntries ??= new Map());
+const stats: Map<string, FeedCacheStats> = (globalForCache.feedCacheStats ??= new Map());
+
+function statsFor(key: string): FeedCacheStats {
+    let s = stats.get(key);
+    if (!s) {
+        s = {
+            key,
+            requests: 0,
+            fetched: 0,
+            notModified: 0,
+            skippedFresh: 0,
+            skippedBackoff: 0,
+            bytesDownloaded: 0,
+            bytesSaved: 0,
+        };
+        stats.set(key, s);
+    }
+    return s;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Header parsing
+// ──────────────────────────────────────────────────────────────────────────────
+
+// Cache-Control: max-age=N → seconds, or null when absent / no-cache / no-store
+export function parseMaxAge(cacheControl: string | null): number | null {
+    if (!cacheControl) return null;
+    const directives = cacheControl.toLowerCase();
+    if (/\b(no-cache|no-store)\b/.test(directives)) return null;
+
+    const match = directives.match(/(?:^|[,\s])max-age=(\d+)/);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+    if (!value) return null;
+    if (/^\d+$/.test(value.trim())) return now + parseInt(value.trim(), 10) * 1000;
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : date;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Conditional fetch
+// ──────────────────────────────────────────────────────────────────────────────
+
+export async function conditionalFetch(
+    key: string,
+    url: string,
+    options: ConditionalFetchOptions = {}
+): Promise<ConditionalFetchResult> {
+    const { headers = {}, timeoutMs = 8000, conditional = true } = options;
+    const entry: FeedCacheEntry = entries.get(key) ?? { lastBodyBytes: 0 };
+    const s = statsFor(key);
+    const now = Date.now();
+
+    s.requests++;
+    s.lastCheckedAt = new Date(now);
+
+    if (entry.retryAfterUntil && now < entry.retryAfterUntil) {
+        s.skippedBackoff++;
+        s.bytesSaved += entry.lastBodyBytes;
+        if (!conditional) throw new RetryAfterError(key, new Date(entry.retryAfterUntil));
+        return { status: 'skipped', reason: 'retry_after' };
+    }
+
+    if (conditional && entry.freshUntil && now < entry.freshUntil) {
+        s.skippedFresh++;
+        s.bytesSaved += entry.lastBodyBytes;
+        return { status: 'skipped', reason: 'fresh' };
+    }
+
+    const requestHeaders: Record<string, string> = { ...headers };
+    if (conditional && entry.etag) requestHeaders['If-None-Match'] = entry.etag;
+    if (conditional && entry.lastModified) requestHeaders['If-Modified-Since'] = entry.lastModified;
+
+    const response = await fetch(url, {
+        headers: requestHeaders,
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: 'no-store',
+    });
+
+    s.lastStatus = response.status;
+
+    const maxAge = parseMaxAge(response.headers.get('cache-control'));
+    entry.freshUntil = maxAge !== null ? now + maxAge * 1000 : undefined;
+
+    if (response.status === 429 || response.status === 503) {
+        const retryAt = parseRetryAfter(response.headers.get('retry-after'), now);
+        entry.retryAfterUntil = retryAt ?? undefined;
+        entries.set(key, entry);
+        syncStats(s, entry);
+        throw retryAt
+            ? new RetryAfterError(key, new Date(retryAt))
+            : new Error(`Status code ${response.status}`);
+    }
+    entry.retryAfterUntil = undefined;
+
+    if (response.status === 304) {
+        s.notModified++;
+        s.bytesSaved += entry.lastBodyBytes;
+        entries.set(key, entry);
+        syncStats(s, entry);
+        return { status: 'not_modified' };
+    }
+
+    if (!response.ok) {
+        entries.set(key, entry);
+        syncStats(s, entry);
+        throw new Error(`Status code ${response.status}`);
+    }
+
+    const body = await response.text();
+    const bytes = Buffer.byteLength(body);
+
+    entry.etag = response.headers.get('etag') ?? undefined;
+    entry.lastModified = response.headers.get('last-modified') ?? undefined;
+    entry.lastBodyBytes = bytes;
+    entries.set(key, entry);
+
+    s.fetched++;
+    s.bytesDownloaded += bytes;
+    syncStats(s, entry);
+
+    return { status: 'fetched', body };
+}
+
+function syncStats(s: FeedCacheStats, entry: FeedCacheEntry): void {
+    s.etag = entry.etag;
+    s.lastModified = entry.lastModified;
+    s.freshUntil = entry.freshUntil ? new Date(entry.freshUntil) : undefined;
+    s.retryAfterUntil = entry.retryAfterUntil ? new Date(entry.retryAfterUntil) : undefined;
+}
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Stats
+// ──────────────────────────────────────────────────────────────────────────────
+
+export function getFeedCacheStats(): FeedCacheStats[] {
+    return [...stats.values()].map((s) => ({ ...s }));
+}
+
+export function resetFeedCache(key?: string): void {
+    if (key) {
+        entries.delete(key);
+        stats.delete(key);
+    } else {
+        entries.clear();
+        stats.clear();
+    }
+}
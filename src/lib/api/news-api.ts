@@ -4,8 +4,11 @@
 // Sign up for a free key at: https://newsapi.org/register
 
 import type { Tweet } from '../db/schema';
+import { canonicalItemId, cleanUrl } from './canonical';
+import { extractEntities } from './entities';
 
 const BASE_URL = 'https://newsapi.org/v2';
+export const NEWSAPI_DEFAULT_LANGUAGE = 'en';
 
 export interface NewsApiArticle {
     source: { id: string | null; name: string };
@@ -35,7 +38,7 @@ export async function fetchNewsArticles(
     const key = process.env.NEWSAPI_KEY;
     if (!key) throw new Error('NEWSAPI_KEY is not set');
 
-    const { pageSize = 20, language = 'en' } = options;
+    const { pageSize = 20, language = NEWSAPI_DEFAULT_LANGUAGE } = options;
 
     const url = new URL(`${BASE_URL}/everything`);
     url.searchParams.set('q', query);
@@ -58,9 +61,11 @@ export async function fetchNewsArticles(
 // Transform a NewsAPI article → our Tweet shape
 // ──────────────────────────────────────────────
 
-let _idCounter = 0;
-
-export function transformArticleToTweet(article: NewsApiArticle): Tweet {
+// Articles don't carry a language – pass the one the request was filtered by
+export function transformArticleToTweet(
+    article: NewsApiArticle,
+    options: { language?: string } = {}
+): Tweet {
     // Use source name as the "author" username
     const sourceName = article.source.name || 'Unknown';
     const username = sourceName.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
@@ -72,11 +77,19 @@ export function transformArticleToTweet(article: NewsApiArticle): Tweet {
             : article.title
         : article.description ?? '(no content)';
 
+    const authorId = `src_${username}`;
+    const url = cleanUrl(article.url);
+
     return {
-        id: `newsapi_${article.publishedAt}_${_idCounter++}`,
+        id: canonicalItemId({
+            url: article.url,
+            sourceId: authorId,
+            title: article.title,
+            publishedAt: article.publishedAt,
+        }),
         text: text.slice(0, 280), // keep tweet-length
         author: {
-            id: `src_${username}`,
+            id: authorId,
             username,
             displayName: sourceName,
             avatarUrl: article.urlToImage ?? '',
@@ -91,5 +104,11 @@ export function transformArticleToTweet(article: NewsApiArticle): Tweet {
         },
         createdAt: new Date(article.publishedAt),
         source: 'api',
+        sourceKind: 'newsapi',
+        url,
+        media: article.urlToImage ? [{ type: 'image', url: article.urlToImage }] : undefined,
+        ...extractEntities(text),
+        lang: options.language ?? NEWSAPI_DEFAULT_LANGUAGE,
+        outlets: [{ authorId, username, displayName: sourceName, url }],
     };
 }
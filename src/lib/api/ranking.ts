@@ -0,0 +1,82 @@
+// Merge + rank helpers shared by live aggregation and the ingestion store
+// Pure functions – safe to import from anywhere, including client bundles
+
+import type { Tweet, TweetOutlet } from '../db/schema';
+
+// Collapse whitespace/punctuation so the same headline from two feeds compares equal
+export function textFingerprint(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().slice(0, 120);
+}
+
+// RSS / NewsAPI text is "title — snippet"; outlets syndicate the title but rewrite the snippet.
+// Short fingerprints ("(no content)", one-word posts) are too generic to dedupe on.
+export function headlineFingerprint(text: string): string {
+    const fingerprint = textFingerprint(text.split(' — ')[0]);
+    return fingerprint.length >= 20 ? fingerprint : '';
+}
+
+function outletsOf(tweet: Tweet): TweetOutlet[] {
+    return tweet.outlets ?? [{
+        authorId: tweet.author.id,
+        username: tweet.author.username,
+        displayName: tweet.author.displayName,
+    }];
+}
+
+// Attach the duplicate's outlets to the kept item (no-op when nothing new)
+export function mergeOutlets(kept: Tweet, duplicate: Tweet): Tweet {
+    const outlets = outletsOf(kept);
+    const known = new Set(outlets.map((o) => o.authorId));
+    const added = outletsOf(duplicate).filter((o) => !known.has(o.authorId));
+
+    return added.length ? { ...kept, outlets: [...outlets, ...added] } : kept;
+}
+
+// Merge several result lists; cross-source duplicates (same id or same headline)
+// collapse into the first occurrence with every outlet attached
+export function mergeTweets(lists: Tweet[][]): Tweet[] {
+    const merged: Tweet[] = [];
+    const byId = new Map<string, number>();
+    const byHeadline = new Map<string, number>();
+
+    for (const list of lists) {
+        for (const tweet of list) {
+            const headline = headlineFingerprint(tweet.text);
+            const index = byId.get(tweet.id) ?? (headline ? byHeadline.get(headline) : undefined);
+
+            if (index !== undefined) {
+                merged[index] = mergeOutlets(merged[index], tweet);
+                byId.set(tweet.id, index);
+                continue;
+            }
+
+            byId.set(tweet.id, merged.length);
+            if (headline) byHeadline.set(headline, merged.length);
+            merged.push(tweet);
+        }
+    }
+
+    return merged;
+}
+
+const RANK_HALF_LIFE_HOURS = 6;
+
+// Influence (followers + engagement, log-scaled) decayed by age with a 6h half-life
+export function rankScore(tweet: Tweet, now: number = Date.now()): number {
+    const { likes, retweets, replies } = tweet.metrics;
+    const influence =
+        1 +
+        Math.log10(tweet.author.followerCount + 1) +
+        Math.log10(1 + likes + 2 * retweets + replies);
+    const ageHours = Math.max(0, now - new Date(tweet.createdAt).getTime()) / 3_600_000;
+
+    return influence * Math.pow(0.5, ageHours / RANK_HALF_LIFE_HOURS);
+}
+
+export function rankTweets(tweets: Tweet[]): Tweet[] {
+    const now = Date.now();
+    return tweets
+        .map((tweet) => ({ tweet, score: rankScore(tweet, now) }))
+        .sort((a, b) => b.score - a.score)
+        .map(({ tweet }) => tweet);
+}
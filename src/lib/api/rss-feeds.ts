@@ -2,7 +2,10 @@
 // Parses feeds from CoinGecko, DeFiLlama and other crypto-focused sources
 
 import Parser from 'rss-parser';
-import type { Tweet } from '../db/schema';
+import type { Tweet, TweetMedia } from '../db/schema';
+import { conditionalFetch } from './http-cache';
+import { canonicalItemId, cleanUrl } from './canonical';
+import { extractEntities } from './entities';
 
 // ──────────────────────────────────────────────────────────────────────────────
 // Feed definitions
@@ -13,9 +16,14 @@ export interface FeedSource {
     name: string;
     url: string;
     followerCount: number; // default "influence" weight for articles
+    pollIntervalMs?: number; // background ingestion interval (falls back to the scheduler default)
+    enabled?: boolean;       // registry flag – undefined counts as enabled
+    tags?: string[];
+    topics?: string[];       // TopicPreset ids this feed is bound to
 }
 
-export const RSS_FEEDS: FeedSource[] = [
+// Seed for the feed registry (src/lib/feeds) on first run – edit feeds via /api/feeds instead
+export const DEFAULT_FEEDS: FeedSource[] = [
     {
         id: 'defillama',
         name: 'DeFiLlama',
@@ -48,15 +56,78 @@ export const RSS_FEEDS: FeedSource[] = [
 // Fetch + parse a single RSS feed
 // ──────────────────────────────────────────────────────────────────────────────
 
-const parser = new Parser({
-    timeout: 8000,
-    headers: { 'User-Agent': 'Mozilla/5.0 (compatible; XNewsCrawler/1.0)' },
+// <media:content> / <media:thumbnail> (Media RSS) – attributes land under `$`
+interface MediaRssElement {
+    $?: { url?: string; medium?: string; type?: string; width?: string; height?: string };
+}
+
+type FeedExtras = { language?: string };
+type ItemExtras = { mediaContent?: MediaRssElement[]; mediaThumbnail?: MediaRssElement };
+
+const parser = new Parser<FeedExtras, ItemExtras>({
+    customFields: {
+        feed: ['language'],
+        item: [
+            ['media:content', 'mediaContent', { keepArray: true }],
+            ['media:thumbnail', 'mediaThumbnail'],
+        ],
+    },
 });
 
-let _idCounter = 0;
+function mediaType(mime?: string, medium?: string): TweetMedia['type'] | null {
+    if (medium === 'image' || mime?.startsWith('image/')) return 'image';
+    if (medium === 'video' || mime?.startsWith('video/')) return 'video';
+    return null;
+}
 
-export async function fetchRssFeed(source: FeedSource, limit = 20): Promise<Tweet[]> {
-    const feed = await parser.parseURL(source.url);
+function extractMedia(item: Parser.Item & ItemExtras): TweetMedia[] | undefined {
+    const media = new Map<string, TweetMedia>();
+    const thumbnail = item.mediaThumbnail?.$?.url;
+
+    for (const element of item.mediaContent ?? []) {
+        const attrs = element.$;
+        // Media RSS allows omitting medium/type; an image is by far the common case
+        const type = mediaType(attrs?.type, attrs?.medium) ?? 'image';
+        if (!attrs?.url || media.has(attrs.url)) continue;
+        media.set(attrs.url, {
+            type,
+            url: attrs.url,
+            previewUrl: type === 'video' ? thumbnail : undefined,
+            width: attrs.width ? parseInt(attrs.width, 10) : undefined,
+            height: attrs.height ? parseInt(attrs.height, 10) : undefined,
+        });
+    }
+
+    const enclosureType = mediaType(item.enclosure?.type);
+    if (item.enclosure?.url && enclosureType && !media.has(item.enclosure.url)) {
+        media.set(item.enclosure.url, { type: enclosureType, url: item.enclosure.url });
+    }
+
+    if (!media.size && thumbnail) media.set(thumbnail, { type: 'image', url: thumbnail });
+
+    return media.size ? [...media.values()] : undefined;
+}
+
+const FEED_HEADERS = {
+    'User-Agent': 'Mozilla/5.0 (compatible; XNewsCrawler/1.0)',
+    Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+};
+
+// With `conditional` (the default) a 304 or a still-fresh max-age returns [] – "no new items".
+// Pass `conditional: false` when the caller needs a full snapshot of the feed.
+export async function fetchRssFeed(
+    source: FeedSource,
+    limit = 20,
+    options: { conditional?: boolean } = {}
+): Promise<Tweet[]> {
+    const result = await conditionalFetch(source.id, source.url, {
+        headers: FEED_HEADERS,
+        timeoutMs: 8000,
+        conditional: options.conditional ?? true,
+    });
+    if (result.status !== 'fetched') return [];
+
+    const feed = await parser.parseString(result.body);
 
     return (feed.items ?? [])
         .slice(0, limit)
@@ -68,11 +139,20 @@ export async function fetchRssFeed(source: FeedSource, limit = 20): Promise<Twee
                     : item.title
                 : item.contentSnippet ?? '(no content)';
 
+            const authorId = `rss_${source.id}`;
+            const url = cleanUrl(item.link);
+
             return {
-                id: `rss_${source.id}_${item.guid ?? item.link ?? _idCounter++}`,
+                id: canonicalItemId({
+                    url: item.link,
+                    guid: item.guid,
+                    sourceId: authorId,
+                    title: item.title,
+                    publishedAt: item.isoDate,
+                }),
                 text: text.slice(0, 280),
                 author: {
-                    id: `rss_${source.id}`,
+                    id: authorId,
                     username,
                     displayName: source.name,
                     avatarUrl: feed.image?.url ?? '',
@@ -82,22 +162,27 @@ export async function fetchRssFeed(source: FeedSource, limit = 20): Promise<Twee
                 metrics: { likes: 0, retweets: 0, replies: 0, views: 0 },
                 createdAt: item.isoDate ? new Date(item.isoDate) : new Date(),
                 source: 'api' as const,
+                sourceKind: 'rss' as const,
+                url,
+                media: extractMedia(item),
+                ...extractEntities(text),
+                lang: feed.language?.trim() || undefined,
+                outlets: [{ authorId, username, displayName: source.name, url }],
             };
         });
 }
 
 // ──────────────────────────────────────────────────────────────────────────────
-// Fetch all configured feeds in parallel, return merged + sorted results
+// Fetch the given feeds in parallel, return merged + sorted results
 // ──────────────────────────────────────────────────────────────────────────────
 
 export async function fetchAllRssFeeds(
-    sourceIds: string[] = ['defillama', 'coindesk', 'theblock', 'decrypt'],
+    sources: FeedSource[],
     limit = 10
 ): Promise<{ tweets: Tweet[]; errors: string[] }> {
-    const sources = RSS_FEEDS.filter((f) => sourceIds.includes(f.id));
-
     const results = await Promise.allSettled(
-        sources.map((s) => fetchRssFeed(s, limit))
+        // Request-scoped callers want every item, not just what changed since the last poll
+        sources.map((s) => fetchRssFeed(s, limit, { conditional: false }))
     );
 
     const tweets: Tweet[] = [];
@@ -127,3 +212,13 @@ export function filterByKeywords(tweets: Tweet[], keywords: string[]): Tweet[] {
         lower.some((kw) => t.text.toLowerCase().includes(kw))
     );
 }
+
+// Same filter, but items from topic-bound ("pinned") feeds always pass
+export function filterFeedItems(tweets: Tweet[], keywords: string[], pinnedFeedIds: string[] = []): Tweet[] {
+    if (!keywords.length) return tweets;
+    const pinnedAuthors = new Set(pinnedFeedIds.map((id) => `rss_${id}`));
+    const lower = keywords.map((k) => k.toLowerCase());
+    return tweets.filter((t) =>
+        pinnedAuthors.has(t.author.id) || lower.some((kw) => t.text.toLowerCase().includes(kw))
+    );
+}
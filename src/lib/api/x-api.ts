@@ -2,7 +2,8 @@
 // This file provides the interface for connecting to the real X/Twitter API
 // For development, use the mock data service instead
 
-import type { Tweet, TweetCategory, SentimentAnalysis } from '../db/schema';
+import type { Tweet, TweetCategory, SentimentAnalysis, TweetMedia } from '../db/schema';
+import { cleanUrl } from './canonical';
 
 // ============================================
 // Configuration
@@ -14,8 +15,12 @@ export interface XApiConfig {
     apiSecret?: string;
     accessToken?: string;
     accessSecret?: string;
+    // Defaults to https://api.twitter.com/2 – point at the mock server for offline development
+    baseUrl?: string;
 }
 
+export const X_API_DEFAULT_BASE_URL = 'https://api.twitter.com/2';
+
 // Load config from environment
 export function getXApiConfig(): XApiConfig | null {
     const bearerToken = process.env.X_BEARER_TOKEN;
@@ -31,6 +36,7 @@ export function getXApiConfig(): XApiConfig | null {
         apiSecret: process.env.X_API_SECRET,
         accessToken: process.env.X_ACCESS_TOKEN,
         accessSecret: process.env.X_ACCESS_SECRET,
+        baseUrl: process.env.X_API_BASE_URL,
     };
 }
 
@@ -50,13 +56,33 @@ export interface XApiTweet {
         quote_count: number;
         impression_count: number;
     };
+    lang?: string;
     entities?: {
         hashtags?: { tag: string }[];
         mentions?: { username: string }[];
-        urls?: { expanded_url: string }[];
+        cashtags?: { tag: string }[];
+        urls?: { url: string; expanded_url: string; unwound_url?: string }[];
+    };
+    attachments?: {
+        media_keys?: string[];
     };
 }
 
+export interface XApiMedia {
+    media_key: string;
+    type: 'photo' | 'video' | 'animated_gif';
+    url?: string;
+    preview_image_url?: string;
+    width?: number;
+    height?: number;
+    alt_text?: string;
+}
+
+export interface XApiIncludes {
+    users?: XApiUser[];
+    media?: XApiMedia[];
+}
+
 export interface XApiUser {
     id: string;
     name: string;
@@ -72,78 +98,286 @@ export interface XApiUser {
 
 export interface XApiSearchResponse {
     data: XApiTweet[];
-    includes?: {
-        users: XApiUser[];
-    };
+    includes?: XApiIncludes;
     meta: {
-        newest_id: string;
-        oldest_id: string;
+        // Absent when result_count is 0
+        newest_id?: string;
+        oldest_id?: string;
         result_count: number;
         next_token?: string;
     };
 }
 
+// Filtered-stream rule as returned by GET /tweets/search/stream/rules
+export interface XStreamRule {
+    id: string;
+    value: string;
+    tag?: string;
+}
+
+export interface XStreamRulesResponse {
+    data?: XStreamRule[];
+    meta: {
+        sent: string;
+        result_count?: number;
+    };
+    errors?: { title: string; detail?: string; value?: string }[];
+}
+
+// One line of the filtered stream (heartbeats are bare newlines and never reach this type)
+export interface XStreamMessage {
+    data?: XApiTweet;
+    includes?: XApiIncludes;
+    matching_rules?: { id: string; tag?: string }[];
+    errors?: { title: string; detail?: string; type?: string }[];
+}
+
+export class XApiError extends Error {
+    status: number;
+    // Set on 429s (and on requests refused locally because the window is exhausted)
+    retryAt?: Date;
+
+    constructor(status: number, message: string, retryAt?: Date) {
+        super(message);
+        this.name = 'XApiError';
+        this.status = status;
+        this.retryAt = retryAt;
+    }
+}
+
+// Per-endpoint quota from the x-rate-limit-* response headers
+export interface XRateLimitState {
+    endpoint: string;
+    limit: number;
+    remaining: number;
+    resetAt: Date;
+    updatedAt: Date;
+}
+
+export interface SearchOptions {
+    // Only return tweets newer than this id (incremental polling)
+    sinceId?: string;
+    nextToken?: string;
+}
+
+export interface PaginatedSearchOptions {
+    sinceId?: string;
+    // Maximum tweets to collect across all pages
+    budget?: number;
+    pageSize?: number;
+}
+
+// Waits shorter than this are slept through; longer ones fail fast so the caller can reschedule
+const MAX_RATE_LIMIT_WAIT_MS = 15_000;
+
+function parseRateLimit(endpoint: string, headers: Headers): XRateLimitState | null {
+    const limit = parseInt(headers.get('x-rate-limit-limit') || '', 10);
+    const remaining = parseInt(headers.get('x-rate-limit-remaining') || '', 10);
+    const reset = parseInt(headers.get('x-rate-limit-reset') || '', 10);
+    if (!Number.isFinite(remaining) || !Number.isFinite(reset)) return null;
+
+    return {
+        endpoint,
+        limit: Number.isFinite(limit) ? limit : remaining,
+        remaining,
+        resetAt: new Date(reset * 1000),
+        updatedAt: new Date(),
+    };
+}
+
 // ============================================
 // API Client
 // ============================================
 
+const TWEET_FIELDS = {
+    'tweet.fields': 'created_at,public_metrics,entities,lang,attachments',
+    'user.fields': 'name,username,profile_image_url,verified,public_metrics',
+    'media.fields': 'url,preview_image_url,type,width,height,alt_text',
+    expansions: 'author_id,attachments.media_keys',
+};
+
 export class XApiClient {
     private config: XApiConfig;
-    private baseUrl = 'https://api.twitter.com/2';
+    private baseUrl: string;
+    private rateLimits = new Map<string, XRateLimitState>();
 
     constructor(config: XApiConfig) {
         this.config = config;
+        this.baseUrl = (config.baseUrl || X_API_DEFAULT_BASE_URL).replace(/\/+$/, '');
     }
 
-    private async fetch<T>(endpoint: string, params: Record<string, string> = {}): Promise<T> {
+    private url(endpoint: string, params: Record<string, string> = {}): string {
         const url = new URL(`${this.baseUrl}${endpoint}`);
         Object.entries(params).forEach(([key, value]) => {
             url.searchParams.append(key, value);
         });
+        return url.toString();
+    }
 
-        const response = await fetch(url.toString(), {
-            headers: {
-                'Authorization': `Bearer ${this.config.bearerToken}`,
-                'Content-Type': 'application/json',
-            },
+    private headers(): Record<string, string> {
+        return {
+            'Authorization': `Bearer ${this.config.bearerToken}`,
+            'Content-Type': 'application/json',
+        };
+    }
+
+    private async fetch<T>(endpoint: string, params: Record<string, string> = {}, init: RequestInit = {}): Promise<T> {
+        // Rate limits are per endpoint + method (GET and POST rules are separate buckets)
+        const bucket = `${init.method ?? 'GET'} ${endpoint}`;
+        await this.waitForQuota(bucket);
+
+        const response = await fetch(this.url(endpoint, params), {
+            ...init,
+            headers: this.headers(),
         });
 
+        const rateLimit = parseRateLimit(bucket, response.headers);
+        if (rateLimit) this.rateLimits.set(bucket, rateLimit);
+
+        if (response.status === 429) {
+            const retryAt = rateLimit?.resetAt ?? new Date(Date.now() + 15 * 60_000);
+            throw new XApiError(429, `X API rate limited on ${bucket} until ${retryAt.toISOString()}`, retryAt);
+        }
+
         if (!response.ok) {
-            throw new Error(`X API error: ${response.status} ${response.statusText}`);
+            throw new XApiError(response.status, `X API error: ${response.status} ${response.statusText}`);
         }
 
         return response.json();
     }
 
-    async searchRecentTweets(query: string, maxResults: number = 10): Promise<XApiSearchResponse> {
-        return this.fetch<XApiSearchResponse>('/tweets/search/recent', {
+    // Holds a request until the window resets when the last response said we're out of quota
+    private async waitForQuota(bucket: string): Promise<void> {
+        const state = this.rateLimits.get(bucket);
+        if (!state || state.remaining > 0) return;
+
+        const waitMs = state.resetAt.getTime() - Date.now();
+        if (waitMs <= 0) return;
+        if (waitMs > MAX_RATE_LIMIT_WAIT_MS) {
+            throw new XApiError(429, `X API quota for ${bucket} exhausted until ${state.resetAt.toISOString()}`, state.resetAt);
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+
+    getRateLimits(): XRateLimitState[] {
+        return [...this.rateLimits.values()].map((s) => ({ ...s }));
+    }
+
+    // Earliest time a request to this endpoint can succeed, or null if quota remains
+    rateLimitedUntil(endpoint: string, method: string = 'GET'): Date | null {
+        const state = this.rateLimits.get(`${method} ${endpoint}`);
+        if (!state || state.remaining > 0 || state.resetAt.getTime() <= Date.now()) return null;
+        return state.resetAt;
+    }
+
+    async searchRecentTweets(
+        query: string,
+        maxResults: number = 10,
+        options: SearchOptions = {}
+    ): Promise<XApiSearchResponse> {
+        const params: Record<string, string> = {
             query,
-            max_results: maxResults.toString(),
-            'tweet.fields': 'created_at,public_metrics,entities',
-            'user.fields': 'name,username,profile_image_url,verified,public_metrics',
-            expansions: 'author_id',
-        });
+            // Endpoint only accepts 10–100
+            max_results: Math.min(Math.max(maxResults, 10), 100).toString(),
+            ...TWEET_FIELDS,
+        };
+        if (options.sinceId) params.since_id = options.sinceId;
+        if (options.nextToken) params.next_token = options.nextToken;
+
+        return this.fetch<XApiSearchResponse>('/tweets/search/recent', params);
+    }
+
+    // Follows meta.next_token until the budget is spent, the results run out or the
+    // quota window is exhausted. Pages fetched before a rate limit are still returned.
+    async searchRecentTweetsPaginated(
+        query: string,
+        options: PaginatedSearchOptions = {}
+    ): Promise<XApiSearchResponse> {
+        const { sinceId, budget = 100, pageSize = 100 } = options;
+        const tweets: XApiTweet[] = [];
+        const users = new Map<string, XApiUser>();
+        const media = new Map<string, XApiMedia>();
+        let newestId: string | undefined;
+        let nextToken: string | undefined;
+
+        do {
+            const remaining = budget - tweets.length;
+            let page: XApiSearchResponse;
+            try {
+                page = await this.searchRecentTweets(query, Math.min(pageSize, remaining), { sinceId, nextToken });
+            } catch (error: unknown) {
+                if (tweets.length && error instanceof XApiError && error.status === 429) break;
+                throw error;
+            }
+
+            tweets.push(...(page.data ?? []).slice(0, remaining));
+            page.includes?.users?.forEach((u) => users.set(u.id, u));
+            page.includes?.media?.forEach((m) => media.set(m.media_key, m));
+            // Results are newest-first, so the first page carries the overall newest id
+            newestId ??= page.meta.newest_id;
+            nextToken = page.meta.next_token;
+        } while (nextToken && tweets.length < budget);
+
+        return {
+            data: tweets,
+            includes: { users: [...users.values()], media: [...media.values()] },
+            meta: {
+                newest_id: newestId,
+                oldest_id: tweets[tweets.length - 1]?.id,
+                result_count: tweets.length,
+                next_token: nextToken,
+            },
+        };
     }
 
-    async streamRules(): Promise<{ data: { id: string; value: string }[] }> {
+    async streamRules(): Promise<XStreamRulesResponse> {
         return this.fetch('/tweets/search/stream/rules');
     }
 
     async addStreamRule(value: string, tag?: string): Promise<void> {
-        const response = await fetch(`${this.baseUrl}/tweets/search/stream/rules`, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${this.config.bearerToken}`,
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                add: [{ value, tag }],
-            }),
-        });
+        await this.updateStreamRules({ add: [{ value, tag }] });
+    }
 
-        if (!response.ok) {
-            throw new Error(`Failed to add stream rule: ${response.statusText}`);
+    async deleteStreamRules(ids: string[]): Promise<void> {
+        await this.updateStreamRules({ delete: ids });
+    }
+
+    // X takes either `add` or `delete` per request, so a diff is two POSTs – deletes first
+    // to free up rule slots. The add batch is rejected as a whole if any rule is invalid.
+    async updateStreamRules(changes: {
+        add?: { value: string; tag?: string }[];
+        delete?: string[];
+    }): Promise<XStreamRulesResponse | null> {
+        let result: XStreamRulesResponse | null = null;
+
+        if (changes.delete?.length) {
+            result = await this.fetch<XStreamRulesResponse>('/tweets/search/stream/rules', {}, {
+                method: 'POST',
+                body: JSON.stringify({ delete: { ids: changes.delete } }),
+            });
+        }
+
+        if (changes.add?.length) {
+            result = await this.fetch<XStreamRulesResponse>('/tweets/search/stream/rules', {}, {
+                method: 'POST',
+                body: JSON.stringify({ add: changes.add }),
+            });
+            if (result.errors?.length) {
+                throw new XApiError(400, `Stream rule rejected: ${result.errors.map((e) => e.detail || e.title).join('; ')}`);
+            }
         }
+
+        return result;
+    }
+
+    // Opens the long-lived filtered stream. The raw Response is returned so the caller
+    // can read the NDJSON body and choose a backoff from the status code.
+    async openFilteredStream(signal: AbortSignal): Promise<Response> {
+        return fetch(this.url('/tweets/search/stream', TWEET_FIELDS), {
+            headers: this.headers(),
+            signal,
+        });
     }
 }
 
@@ -151,18 +385,51 @@ export class XApiClient {
 // Transform Functions
 // ============================================
 
+const MEDIA_TYPES: Record<XApiMedia['type'], TweetMedia['type']> = {
+    photo: 'image',
+    video: 'video',
+    animated_gif: 'animated_gif',
+};
+
+function transformXApiMedia(tweet: XApiTweet, media: XApiMedia[]): TweetMedia[] | undefined {
+    const attached = (tweet.attachments?.media_keys ?? [])
+        .map((key) => media.find((m) => m.media_key === key))
+        .filter((m): m is XApiMedia => !!m && !!(m.url || m.preview_image_url))
+        .map((m) => ({
+            type: MEDIA_TYPES[m.type] ?? 'image',
+            // Videos only carry a preview image URL
+            url: (m.url || m.preview_image_url)!,
+            previewUrl: m.preview_image_url,
+            width: m.width,
+            height: m.height,
+            altText: m.alt_text,
+        }));
+    return attached.length ? attached : undefined;
+}
+
+// unwound_url follows redirects past link shorteners; attached photos and videos also appear as
+// url entities pointing back at the post, so those are dropped
+function transformXApiLinks(tweet: XApiTweet): string[] | undefined {
+    const links = (tweet.entities?.urls ?? [])
+        .map((u) => cleanUrl(u.unwound_url ?? u.expanded_url))
+        .filter((url): url is string => !!url && !url.includes(`/status/${tweet.id}/`));
+    return links.length ? [...new Set(links)] : undefined;
+}
+
 export function transformXApiTweet(
     tweet: XApiTweet,
-    users: XApiUser[]
+    users: XApiUser[],
+    media: XApiMedia[] = []
 ): Omit<Tweet, 'sentiment' | 'category' | 'spamScore' | 'isFiltered'> {
     const author = users.find((u) => u.id === tweet.author_id);
+    const username = author?.username || 'unknown';
 
     return {
         id: tweet.id,
         text: tweet.text,
         author: {
             id: author?.id || tweet.author_id,
-            username: author?.username || 'unknown',
+            username,
             displayName: author?.name || 'Unknown',
             avatarUrl: author?.profile_image_url || '',
             verified: author?.verified || false,
@@ -176,6 +443,14 @@ export function transformXApiTweet(
         },
         createdAt: new Date(tweet.created_at),
         source: 'api',
+        sourceKind: 'x',
+        url: `https://x.com/${author ? username : 'i/web'}/status/${tweet.id}`,
+        links: transformXApiLinks(tweet),
+        media: transformXApiMedia(tweet, media),
+        hashtags: tweet.entities?.hashtags?.map((h) => h.tag),
+        mentions: tweet.entities?.mentions?.map((m) => m.username),
+        cashtags: tweet.entities?.cashtags?.map((c) => c.tag.toUpperCase()),
+        lang: tweet.lang,
     };
 }
 
@@ -183,16 +458,18 @@ export function transformXApiTweet(
 // Factory Function
 // ============================================
 
-let clientInstance: XApiClient | null = null;
+// On globalThis so the rate-limit state seen by the ingestion scheduler is the same
+// one /api/x/status reports (Next.js bundles each route separately)
+const globalForX = globalThis as unknown as { xApiClient?: XApiClient };
 
 export function getXApiClient(): XApiClient | null {
-    if (clientInstance) return clientInstance;
+    if (globalForX.xApiClient) return globalForX.xApiClient;
 
     const config = getXApiConfig();
     if (!config) return null;
 
-    clientInstance = new XApiClient(config);
-    return clientInstance;
+    globalForX.xApiClient = new XApiClient(config);
+    return globalForX.xApiClient;
 }
 
 export function isXApiConfigured(): boolean {
@@ -10,6 +10,14 @@ export const supabase = supabaseUrl && supabaseAnonKey
     ? createClient(supabaseUrl, supabaseAnonKey)
     : null;
 
+// Server-side writes (ingestion, alert state) should bypass row-level security, so prefer
+// the service-role key when it's set. Never expose this key to the browser.
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+export const supabaseAdmin = supabaseUrl && supabaseServiceKey
+    ? createClient(supabaseUrl, supabaseServiceKey, { auth: { persistSession: false } })
+    : supabase;
+
 // Check if we're using Supabase or local state
 export const isUsingSupabase = !!supabase;
 
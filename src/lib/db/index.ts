@@ -1,2 +1,47 @@
+// Database entry point – schema, Supabase client and the repository singleton
+
+import { supabaseAdmin } from './client';
+import type { Repositories } from './repository';
+import { createMemoryRepositories } from './memory-repository';
+import { createSupabaseRepositories } from './supabase-repository';
+import { createSqliteRepositories } from './sqlite-repository';
+
 export * from './schema';
 export * from './client';
+export * from './repository';
+export * from './memory-repository';
+export * from './supabase-repository';
+export * from './sqlite-repository';
+// migrate.ts is Node-only (fs, pg) – import it directly rather than through this barrel
+
+// On globalThis so every Next.js bundle shares one set of repositories (and, in
+// local mode, one copy of the in-memory data)
+const globalForDb = globalThis as unknown as { repositories?: Repositories };
+
+// Supabase when configured, otherwise an embedded SQLite file; STORAGE_BACKEND=sqlite|memory
+// forces a local backend. Memory is the last resort if SQLite can't be opened.
+function createRepositories(): Repositories {
+    const backend = process.env.STORAGE_BACKEND;
+
+    if (supabaseAdmin && backend !== 'sqlite' && backend !== 'memory') {
+        return createSupabaseRepositories(supabaseAdmin);
+    }
+
+    if (backend !== 'memory') {
+        try {
+            return createSqliteRepositories();
+        } catch (error: unknown) {
+            console.warn(
+                '[DB] SQLite unavailable, falling back to in-memory storage:',
+                error instanceof Error ? error.message : error
+            );
+        }
+    }
+
+    return createMemoryRepositories();
+}
+
+export function getRepositories(): Repositories {
+    globalForDb.repositories ??= createRepositories();
+    return globalForDb.repositories;
+}
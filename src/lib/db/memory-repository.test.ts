@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Tweet } from './schema';
+import { createMemoryRepositories } from './memory-repository';
+
+function item(id: string, url: string, text: string = id): Tweet {
+    return {
+        id,
+        text,
+        url,
+        author: { id: 'author', username: 'author', displayName: 'Author', avatarUrl: '', verified: false, followerCount: 0 },
+        metrics: { likes: 0, retweets: 0, replies: 0, views: 0 },
+        createdAt: new Date('2026-01-01T12:00:00Z'),
+        source: 'api',
+        sourceKind: 'rss',
+    };
+}
+
+test('upsert skips a tweet whose url is stored under another id and still updates the owner', async () => {
+    const { tweets } = createMemoryRepositories();
+    await tweets.upsert([item('x_1', 'https://x.com/a/status/1')]);
+    await tweets.upsert([
+        item('url_other', 'https://x.com/a/status/1'),
+        item('x_1', 'https://x.com/a/status/1', 'edited'),
+        item('url_new', 'https://example.com/new'),
+    ]);
+
+    assert.equal(await tweets.get('url_other'), null);
+    assert.equal((await tweets.get('x_1'))?.text, 'edited');
+    assert.ok(await tweets.get('url_new'));
+});
@@ -0,0 +1,308 @@
+// In-memory repositories
+// Local-mode implementation of the repository interfaces – same semantics as Supabase,
+// but data lives for the lifetime of the server process
+
+import type { Tweet, Alert, AlertTrigger, AlertDelivery, VelocitySnapshot, StoryAggregate } from './schema';
+import {
+    pageSize,
+    encodeCursor,
+    decodeCursor,
+    compareNewestFirst,
+    parseSearch,
+    isSpam,
+    type TweetRepository,
+    type AlertRepository,
+    type AlertTriggerRepository,
+    type AlertTriggerQuery,
+    type AlertDeliveryRepository,
+    type AlertDeliveryQuery,
+    type SnapshotRepository,
+    type StoryAggregateRepository,
+    type StoryAggregateQuery,
+    type Repositories,
+    type TweetQuery,
+    type TimeRange,
+    type SnapshotQuery,
+    type Page,
+} from './repository';
+
+const DEFAULT_TWEET_CAPACITY = 5000;
+const DEFAULT_SNAPSHOT_CAPACITY = 7 * 24 * 60; // a week of minute buckets
+const DEFAULT_TRIGGER_CAPACITY = 1000;
+const DEFAULT_DELIVERY_CAPACITY = 1000;
+
+function inRange(date: Date, range: TimeRange): boolean {
+    const time = new Date(date).getTime();
+    if (range.since && time < range.since.getTime()) return false;
+    if (range.until && time >= range.until.getTime()) return false;
+    return true;
+}
+
+// Rough stand-in for Postgres websearch_to_tsquery: substring match per term
+function matchesSearch(text: string, search: string): boolean {
+    const haystack = text.toLowerCase();
+    const { include, exclude } = parseSearch(search);
+    return (
+        include.every((group) => group.some((t) => haystack.includes(t))) &&
+        !exclude.some((t) => haystack.includes(t))
+    );
+}
+
+// ============================================
+// Tweets
+// ============================================
+
+export class MemoryTweetRepository implements TweetRepository {
+    private tweets = new Map<string, Tweet>();
+    private capacity: number;
+
+    constructor(capacity: number = DEFAULT_TWEET_CAPACITY) {
+        this.capacity = capacity;
+    }
+
+    async upsert(tweets: Tweet[]): Promise<void> {
+        const owners = new Map([...this.tweets.values()].filter((t) => t.url).map((t) => [t.url!, t.id]));
+        for (const tweet of tweets) {
+            const owner = tweet.url ? owners.get(tweet.url) : undefined;
+            if (owner !== undefined && owner !== tweet.id) continue;
+            this.tweets.set(tweet.id, tweet);
+            if (tweet.url) owners.set(tweet.url, tweet.id);
+        }
+
+        if (this.tweets.size > this.capacity) {
+            const oldest = [...this.tweets.values()].sort(compareNewestFirst).slice(this.capacity);
+            oldest.forEach((t) => this.tweets.delete(t.id));
+        }
+    }
+
+    async get(id: string): Promise<Tweet | null> {
+        return this.tweets.get(id) ?? null;
+    }
+
+    async query(query: TweetQuery = {}): Promise<Page<Tweet>> {
+        const limit = pageSize(query.limit);
+        const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+        const matches = [...this.tweets.values()]
+            .filter((t) => {
+                if (!inRange(t.createdAt, query)) return false;
+                if (query.sourceKinds?.length && !query.sourceKinds.includes(t.sourceKind)) return false;
+                if (query.categories?.length && !(t.category && query.categories.includes(t.category))) return false;
+                if (query.authorId && t.author.id !== query.authorId) return false;
+                if (query.storyId && t.storyId !== query.storyId) return false;
+                if (query.search && !matchesSearch(t.text, query.search)) return false;
+                if (query.spam !== undefined && isSpam(t) !== query.spam) return false;
+                // Strictly after the cursor position in newest-first order
+                if (cursor && compareNewestFirst(cursor, t) >= 0) return false;
+                return true;
+            })
+            .sort(compareNewestFirst);
+
+        const items = matches.slice(0, limit);
+        return {
+            items,
+            nextCursor: matches.length > limit ? encodeCursor(items[items.length - 1]) : null,
+        };
+    }
+
+    async count(range: TimeRange = {}): Promise<number> {
+        let count = 0;
+        for (const tweet of this.tweets.values()) {
+            if (inRange(tweet.createdAt, range)) count++;
+        }
+        return count;
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return ids.filter((id) => this.tweets.delete(id)).length;
+    }
+}
+
+// ============================================
+// Alerts
+// ============================================
+
+export class MemoryAlertRepository implements AlertRepository {
+    private alerts = new Map<string, Alert>();
+
+    async list(): Promise<Alert[]> {
+        return [...this.alerts.values()].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+    }
+
+    async get(id: string): Promise<Alert | null> {
+        return this.alerts.get(id) ?? null;
+    }
+
+    async save(alert: Alert): Promise<Alert> {
+        this.alerts.set(alert.id, alert);
+        return alert;
+    }
+
+    async remove(id: string): Promise<boolean> {
+        return this.alerts.delete(id);
+    }
+
+    async markTriggered(id: string, at: Date = new Date()): Promise<Alert | null> {
+        const alert = this.alerts.get(id);
+        if (!alert) return null;
+
+        const updated = { ...alert, lastTriggeredAt: at, triggerCount: alert.triggerCount + 1 };
+        this.alerts.set(id, updated);
+        return updated;
+    }
+}
+
+// Oldest triggers are dropped beyond `capacity`
+export class MemoryAlertTriggerRepository implements AlertTriggerRepository {
+    private triggers: AlertTrigger[] = [];
+    private capacity: number;
+
+    constructor(capacity: number = DEFAULT_TRIGGER_CAPACITY) {
+        this.capacity = capacity;
+    }
+
+    async record(trigger: AlertTrigger): Promise<void> {
+        this.triggers = [trigger, ...this.triggers.filter((t) => t.id !== trigger.id)]
+            .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime())
+            .slice(0, this.capacity);
+    }
+
+    async list(query: AlertTriggerQuery = {}): Promise<AlertTrigger[]> {
+        return this.triggers
+            .filter((t) => (!query.alertId || t.alertId === query.alertId) && inRange(t.triggeredAt, query))
+            .slice(0, pageSize(query.limit));
+    }
+}
+
+// Settled deliveries are dropped oldest first beyond `capacity`; pending ones are always kept
+export class MemoryAlertDeliveryRepository implements AlertDeliveryRepository {
+    private deliveries = new Map<string, AlertDelivery>();
+    private capacity: number;
+
+    constructor(capacity: number = DEFAULT_DELIVERY_CAPACITY) {
+        this.capacity = capacity;
+    }
+
+    async save(delivery: AlertDelivery): Promise<void> {
+        this.deliveries.set(delivery.id, delivery);
+
+        if (this.deliveries.size > this.capacity) {
+            const settled = this.newestFirst().filter((d) => d.status !== 'pending').reverse();
+            settled.slice(0, this.deliveries.size - this.capacity).forEach((d) => this.deliveries.delete(d.id));
+        }
+    }
+
+    async get(id: string): Promise<AlertDelivery | null> {
+        return this.deliveries.get(id) ?? null;
+    }
+
+    async list(query: AlertDeliveryQuery = {}): Promise<AlertDelivery[]> {
+        return this.newestFirst()
+            .filter(
+                (d) =>
+                    (!query.alertId || d.alertId === query.alertId) &&
+                    (!query.triggerIds || (!!d.triggerId && query.triggerIds.includes(d.triggerId))) &&
+                    (!query.status || d.status === query.status) &&
+                    inRange(d.createdAt, query)
+            )
+            .slice(0, pageSize(query.limit));
+    }
+
+    async due(now: Date = new Date(), limit?: number): Promise<AlertDelivery[]> {
+        return [...this.deliveries.values()]
+            .filter((d) => d.status === 'pending' && new Date(d.nextAttemptAt ?? 0).getTime() <= now.getTime())
+            .sort((a, b) => new Date(a.nextAttemptAt ?? 0).getTime() - new Date(b.nextAttemptAt ?? 0).getTime())
+            .slice(0, pageSize(limit));
+    }
+
+    private newestFirst(): AlertDelivery[] {
+        return [...this.deliveries.values()].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || (a.id < b.id ? 1 : -1)
+        );
+    }
+}
+
+// ============================================
+// Velocity Snapshots
+// ============================================
+
+export class MemorySnapshotRepository implements SnapshotRepository {
+    private snapshots = new Map<string, VelocitySnapshot>();
+    private capacity: number;
+
+    constructor(capacity: number = DEFAULT_SNAPSHOT_CAPACITY) {
+        this.capacity = capacity;
+    }
+
+    async insert(snapshots: VelocitySnapshot[]): Promise<void> {
+        for (const snapshot of snapshots) this.snapshots.set(snapshot.id, snapshot);
+
+        // Only minute buckets are evicted – rollups are small and meant to outlive them
+        if (this.snapshots.size > this.capacity) {
+            const oldest = this.sorted()
+                .filter((s) => (s.resolution ?? 'minute') === 'minute')
+                .slice(0, this.snapshots.size - this.capacity);
+            oldest.forEach((s) => this.snapshots.delete(s.id));
+        }
+    }
+
+    async range(query: SnapshotQuery = {}): Promise<VelocitySnapshot[]> {
+        const resolution = query.resolution ?? 'minute';
+        const matches = this.sorted().filter(
+            (s) => (s.resolution ?? 'minute') === resolution && inRange(s.timestamp, query)
+        );
+        // A limit keeps the most recent snapshots in the range
+        return query.limit ? matches.slice(-query.limit) : matches;
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return ids.filter((id) => this.snapshots.delete(id)).length;
+    }
+
+    private sorted(): VelocitySnapshot[] {
+        return [...this.snapshots.values()].sort(
+            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        );
+    }
+}
+
+// ============================================
+// Story Aggregates
+// ============================================
+
+export class MemoryStoryAggregateRepository implements StoryAggregateRepository {
+    private stories = new Map<string, StoryAggregate>();
+
+    async upsert(stories: StoryAggregate[]): Promise<void> {
+        for (const story of stories) this.stories.set(story.id, story);
+    }
+
+    async getMany(ids: string[]): Promise<StoryAggregate[]> {
+        return ids.map((id) => this.stories.get(id)).filter((s): s is StoryAggregate => !!s);
+    }
+
+    async list(query: StoryAggregateQuery = {}): Promise<StoryAggregate[]> {
+        return [...this.stories.values()]
+            .filter((s) => inRange(s.lastSeenAt, query))
+            .sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime())
+            .slice(0, pageSize(query.limit));
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return ids.filter((id) => this.stories.delete(id)).length;
+    }
+}
+
+export function createMemoryRepositories(): Repositories {
+    return {
+        kind: 'memory',
+        tweets: new MemoryTweetRepository(),
+        alerts: new MemoryAlertRepository(),
+        triggers: new MemoryAlertTriggerRepository(),
+        deliveries: new MemoryAlertDeliveryRepository(),
+        snapshots: new MemorySnapshotRepository(),
+        stories: new MemoryStoryAggregateRepository(),
+    };
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MigrationError, checksum, parseMigration } from './migrate';
+
+const SQL = `-- Adds a thing
+-- migrate:up
+CREATE TABLE things (id TEXT PRIMARY KEY);
+
+-- migrate:down
+DROP TABLE things;
+`;
+
+function rejectsWith(code: MigrationError['code']) {
+    return (error: unknown) => error instanceof MigrationError && error.code === code;
+}
+
+test('parseMigration splits the up and down sections', () => {
+    const migration = parseMigration('0009_add_things.sql', SQL);
+    assert.equal(migration.version, 9);
+    assert.equal(migration.name, 'add_things');
+    assert.equal(migration.up, 'CREATE TABLE things (id TEXT PRIMARY KEY);');
+    assert.equal(migration.down, 'DROP TABLE things;');
+    assert.equal(migration.checksum, checksum(SQL));
+    assert.equal(parseMigration('0010_no_down.sql', '-- migrate:up\nSELECT 1;').down, '');
+});
+
+test('parseMigration rejects bad names and misplaced or empty sections', () => {
+    assert.throws(() => parseMigration('add_things.sql', SQL), rejectsWith('invalid_file'));
+    assert.throws(() => parseMigration('0009_Add-Things.sql', SQL), rejectsWith('invalid_file'));
+    assert.throws(() => parseMigration('0009_x.sql', 'CREATE TABLE t (id INT);'), rejectsWith('invalid_file'));
+    assert.throws(() => parseMigration('0009_x.sql', '-- migrate:down\nDROP TABLE t;\n-- migrate:up\nCREATE TABLE t (id INT);'), rejectsWith('invalid_file'));
+    assert.throws(() => parseMigration('0009_x.sql', '-- migrate:up\n\n-- migrate:down\nDROP TABLE t;'), rejectsWith('invalid_file'));
+});
+
+test('checksums ignore line endings but catch any other edit', () => {
+    assert.equal(checksum(SQL.replace(/\n/g, '\r\n')), checksum(SQL));
+    assert.notEqual(checksum(SQL.replace('things', 'stuff')), checksum(SQL));
+    assert.notEqual(checksum(`${SQL}-- note\n`), checksum(SQL));
+});
@@ -0,0 +1,273 @@
+// Migration Runner
+// Applies the ordered SQL files in ./migrations to Postgres, recording each version and
+// checksum in schema_migrations so edits to an already-applied file are caught
+
+import { createHash } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import type { ClientBase } from 'pg';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'src', 'lib', 'db', 'migrations');
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+// Arbitrary app-wide key so two runners (e.g. two deploys) never migrate at the same time
+const ADVISORY_LOCK_KEY = 727_001;
+
+// 0001_initial_schema.sql → version 1, name "initial_schema"
+const FILENAME_PATTERN = /^(\d{4,})_([a-z0-9_]+)\.sql$/;
+
+const UP_MARKER = /^--\s*migrate:up\s*$/m;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+// ============================================
+// Types
+// ============================================
+
+export interface Migration {
+    version: number;
+    name: string;
+    filename: string;
+    up: string;
+    down: string;
+    checksum: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    checksum: string;
+    appliedAt: Date;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    state: MigrationState;
+    appliedAt?: Date;
+}
+
+export class MigrationError extends Error {
+    code: 'invalid_file' | 'duplicate_version' | 'checksum_mismatch' | 'missing_file' | 'no_down';
+
+    constructor(code: MigrationError['code'], message: string) {
+        super(message);
+        this.name = 'MigrationError';
+        this.code = code;
+    }
+}
+
+// ============================================
+// Loading
+// ============================================
+
+export function checksum(sql: string): string {
+    return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+// Each file holds an up section and an optional down section:
+//   -- migrate:up
+//   CREATE TABLE ...;
+//   -- migrate:down
+//   DROP TABLE ...;
+export function parseMigration(filename: string, sql: string): Migration {
+    const match = FILENAME_PATTERN.exec(filename);
+    if (!match) {
+        throw new MigrationError('invalid_file', `${filename}: expected NNNN_snake_case_name.sql`);
+    }
+
+    const upAt = sql.search(UP_MARKER);
+    if (upAt === -1) throw new MigrationError('invalid_file', `${filename}: missing "-- migrate:up" marker`);
+
+    const downAt = sql.search(DOWN_MARKER);
+    if (downAt !== -1 && downAt < upAt) {
+        throw new MigrationError('invalid_file', `${filename}: "-- migrate:down" must follow "-- migrate:up"`);
+    }
+
+    const up = sql.slice(upAt, downAt === -1 ? undefined : downAt).replace(UP_MARKER, '').trim();
+    const down = downAt === -1 ? '' : sql.slice(downAt).replace(DOWN_MARKER, '').trim();
+    if (!up) throw new MigrationError('invalid_file', `${filename}: up section is empty`);
+
+    return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        filename,
+        up,
+        down,
+        checksum: checksum(sql),
+    };
+}
+
+export async function loadMigrations(dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+    const files = (await readdir(dir)).filter((f) => f.endsWith('.sql')).sort();
+    const migrations = await Promise.all(
+        files.map(async (f) => parseMigration(f, await readFile(path.join(dir, f), 'utf8')))
+    );
+
+    migrations.sort((a, b) => a.version - b.version);
+    for (let i = 1; i < migrations.length; i++) {
+        if (migrations[i].version === migrations[i - 1].version) {
+            throw new MigrationError(
+                'duplicate_version',
+                `${migrations[i - 1].filename} and ${migrations[i].filename} share version ${migrations[i].version}`
+            );
+        }
+    }
+    return migrations;
+}
+
+// ============================================
+// Runner
+// ============================================
+
+export class MigrationRunner {
+    private client: ClientBase;
+    private migrations: Migration[];
+
+    constructor(client: ClientBase, migrations: Migration[]) {
+        this.client = client;
+        this.migrations = migrations;
+    }
+
+    async status(): Promise<MigrationStatus[]> {
+        await this.ensureTable();
+        const applied = await this.applied();
+        const byVersion = new Map(applied.map((a) => [a.version, a]));
+
+        const statuses: MigrationStatus[] = this.migrations.map((m) => {
+            const record = byVersion.get(m.version);
+            if (!record) return { version: m.version, name: m.name, state: 'pending' };
+            return {
+                version: m.version,
+                name: m.name,
+                state: record.checksum === m.checksum ? 'applied' : 'changed',
+                appliedAt: record.appliedAt,
+            };
+        });
+
+        // Applied in the database but the file is gone
+        for (const record of applied) {
+            if (!this.migrations.some((m) => m.version === record.version)) {
+                statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+            }
+        }
+
+        return statuses.sort((a, b) => a.version - b.version);
+    }
+
+    // Applies pending migrations in order, up to and including `target` (default: all)
+    async up(target?: number): Promise<Migration[]> {
+        return this.withLock(async () => {
+            const statuses = await this.status();
+            this.assertConsistent(statuses);
+
+            const pending = new Set(statuses.filter((s) => s.state === 'pending').map((s) => s.version));
+            const toApply = this.migrations.filter(
+                (m) => pending.has(m.version) && (target === undefined || m.version <= target)
+            );
+
+            for (const migration of toApply) {
+                await this.transaction(migration, migration.up, async () => {
+                    await this.client.query(
+                        `INSERT INTO ${MIGRATIONS_TABLE} (version, name, checksum) VALUES ($1, $2, $3)`,
+                        [migration.version, migration.name, migration.checksum]
+                    );
+                });
+                console.log(`[Migrate] ▲ ${migration.filename}`);
+            }
+            return toApply;
+        });
+    }
+
+    // Rolls back the most recently applied `steps` migrations, newest first
+    async down(steps: number = 1): Promise<Migration[]> {
+        return this.withLock(async () => {
+            const statuses = await this.status();
+            this.assertConsistent(statuses);
+
+            const applied = statuses.filter((s) => s.state === 'applied').reverse().slice(0, steps);
+            const toRevert = applied.map((s) => this.migrations.find((m) => m.version === s.version)!);
+
+            const irreversible = toRevert.find((m) => !m.down);
+            if (irreversible) {
+                throw new MigrationError('no_down', `${irreversible.filename} has no "-- migrate:down" section`);
+            }
+
+            for (const migration of toRevert) {
+                await this.transaction(migration, migration.down, async () => {
+                    await this.client.query(`DELETE FROM ${MIGRATIONS_TABLE} WHERE version = $1`, [migration.version]);
+                });
+                console.log(`[Migrate] ▼ ${migration.filename}`);
+            }
+            return toRevert;
+        });
+    }
+
+    // ── Internals ────────────────────────────────────────────────────────────
+
+    private async ensureTable(): Promise<void> {
+        await this.client.query(`
+            CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+                version INTEGER PRIMARY KEY,
+                name TEXT NOT NULL,
+                checksum TEXT NOT NULL,
+                applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+            )
+        `);
+    }
+
+    private async applied(): Promise<AppliedMigration[]> {
+        const result = await this.client.query(
+            `SELECT version, name, checksum, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`
+        );
+        return result.rows.map((row) => ({
+            version: row.version as number,
+            name: row.name as string,
+            checksum: row.checksum as string,
+            appliedAt: new Date(row.applied_at as string),
+        }));
+    }
+
+    // Refuse to run on top of history that no longer matches the files on disk
+    private assertConsistent(statuses: MigrationStatus[]): void {
+        const changed = statuses.find((s) => s.state === 'changed');
+        if (changed) {
+            throw new MigrationError(
+                'checksum_mismatch',
+                `Migration ${changed.version}_${changed.name} was edited after being applied – add a new migration instead`
+            );
+        }
+        const missing = statuses.find((s) => s.state === 'missing');
+        if (missing) {
+            throw new MigrationError(
+                'missing_file',
+                `Migration ${missing.version}_${missing.name} is applied but its file is missing`
+            );
+        }
+    }
+
+    // Postgres DDL is transactional, so a failed migration leaves no partial schema behind
+    private async transaction(migration: Migration, sql: string, record: () => Promise<void>): Promise<void> {
+        await this.client.query('BEGIN');
+        try {
+            await this.client.query(sql);
+            await record();
+            await this.client.query('COMMIT');
+        } catch (error: unknown) {
+            await this.client.query('ROLLBACK');
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`${migration.filename}: ${message}`);
+        }
+    }
+
+    private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+        await this.client.query('SELECT pg_advisory_lock($1)', [ADVISORY_LOCK_KEY]);
+        try {
+            return await fn();
+        } finally {
+            await this.client.query('SELECT pg_advisory_unlock($1)', [ADVISORY_LOCK_KEY]);
+        }
+    }
+}
@@ -0,0 +1,63 @@
+-- Initial schema: tweets, alerts and per-minute velocity snapshots
+-- (previously kept as copy-paste SQL in SUPABASE_TABLES)
+
+-- migrate:up
+CREATE TABLE tweets (
+  id TEXT PRIMARY KEY,
+  text TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_username TEXT NOT NULL,
+  author_display_name TEXT,
+  author_avatar_url TEXT,
+  author_verified BOOLEAN DEFAULT FALSE,
+  author_follower_count INTEGER DEFAULT 0,
+  likes INTEGER DEFAULT 0,
+  retweets INTEGER DEFAULT 0,
+  replies INTEGER DEFAULT 0,
+  views INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL,
+  source TEXT DEFAULT 'mock',
+  source_kind TEXT NOT NULL DEFAULT 'mock',
+  url TEXT,
+  media JSONB,
+  hashtags TEXT[],
+  mentions TEXT[],
+  cashtags TEXT[],
+  lang TEXT,
+  outlets JSONB,
+  story_id TEXT,
+  sentiment_score FLOAT,
+  sentiment_label TEXT,
+  sentiment_confidence FLOAT,
+  sentiment_keywords TEXT[],
+  sentiment_analyzed_at TIMESTAMPTZ,
+  category TEXT,
+  spam_score FLOAT DEFAULT 0,
+  is_filtered BOOLEAN DEFAULT FALSE,
+  inserted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE alerts (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT TRUE,
+  conditions JSONB NOT NULL,
+  actions JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_triggered_at TIMESTAMPTZ,
+  trigger_count INTEGER DEFAULT 0
+);
+
+CREATE TABLE velocity_snapshots (
+  id TEXT PRIMARY KEY,
+  timestamp TIMESTAMPTZ NOT NULL,
+  count INTEGER NOT NULL,
+  sentiment_avg FLOAT,
+  top_categories JSONB,
+  top_keywords JSONB
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS velocity_snapshots;
+DROP TABLE IF EXISTS alerts;
+DROP TABLE IF EXISTS tweets;
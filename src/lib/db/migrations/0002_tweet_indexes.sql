@@ -0,0 +1,26 @@
+-- Indexes for the history, velocity and alert queries, plus full-text search on tweet text.
+-- Item ids are derived from the canonical URL (see canonicalItemId), so one row per URL is
+-- already the invariant – the unique constraint just lets the database enforce it. The initial
+-- schema didn't enforce it, though, so duplicates that an older database may hold are removed
+-- first, keeping the most recent row for each URL. That delete isn't undone by migrate:down.
+
+-- migrate:up
+CREATE INDEX tweets_created_at_idx ON tweets (created_at DESC, id DESC);
+CREATE INDEX tweets_category_created_at_idx ON tweets (category, created_at DESC);
+CREATE INDEX tweets_author_id_created_at_idx ON tweets (author_id, created_at DESC);
+CREATE INDEX tweets_text_fts_idx ON tweets USING GIN (to_tsvector('english', text));
+DELETE FROM tweets older
+USING tweets newer
+WHERE older.url = newer.url
+  AND (older.created_at, older.id) < (newer.created_at, newer.id);
+ALTER TABLE tweets ADD CONSTRAINT tweets_url_key UNIQUE (url);
+
+CREATE INDEX velocity_snapshots_timestamp_idx ON velocity_snapshots (timestamp);
+
+-- migrate:down
+DROP INDEX IF EXISTS velocity_snapshots_timestamp_idx;
+ALTER TABLE tweets DROP CONSTRAINT IF EXISTS tweets_url_key;
+DROP INDEX IF EXISTS tweets_text_fts_idx;
+DROP INDEX IF EXISTS tweets_author_id_created_at_idx;
+DROP INDEX IF EXISTS tweets_category_created_at_idx;
+DROP INDEX IF EXISTS tweets_created_at_idx;
@@ -0,0 +1,13 @@
+-- Velocity snapshots at minute, hour and day resolution, so retention can roll minutes up
+-- into long-lived aggregates. Existing rows are all minute buckets.
+
+-- migrate:up
+ALTER TABLE velocity_snapshots ADD COLUMN resolution TEXT NOT NULL DEFAULT 'minute';
+DROP INDEX IF EXISTS velocity_snapshots_timestamp_idx;
+CREATE INDEX velocity_snapshots_resolution_timestamp_idx ON velocity_snapshots (resolution, timestamp);
+
+-- migrate:down
+DROP INDEX IF EXISTS velocity_snapshots_resolution_timestamp_idx;
+DELETE FROM velocity_snapshots WHERE resolution <> 'minute';
+ALTER TABLE velocity_snapshots DROP COLUMN resolution;
+CREATE INDEX velocity_snapshots_timestamp_idx ON velocity_snapshots (timestamp);
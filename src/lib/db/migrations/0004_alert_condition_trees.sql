@@ -0,0 +1,14 @@
+-- Alert conditions become a tree of ALL / ANY / NOT groups. Flat condition lists (implicitly
+-- ALL) are wrapped in a root ALL group.
+
+-- migrate:up
+UPDATE alerts
+SET conditions = jsonb_build_object('op', 'all', 'conditions', conditions)
+WHERE jsonb_typeof(conditions) = 'array';
+
+-- migrate:down
+-- Only trees that are a single ALL group of plain conditions can be flattened back
+UPDATE alerts
+SET conditions = conditions -> 'conditions'
+WHERE conditions ->> 'op' = 'all'
+  AND NOT jsonb_path_exists(conditions, '$.conditions[*].op');
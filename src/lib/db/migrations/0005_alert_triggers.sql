@@ -0,0 +1,22 @@
+-- Per-alert throttling rules and a log of every trigger with the evidence it fired on.
+-- History rows aren't tied to the alerts table, so they outlive deleted alerts.
+
+-- migrate:up
+ALTER TABLE alerts ADD COLUMN throttle JSONB;
+
+CREATE TABLE alert_triggers (
+  id TEXT PRIMARY KEY,
+  alert_id TEXT NOT NULL,
+  alert_name TEXT NOT NULL,
+  triggered_at TIMESTAMPTZ NOT NULL,
+  dedupe_keys JSONB NOT NULL DEFAULT '[]',
+  details TEXT,
+  conditions JSONB,
+  evidence JSONB
+);
+CREATE INDEX alert_triggers_triggered_at_idx ON alert_triggers (triggered_at DESC);
+CREATE INDEX alert_triggers_alert_id_triggered_at_idx ON alert_triggers (alert_id, triggered_at DESC);
+
+-- migrate:down
+DROP TABLE IF EXISTS alert_triggers;
+ALTER TABLE alerts DROP COLUMN throttle;
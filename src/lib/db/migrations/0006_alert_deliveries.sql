@@ -0,0 +1,27 @@
+-- Notification outbox: one row per alert action, retried until delivered or dead-lettered.
+-- Like alert_triggers, rows aren't tied to the alerts table.
+
+-- migrate:up
+CREATE TABLE alert_deliveries (
+  id TEXT PRIMARY KEY,
+  trigger_id TEXT,
+  alert_id TEXT NOT NULL,
+  alert_name TEXT NOT NULL,
+  action JSONB NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL,
+  next_attempt_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  last_error TEXT,
+  last_status INTEGER
+);
+CREATE INDEX alert_deliveries_status_next_attempt_at_idx ON alert_deliveries (status, next_attempt_at);
+CREATE INDEX alert_deliveries_created_at_idx ON alert_deliveries (created_at DESC);
+CREATE INDEX alert_deliveries_trigger_id_idx ON alert_deliveries (trigger_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS alert_deliveries;
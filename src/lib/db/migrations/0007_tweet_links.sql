@@ -0,0 +1,7 @@
+-- Links shared in a post (X entities.urls, expanded), kept apart from the post's own permalink in url
+
+-- migrate:up
+ALTER TABLE tweets ADD COLUMN links TEXT[];
+
+-- migrate:down
+ALTER TABLE tweets DROP COLUMN IF EXISTS links;
@@ -0,0 +1,22 @@
+-- Per-story totals, written by the retention job before a story's items expire so the story
+-- outlives them. item_ids / outlet_ids make re-aggregating the same items a no-op.
+
+-- migrate:up
+CREATE TABLE story_aggregates (
+  id TEXT PRIMARY KEY,
+  headline TEXT NOT NULL,
+  first_seen_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  source_count INTEGER NOT NULL DEFAULT 0,
+  sentiment_score FLOAT,
+  sentiment_label TEXT,
+  sentiment_analyzed_count INTEGER,
+  item_ids TEXT[] NOT NULL DEFAULT '{}',
+  outlet_ids TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL
+);
+CREATE INDEX story_aggregates_last_seen_at_idx ON story_aggregates (last_seen_at DESC);
+
+-- migrate:down
+DROP TABLE IF EXISTS story_aggregates;
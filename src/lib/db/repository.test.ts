@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RepositoryError, decodeCursor, encodeCursor, parseSearch } from './repository';
+
+function cursorOf(payload: unknown): string {
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+test('a cursor round-trips the createdAt and id it was made from', () => {
+    const createdAt = new Date('2026-01-01T12:00:00Z');
+    assert.deepEqual(decodeCursor(encodeCursor({ id: 'url_abc-123', createdAt })), { createdAt, id: 'url_abc-123' });
+});
+
+test('malformed cursors and ids outside the item id charset are rejected', () => {
+    const rejected = [
+        'not base64 json',
+        cursorOf(['2026-01-01T12:00:00Z']),
+        cursorOf(['not a date', 'url_abc']),
+        cursorOf(['2026-01-01T12:00:00Z', 42]),
+        // Would break out of the PostgREST or() filter the id is interpolated into
+        cursorOf(['2026-01-01T12:00:00Z', 'x),id.gt.0']),
+        cursorOf(['2026-01-01T12:00:00Z', 'a b']),
+    ];
+    for (const cursor of rejected) {
+        assert.throws(() => decodeCursor(cursor), (error: unknown) => error instanceof RepositoryError && error.code === 'invalid_cursor');
+    }
+});
+
+test('parseSearch groups OR terms and keeps phrases and exclusions', () => {
+    assert.deepEqual(parseSearch('airdrop OR retroactive "mainnet launch" -scam'), {
+        include: [['airdrop', 'retroactive'], ['mainnet launch']],
+        exclude: ['scam'],
+    });
+    assert.deepEqual(parseSearch('a or b or c d'), { include: [['a', 'b', 'c'], ['d']], exclude: [] });
+    // A leading or dangling OR has nothing to join
+    assert.deepEqual(parseSearch('OR a OR'), { include: [['a']], exclude: [] });
+});
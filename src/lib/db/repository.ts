@@ -0,0 +1,245 @@
+// Repository Layer
+// Storage-agnostic access to tweets, alerts, velocity snapshots and story aggregates.
+// Supabase when configured (see client.ts), otherwise embedded SQLite, with an in-memory fallback.
+
+import type {
+    Tweet,
+    TweetCategory,
+    TweetSourceKind,
+    Alert,
+    AlertTrigger,
+    AlertDelivery,
+    AlertDeliveryStatus,
+    VelocitySnapshot,
+    SnapshotResolution,
+    StoryAggregate,
+} from './schema';
+
+// ============================================
+// Query Types
+// ============================================
+
+export interface TimeRange {
+    since?: Date;
+    until?: Date;
+}
+
+export interface TweetQuery extends TimeRange {
+    limit?: number;
+    // Opaque keyset cursor from a previous Page.nextCursor
+    cursor?: string;
+    sourceKinds?: TweetSourceKind[];
+    categories?: TweetCategory[];
+    authorId?: string;
+    storyId?: string;
+    // Full-text search on tweet text (web-search syntax: words, "phrases", -exclusions)
+    search?: string;
+    // true: only spam-flagged items (see isSpam), false: only clean ones
+    spam?: boolean;
+}
+
+export interface SnapshotQuery extends TimeRange {
+    limit?: number;
+    // Default 'minute'
+    resolution?: SnapshotResolution;
+}
+
+export interface Page<T> {
+    items: T[];
+    nextCursor: string | null;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export function pageSize(limit?: number): number {
+    return Math.min(Math.max(limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+// Same cut-off TweetCard uses for its spam badge
+export const SPAM_SCORE_THRESHOLD = 0.7;
+
+export function isSpam(tweet: Pick<Tweet, 'isFiltered' | 'spamScore'>): boolean {
+    return !!tweet.isFiltered || (tweet.spamScore ?? 0) > SPAM_SCORE_THRESHOLD;
+}
+
+// ============================================
+// Repository Interfaces
+// ============================================
+
+export interface TweetRepository {
+    // Inserts new tweets and overwrites existing ones with the same id. A url belongs to one row: a
+    // tweet whose url is already stored under another id (e.g. an RSS item linking to an X status
+    // the X ingest stored under the tweet id) is skipped, not an error.
+    upsert(tweets: Tweet[]): Promise<void>;
+    get(id: string): Promise<Tweet | null>;
+    // Newest first, paginated with a (createdAt, id) keyset cursor
+    query(query?: TweetQuery): Promise<Page<Tweet>>;
+    count(range?: TimeRange): Promise<number>;
+    // Returns how many rows were deleted
+    remove(ids: string[]): Promise<number>;
+}
+
+export interface AlertRepository {
+    list(): Promise<Alert[]>;
+    get(id: string): Promise<Alert | null>;
+    save(alert: Alert): Promise<Alert>;
+    remove(id: string): Promise<boolean>;
+    // Bumps triggerCount and sets lastTriggeredAt; null if the alert no longer exists
+    markTriggered(id: string, at?: Date): Promise<Alert | null>;
+}
+
+export interface AlertTriggerQuery extends TimeRange {
+    alertId?: string;
+    limit?: number;
+}
+
+export interface AlertTriggerRepository {
+    record(trigger: AlertTrigger): Promise<void>;
+    // Newest first
+    list(query?: AlertTriggerQuery): Promise<AlertTrigger[]>;
+}
+
+export interface AlertDeliveryQuery extends TimeRange {
+    alertId?: string;
+    triggerIds?: string[];
+    status?: AlertDeliveryStatus;
+    limit?: number;
+}
+
+export interface AlertDeliveryRepository {
+    // Inserts or overwrites by id
+    save(delivery: AlertDelivery): Promise<void>;
+    get(id: string): Promise<AlertDelivery | null>;
+    // Newest first, by createdAt
+    list(query?: AlertDeliveryQuery): Promise<AlertDelivery[]>;
+    // Pending deliveries whose nextAttemptAt has passed, longest overdue first
+    due(now?: Date, limit?: number): Promise<AlertDelivery[]>;
+}
+
+export interface SnapshotRepository {
+    // Upserts by id, so re-flushing a bucket replaces it
+    insert(snapshots: VelocitySnapshot[]): Promise<void>;
+    // Oldest first
+    range(query?: SnapshotQuery): Promise<VelocitySnapshot[]>;
+    remove(ids: string[]): Promise<number>;
+}
+
+// The range applies to lastSeenAt
+export interface StoryAggregateQuery extends TimeRange {
+    limit?: number;
+}
+
+export interface StoryAggregateRepository {
+    // Inserts or overwrites by id
+    upsert(stories: StoryAggregate[]): Promise<void>;
+    // The stored aggregates among `ids` – unknown ids are left out
+    getMany(ids: string[]): Promise<StoryAggregate[]>;
+    // Most recently active first
+    list(query?: StoryAggregateQuery): Promise<StoryAggregate[]>;
+    remove(ids: string[]): Promise<number>;
+}
+
+export interface Repositories {
+    kind: 'supabase' | 'sqlite' | 'memory';
+    tweets: TweetRepository;
+    alerts: AlertRepository;
+    triggers: AlertTriggerRepository;
+    deliveries: AlertDeliveryRepository;
+    snapshots: SnapshotRepository;
+    stories: StoryAggregateRepository;
+}
+
+// Follows nextCursor until the query is exhausted or `max` items are collected
+export async function queryAll(repository: TweetRepository, query: TweetQuery = {}, max: number = 20_000): Promise<Tweet[]> {
+    const items: Tweet[] = [];
+    let cursor = query.cursor;
+
+    do {
+        const page = await repository.query({ ...query, cursor, limit: MAX_PAGE_SIZE });
+        items.push(...page.items);
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor && items.length < max);
+
+    return items.slice(0, max);
+}
+
+// ============================================
+// Errors
+// ============================================
+
+export class RepositoryError extends Error {
+    code: 'invalid_cursor' | 'storage';
+
+    constructor(code: RepositoryError['code'], message: string) {
+        super(message);
+        this.name = 'RepositoryError';
+        this.code = code;
+    }
+}
+
+// ============================================
+// Cursors
+// ============================================
+
+export interface TweetCursor {
+    createdAt: Date;
+    id: string;
+}
+
+export function encodeCursor(tweet: Pick<Tweet, 'id' | 'createdAt'>): string {
+    const payload = JSON.stringify([new Date(tweet.createdAt).toISOString(), tweet.id]);
+    return Buffer.from(payload).toString('base64url');
+}
+
+// Item ids are url_/guid_/item_ hashes, numeric X ids or mock_ ids
+const CURSOR_ID = /^[\w-]+$/;
+
+export function decodeCursor(cursor: string): TweetCursor {
+    try {
+        const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        const date = new Date(createdAt);
+        // The id ends up in query filters (PostgREST or() syntax), so only the id charset is accepted
+        if (typeof id !== 'string' || !CURSOR_ID.test(id) || Number.isNaN(date.getTime())) throw new Error();
+        return { createdAt: date, id };
+    } catch {
+        throw new RepositoryError('invalid_cursor', 'cursor is malformed');
+    }
+}
+
+// Sort key shared by both implementations: createdAt desc, then id desc as tie-breaker
+export function compareNewestFirst(a: Pick<Tweet, 'id' | 'createdAt'>, b: Pick<Tweet, 'id' | 'createdAt'>): number {
+    const diff = new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    if (diff !== 0) return diff;
+    return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+// ============================================
+// Search
+// ============================================
+
+export interface SearchTerms {
+    // Every group is required and matches when any of its terms does: `a OR b c` → [[a, b], [c]]
+    include: string[][];
+    exclude: string[];
+}
+
+// Splits web-search syntax the way websearch_to_tsquery does: "quoted phrases" stay whole, OR joins
+// the terms either side of it, -term excludes
+export function parseSearch(search: string): SearchTerms {
+    const terms: SearchTerms = { include: [], exclude: [] };
+    let or = false;
+    for (const raw of search.toLowerCase().match(/-?"[^"]+"|\S+/g) ?? []) {
+        if (raw === 'or') {
+            or = terms.include.length > 0;
+            continue;
+        }
+        const term = raw.replace(/^-/, '').replace(/"/g, '').trim();
+        if (!term) continue;
+        if (raw.startsWith('-')) terms.exclude.push(term);
+        else if (or) terms.include[terms.include.length - 1].push(term);
+        else terms.include.push([term]);
+        or = false;
+    }
+    return terms;
+}
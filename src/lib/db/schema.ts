@@ -2,6 +2,10 @@
 // This file defines TypeScript types that mirror the database structure
 // For development, we use local state; for production, connect to Supabase
 
+import type { VelocityDimension } from '../velocity/series';
+import type { Season } from '../alerts/detectors';
+import { normalizeConditions } from '../alerts/conditions';
+
 export interface Tweet {
     id: string;
     text: string;
@@ -21,6 +25,26 @@ export interface Tweet {
     };
     createdAt: Date;
     source: 'api' | 'mock' | 'crawler';
+    // Which upstream produced the item (`source` lumps RSS, NewsAPI and X together as 'api')
+    sourceKind: TweetSourceKind;
+
+    // Link to the original article or post
+    url?: string;
+    // Links shared in the post itself, expanded (X `entities.urls`) – `url` is the post's permalink
+    links?: string[];
+    media?: TweetMedia[];
+    // Stored without the leading #, @ or $
+    hashtags?: string[];
+    mentions?: string[];
+    cashtags?: string[];
+    // BCP 47 language tag as reported upstream (X `lang`, feed <language>, NewsAPI query language)
+    lang?: string;
+
+    // Every outlet that published this story (cross-source duplicates collapse into one item)
+    outlets?: TweetOutlet[];
+
+    // Near-duplicate cluster this item belongs to (see lib/stories)
+    storyId?: string;
 
     // AI-enriched fields
     sentiment?: SentimentAnalysis;
@@ -29,6 +53,25 @@ export interface Tweet {
     isFiltered?: boolean;
 }
 
+export type TweetSourceKind = 'rss' | 'newsapi' | 'x' | 'mock';
+export const TWEET_SOURCE_KINDS: TweetSourceKind[] = ['rss', 'newsapi', 'x', 'mock'];
+
+export interface TweetMedia {
+    type: 'image' | 'video' | 'animated_gif';
+    url: string;
+    previewUrl?: string;
+    width?: number;
+    height?: number;
+    altText?: string;
+}
+
+export interface TweetOutlet {
+    authorId: string;
+    username: string;
+    displayName: string;
+    url?: string;
+}
+
 export interface SentimentAnalysis {
     score: number; // -1 to 1 (negative to positive)
     label: 'positive' | 'negative' | 'neutral';
@@ -46,15 +89,31 @@ export type TweetCategory =
     | 'spam'
     | 'unknown';
 
+export const TWEET_CATEGORIES: TweetCategory[] = ['breaking_news', 'rumor', 'opinion', 'analysis', 'official', 'spam', 'unknown'];
+
 export interface Alert {
     id: string;
     name: string;
     enabled: boolean;
-    conditions: AlertCondition[];
+    // Root of the condition tree; stored alerts with a flat list are read as an ALL group
+    conditions: AlertConditionGroup;
     actions: AlertAction[];
     createdAt: Date;
     lastTriggeredAt?: Date;
     triggerCount: number;
+    // Cooldown, re-arm and dedupe rules; omitted fields use DEFAULT_ALERT_THROTTLE
+    throttle?: Partial<AlertThrottle>;
+}
+
+export interface AlertThrottle {
+    // Minimum time before the same dedupe key can trigger again
+    cooldownMinutes: number;
+    // 'cooldown': fires again once the cooldown has passed, even mid-spike. 'clear': after firing,
+    // the conditions must stop matching for clearMinutes before the alert re-arms (hysteresis)
+    rearm: 'cooldown' | 'clear';
+    clearMinutes: number;
+    // What counts as the same trigger: the alert itself, or the matched keyword, story or item
+    dedupeBy: 'alert' | 'keyword' | 'story' | 'item';
 }
 
 export interface AlertCondition {
@@ -63,75 +122,162 @@ export interface AlertCondition {
     keywords?: string[];
     categories?: TweetCategory[];
     windowMinutes?: number;
+    // velocity_spike only: watch one breakdown series (or, without `key`, each one) instead of the total
+    series?: { by: VelocityDimension; key?: string };
+    // velocity_spike only: anomaly detector by name (default `mean`); `threshold` is in the detector's
+    // units – percent for `mean`, standard deviations for the others
+    detector?: string;
+    // seasonal detector only: compare with the same time yesterday (`day`, default) or last week
+    season?: Season;
+}
+
+// ALL: every child matches, ANY: at least one does, NOT: none of them does
+export interface AlertConditionGroup {
+    op: 'all' | 'any' | 'not';
+    conditions: AlertConditionNode[];
 }
 
+export type AlertConditionNode = AlertCondition | AlertConditionGroup;
+
+export const ALERT_CONDITION_TYPES: AlertCondition['type'][] = ['velocity_spike', 'sentiment_shift', 'keyword_match', 'category_match'];
+
 export interface AlertAction {
-    type: 'discord_webhook' | 'in_app_notification' | 'email';
+    type: 'discord_webhook' | 'slack_webhook' | 'telegram' | 'webhook' | 'in_app_notification' | 'email';
+    // discord_webhook, slack_webhook and webhook
     webhookUrl?: string;
     email?: string;
+    // telegram: the bot's token and the chat it posts to (numeric id or @channelname)
+    botToken?: string;
+    chatId?: string;
+    // webhook: HMAC-SHA256 key for the signature header
+    secret?: string;
+    // email: collect triggers into one message per hour or day instead of mailing each
+    digest?: EmailDigest;
+}
+
+export type EmailDigest = 'hourly' | 'daily';
+
+export const ALERT_ACTION_TYPES: AlertAction['type'][] = [
+    'discord_webhook',
+    'slack_webhook',
+    'telegram',
+    'webhook',
+    'in_app_notification',
+    'email',
+];
+
+// One row per fired alert, with what it fired on
+export interface AlertTrigger {
+    id: string;
+    alertId: string;
+    // Copied so the history still reads after the alert is renamed or deleted
+    alertName: string;
+    triggeredAt: Date;
+    // The dedupe keys this trigger consumed (see AlertThrottle.dedupeBy)
+    dedupeKeys: string[];
+    details: string;
+    // Leaf conditions that matched
+    conditions: AlertCondition[];
+    evidence: AlertEvidence;
 }
 
+export interface AlertEvidence {
+    // The first few matched items, trimmed
+    items: {
+        id: string;
+        text: string;
+        author: string;
+        url?: string;
+        createdAt: Date;
+        storyId?: string;
+    }[];
+    itemCount: number;
+    velocity: { current: number; average: number };
+    // Average score of the matched items that have been analysed
+    sentiment?: number;
+    // Latest velocity bucket at trigger time
+    snapshot?: VelocitySnapshot;
+}
+
+// One notification per alert action, queued in the outbox (lib/alerts/outbox) until it's delivered
+// or runs out of attempts ('dead' – the dead-letter list, replayable)
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface AlertDelivery {
+    id: string;
+    // The trigger it notifies about (for test-fires, a trigger that isn't in the history)
+    triggerId?: string;
+    alertId: string;
+    alertName: string;
+    action: AlertAction;
+    payload: AlertNotification;
+    status: AlertDeliveryStatus;
+    attempts: number;
+    maxAttempts: number;
+    createdAt: Date;
+    // When a pending delivery is tried next
+    nextAttemptAt?: Date;
+    lastAttemptAt?: Date;
+    deliveredAt?: Date;
+    lastError?: string;
+    // HTTP status of the last attempt, for webhook channels
+    lastStatus?: number;
+}
+
+// A delivery as the API lists it – the payload repeats the trigger's evidence
+export type AlertDeliverySummary = Omit<AlertDelivery, 'payload'>;
+
+// A row of /api/alerts/history: the trigger and what became of each of its actions
+export interface AlertHistoryEntry extends AlertTrigger {
+    deliveries: AlertDeliverySummary[];
+}
+
+// What a notification says, stored with the delivery and rendered for its channel on every attempt
+export interface AlertNotification {
+    // Type of the first matched condition
+    type: string;
+    details: string;
+    items: AlertEvidence['items'];
+    velocity?: number;
+    sentiment?: number;
+    timestamp: Date;
+}
+
+// Minute snapshots are written by the ingestion pipeline; hour/day ones are rollups (see lib/retention)
+export type SnapshotResolution = 'minute' | 'hour' | 'day';
+
 export interface VelocitySnapshot {
     id: string;
     timestamp: Date;
+    // Absent means 'minute'
+    resolution?: SnapshotResolution;
     count: number;
     sentimentAvg: number;
     topCategories: { category: TweetCategory; count: number }[];
     topKeywords: { keyword: string; count: number }[];
 }
 
-// Supabase table definitions (for reference when setting up Supabase)
-export const SUPABASE_TABLES = {
-    tweets: `
-    CREATE TABLE tweets (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      text TEXT NOT NULL,
-      author_id TEXT NOT NULL,
-      author_username TEXT NOT NULL,
-      author_display_name TEXT,
-      author_avatar_url TEXT,
-      author_verified BOOLEAN DEFAULT FALSE,
-      author_follower_count INTEGER DEFAULT 0,
-      likes INTEGER DEFAULT 0,
-      retweets INTEGER DEFAULT 0,
-      replies INTEGER DEFAULT 0,
-      views INTEGER DEFAULT 0,
-      created_at TIMESTAMPTZ NOT NULL,
-      source TEXT DEFAULT 'mock',
-      sentiment_score FLOAT,
-      sentiment_label TEXT,
-      sentiment_confidence FLOAT,
-      sentiment_keywords TEXT[],
-      sentiment_analyzed_at TIMESTAMPTZ,
-      category TEXT,
-      spam_score FLOAT DEFAULT 0,
-      is_filtered BOOLEAN DEFAULT FALSE,
-      inserted_at TIMESTAMPTZ DEFAULT NOW()
-    );
-  `,
-    alerts: `
-    CREATE TABLE alerts (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      name TEXT NOT NULL,
-      enabled BOOLEAN DEFAULT TRUE,
-      conditions JSONB NOT NULL,
-      actions JSONB NOT NULL,
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      last_triggered_at TIMESTAMPTZ,
-      trigger_count INTEGER DEFAULT 0
-    );
-  `,
-    velocity_snapshots: `
-    CREATE TABLE velocity_snapshots (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-      timestamp TIMESTAMPTZ NOT NULL,
-      count INTEGER NOT NULL,
-      sentiment_avg FLOAT,
-      top_categories JSONB,
-      top_keywords JSONB
-    );
-  `,
-} as const;
+// Totals for one story (see lib/stories), written by retention before its items expire so the
+// story outlives them
+export interface StoryAggregate {
+    id: string;
+    headline: string;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+    itemCount: number;
+    sourceCount: number;
+    sentiment: {
+        score: number;
+        label: SentimentAnalysis['label'];
+        analyzedCount: number;
+    } | null;
+    // Items and outlets already counted, so aggregating the same item twice changes nothing
+    itemIds: string[];
+    outletIds: string[];
+    updatedAt: Date;
+}
+
+// Table definitions live in ./migrations (applied with `npm run db:migrate`)
 
 // Helper function to convert database row to Tweet type
 export function rowToTweet(row: Record<string, unknown>): Tweet {
@@ -154,6 +300,16 @@ export function rowToTweet(row: Record<string, unknown>): Tweet {
         },
         createdAt: new Date(row.created_at as string),
         source: row.source as 'api' | 'mock' | 'crawler',
+        sourceKind: (row.source_kind as TweetSourceKind | null) ?? 'mock',
+        url: (row.url as string | null) ?? undefined,
+        links: (row.links as string[] | null) ?? undefined,
+        media: (row.media as TweetMedia[] | null) ?? undefined,
+        hashtags: (row.hashtags as string[] | null) ?? undefined,
+        mentions: (row.mentions as string[] | null) ?? undefined,
+        cashtags: (row.cashtags as string[] | null) ?? undefined,
+        lang: (row.lang as string | null) ?? undefined,
+        outlets: (row.outlets as TweetOutlet[] | null) ?? undefined,
+        storyId: (row.story_id as string | null) ?? undefined,
         sentiment: row.sentiment_score !== null ? {
             score: row.sentiment_score as number,
             label: row.sentiment_label as 'positive' | 'negative' | 'neutral',
@@ -166,3 +322,198 @@ export function rowToTweet(row: Record<string, unknown>): Tweet {
         isFiltered: row.is_filtered as boolean,
     };
 }
+
+// Inverse of rowToTweet – flattens a Tweet into a `tweets` row for upserts
+export function tweetToRow(tweet: Tweet): Record<string, unknown> {
+    return {
+        id: tweet.id,
+        text: tweet.text,
+        author_id: tweet.author.id,
+        author_username: tweet.author.username,
+        author_display_name: tweet.author.displayName,
+        author_avatar_url: tweet.author.avatarUrl,
+        author_verified: tweet.author.verified,
+        author_follower_count: tweet.author.followerCount,
+        likes: tweet.metrics.likes,
+        retweets: tweet.metrics.retweets,
+        replies: tweet.metrics.replies,
+        views: tweet.metrics.views,
+        created_at: new Date(tweet.createdAt).toISOString(),
+        source: tweet.source,
+        source_kind: tweet.sourceKind,
+        url: tweet.url ?? null,
+        links: tweet.links ?? null,
+        media: tweet.media ?? null,
+        hashtags: tweet.hashtags ?? null,
+        mentions: tweet.mentions ?? null,
+        cashtags: tweet.cashtags ?? null,
+        lang: tweet.lang ?? null,
+        outlets: tweet.outlets ?? null,
+        story_id: tweet.storyId ?? null,
+        sentiment_score: tweet.sentiment?.score ?? null,
+        sentiment_label: tweet.sentiment?.label ?? null,
+        sentiment_confidence: tweet.sentiment?.confidence ?? null,
+        sentiment_keywords: tweet.sentiment?.keywords ?? null,
+        sentiment_analyzed_at: tweet.sentiment ? new Date(tweet.sentiment.analyzedAt).toISOString() : null,
+        category: tweet.category ?? null,
+        spam_score: tweet.spamScore ?? 0,
+        is_filtered: tweet.isFiltered ?? false,
+    };
+}
+
+export function rowToAlert(row: Record<string, unknown>): Alert {
+    return {
+        id: row.id as string,
+        name: row.name as string,
+        enabled: row.enabled as boolean,
+        conditions: normalizeConditions(row.conditions),
+        actions: row.actions as AlertAction[],
+        createdAt: new Date(row.created_at as string),
+        lastTriggeredAt: row.last_triggered_at ? new Date(row.last_triggered_at as string) : undefined,
+        triggerCount: (row.trigger_count as number) ?? 0,
+        throttle: (row.throttle as Alert['throttle'] | null) ?? undefined,
+    };
+}
+
+export function alertToRow(alert: Alert): Record<string, unknown> {
+    return {
+        id: alert.id,
+        name: alert.name,
+        enabled: alert.enabled,
+        conditions: alert.conditions,
+        actions: alert.actions,
+        created_at: new Date(alert.createdAt).toISOString(),
+        last_triggered_at: alert.lastTriggeredAt ? new Date(alert.lastTriggeredAt).toISOString() : null,
+        trigger_count: alert.triggerCount,
+        throttle: alert.throttle ?? null,
+    };
+}
+
+export function rowToAlertTrigger(row: Record<string, unknown>): AlertTrigger {
+    return {
+        id: row.id as string,
+        alertId: row.alert_id as string,
+        alertName: row.alert_name as string,
+        triggeredAt: new Date(row.triggered_at as string),
+        dedupeKeys: (row.dedupe_keys as string[] | null) ?? [],
+        details: (row.details as string | null) ?? '',
+        conditions: (row.conditions as AlertCondition[] | null) ?? [],
+        evidence: row.evidence as AlertEvidence,
+    };
+}
+
+export function alertTriggerToRow(trigger: AlertTrigger): Record<string, unknown> {
+    return {
+        id: trigger.id,
+        alert_id: trigger.alertId,
+        alert_name: trigger.alertName,
+        triggered_at: new Date(trigger.triggeredAt).toISOString(),
+        dedupe_keys: trigger.dedupeKeys,
+        details: trigger.details,
+        conditions: trigger.conditions,
+        evidence: trigger.evidence,
+    };
+}
+
+export function rowToAlertDelivery(row: Record<string, unknown>): AlertDelivery {
+    const date = (value: unknown) => (value ? new Date(value as string) : undefined);
+    const payload = row.payload as AlertNotification;
+    return {
+        id: row.id as string,
+        triggerId: (row.trigger_id as string | null) ?? undefined,
+        alertId: row.alert_id as string,
+        alertName: row.alert_name as string,
+        action: row.action as AlertAction,
+        payload: { ...payload, timestamp: new Date(payload.timestamp) },
+        status: row.status as AlertDeliveryStatus,
+        attempts: (row.attempts as number) ?? 0,
+        maxAttempts: (row.max_attempts as number) ?? 1,
+        createdAt: new Date(row.created_at as string),
+        nextAttemptAt: date(row.next_attempt_at),
+        lastAttemptAt: date(row.last_attempt_at),
+        deliveredAt: date(row.delivered_at),
+        lastError: (row.last_error as string | null) ?? undefined,
+        lastStatus: (row.last_status as number | null) ?? undefined,
+    };
+}
+
+export function alertDeliveryToRow(delivery: AlertDelivery): Record<string, unknown> {
+    const iso = (value?: Date) => (value ? new Date(value).toISOString() : null);
+    return {
+        id: delivery.id,
+        trigger_id: delivery.triggerId ?? null,
+        alert_id: delivery.alertId,
+        alert_name: delivery.alertName,
+        action: delivery.action,
+        payload: delivery.payload,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        max_attempts: delivery.maxAttempts,
+        created_at: new Date(delivery.createdAt).toISOString(),
+        next_attempt_at: iso(delivery.nextAttemptAt),
+        last_attempt_at: iso(delivery.lastAttemptAt),
+        delivered_at: iso(delivery.deliveredAt),
+        last_error: delivery.lastError ?? null,
+        last_status: delivery.lastStatus ?? null,
+    };
+}
+
+export function rowToSnapshot(row: Record<string, unknown>): VelocitySnapshot {
+    return {
+        id: row.id as string,
+        timestamp: new Date(row.timestamp as string),
+        resolution: (row.resolution as SnapshotResolution | null) ?? 'minute',
+        count: row.count as number,
+        sentimentAvg: (row.sentiment_avg as number | null) ?? 0,
+        topCategories: (row.top_categories as VelocitySnapshot['topCategories'] | null) ?? [],
+        topKeywords: (row.top_keywords as VelocitySnapshot['topKeywords'] | null) ?? [],
+    };
+}
+
+export function snapshotToRow(snapshot: VelocitySnapshot): Record<string, unknown> {
+    return {
+        id: snapshot.id,
+        timestamp: new Date(snapshot.timestamp).toISOString(),
+        resolution: snapshot.resolution ?? 'minute',
+        count: snapshot.count,
+        sentiment_avg: snapshot.sentimentAvg,
+        top_categories: snapshot.topCategories,
+        top_keywords: snapshot.topKeywords,
+    };
+}
+
+export function rowToStoryAggregate(row: Record<string, unknown>): StoryAggregate {
+    return {
+        id: row.id as string,
+        headline: row.headline as string,
+        firstSeenAt: new Date(row.first_seen_at as string),
+        lastSeenAt: new Date(row.last_seen_at as string),
+        itemCount: row.item_count as number,
+        sourceCount: row.source_count as number,
+        sentiment: row.sentiment_score !== null ? {
+            score: row.sentiment_score as number,
+            label: row.sentiment_label as SentimentAnalysis['label'],
+            analyzedCount: row.sentiment_analyzed_count as number,
+        } : null,
+        itemIds: (row.item_ids as string[] | null) ?? [],
+        outletIds: (row.outlet_ids as string[] | null) ?? [],
+        updatedAt: new Date(row.updated_at as string),
+    };
+}
+
+export function storyAggregateToRow(story: StoryAggregate): Record<string, unknown> {
+    return {
+        id: story.id,
+        headline: story.headline,
+        first_seen_at: new Date(story.firstSeenAt).toISOString(),
+        last_seen_at: new Date(story.lastSeenAt).toISOString(),
+        item_count: story.itemCount,
+        source_count: story.sourceCount,
+        sentiment_score: story.sentiment?.score ?? null,
+        sentiment_label: story.sentiment?.label ?? null,
+        sentiment_analyzed_count: story.sentiment?.analyzedCount ?? null,
+        item_ids: story.itemIds,
+        outlet_ids: story.outletIds,
+        updated_at: new Date(story.updatedAt).toISOString(),
+    };
+}
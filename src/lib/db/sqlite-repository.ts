@@ -0,0 +1,649 @@
+// SQLite repositories
+// Embedded single-file implementation of the repository interfaces for self-contained deployments.
+// Same tables as the Postgres migrations; arrays and objects are stored as JSON text and
+// tweet text is indexed with FTS5.
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import {
+    rowToTweet,
+    tweetToRow,
+    rowToAlert,
+    alertToRow,
+    rowToAlertTrigger,
+    alertTriggerToRow,
+    rowToAlertDelivery,
+    alertDeliveryToRow,
+    rowToSnapshot,
+    snapshotToRow,
+    rowToStoryAggregate,
+    storyAggregateToRow,
+    type Tweet,
+    type Alert,
+    type AlertTrigger,
+    type AlertDelivery,
+    type VelocitySnapshot,
+    type StoryAggregate,
+} from './schema';
+import {
+    pageSize,
+    SPAM_SCORE_THRESHOLD,
+    encodeCursor,
+    decodeCursor,
+    parseSearch,
+    RepositoryError,
+    type TweetRepository,
+    type AlertRepository,
+    type AlertTriggerRepository,
+    type AlertTriggerQuery,
+    type AlertDeliveryRepository,
+    type AlertDeliveryQuery,
+    type SnapshotRepository,
+    type StoryAggregateRepository,
+    type StoryAggregateQuery,
+    type Repositories,
+    type TweetQuery,
+    type TimeRange,
+    type SnapshotQuery,
+    type Page,
+} from './repository';
+
+export const SQLITE_DEFAULT_PATH = path.join(process.cwd(), 'data', 'crawler.db');
+
+// Applied in order and tracked with PRAGMA user_version – append, never edit
+const SQLITE_MIGRATIONS: string[] = [
+    `
+    CREATE TABLE tweets (
+      id TEXT PRIMARY KEY,
+      text TEXT NOT NULL,
+      author_id TEXT NOT NULL,
+      author_username TEXT NOT NULL,
+      author_display_name TEXT,
+      author_avatar_url TEXT,
+      author_verified INTEGER DEFAULT 0,
+      author_follower_count INTEGER DEFAULT 0,
+      likes INTEGER DEFAULT 0,
+      retweets INTEGER DEFAULT 0,
+      replies INTEGER DEFAULT 0,
+      views INTEGER DEFAULT 0,
+      created_at TEXT NOT NULL,
+      source TEXT DEFAULT 'mock',
+      source_kind TEXT NOT NULL DEFAULT 'mock',
+      url TEXT UNIQUE,
+      media TEXT,
+      hashtags TEXT,
+      mentions TEXT,
+      cashtags TEXT,
+      lang TEXT,
+      outlets TEXT,
+      story_id TEXT,
+      sentiment_score REAL,
+      sentiment_label TEXT,
+      sentiment_confidence REAL,
+      sentiment_keywords TEXT,
+      sentiment_analyzed_at TEXT,
+      category TEXT,
+      spam_score REAL DEFAULT 0,
+      is_filtered INTEGER DEFAULT 0,
+      inserted_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+    CREATE INDEX tweets_created_at_idx ON tweets (created_at DESC, id DESC);
+    CREATE INDEX tweets_category_created_at_idx ON tweets (category, created_at DESC);
+    CREATE INDEX tweets_author_id_created_at_idx ON tweets (author_id, created_at DESC);
+
+    CREATE VIRTUAL TABLE tweets_fts USING fts5(
+      text, content='tweets', content_rowid='rowid', tokenize='porter unicode61'
+    );
+    CREATE TRIGGER tweets_fts_insert AFTER INSERT ON tweets BEGIN
+      INSERT INTO tweets_fts (rowid, text) VALUES (new.rowid, new.text);
+    END;
+    CREATE TRIGGER tweets_fts_delete AFTER DELETE ON tweets BEGIN
+      INSERT INTO tweets_fts (tweets_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+    END;
+    CREATE TRIGGER tweets_fts_update AFTER UPDATE OF text ON tweets BEGIN
+      INSERT INTO tweets_fts (tweets_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+      INSERT INTO tweets_fts (rowid, text) VALUES (new.rowid, new.text);
+    END;
+
+    CREATE TABLE alerts (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      enabled INTEGER DEFAULT 1,
+      conditions TEXT NOT NULL,
+      actions TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      last_triggered_at TEXT,
+      trigger_count INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE velocity_snapshots (
+      id TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      count INTEGER NOT NULL,
+      sentiment_avg REAL,
+      top_categories TEXT,
+      top_keywords TEXT
+    );
+    CREATE INDEX velocity_snapshots_timestamp_idx ON velocity_snapshots (timestamp);
+    `,
+    `
+    ALTER TABLE velocity_snapshots ADD COLUMN resolution TEXT NOT NULL DEFAULT 'minute';
+    DROP INDEX velocity_snapshots_timestamp_idx;
+    CREATE INDEX velocity_snapshots_resolution_timestamp_idx ON velocity_snapshots (resolution, timestamp);
+    `,
+    `
+    UPDATE alerts SET conditions = json_object('op', 'all', 'conditions', json(conditions))
+    WHERE json_type(conditions) = 'array';
+    `,
+    `
+    ALTER TABLE alerts ADD COLUMN throttle TEXT;
+
+    CREATE TABLE alert_triggers (
+      id TEXT PRIMARY KEY,
+      alert_id TEXT NOT NULL,
+      alert_name TEXT NOT NULL,
+      triggered_at TEXT NOT NULL,
+      dedupe_keys TEXT NOT NULL DEFAULT '[]',
+      details TEXT,
+      conditions TEXT,
+      evidence TEXT
+    );
+    CREATE INDEX alert_triggers_triggered_at_idx ON alert_triggers (triggered_at DESC);
+    CREATE INDEX alert_triggers_alert_id_triggered_at_idx ON alert_triggers (alert_id, triggered_at DESC);
+    `,
+    `
+    CREATE TABLE alert_deliveries (
+      id TEXT PRIMARY KEY,
+      trigger_id TEXT,
+      alert_id TEXT NOT NULL,
+      alert_name TEXT NOT NULL,
+      action TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT NOT NULL,
+      next_attempt_at TEXT,
+      last_attempt_at TEXT,
+      delivered_at TEXT,
+      last_error TEXT,
+      last_status INTEGER
+    );
+    CREATE INDEX alert_deliveries_status_next_attempt_at_idx ON alert_deliveries (status, next_attempt_at);
+    CREATE INDEX alert_deliveries_created_at_idx ON alert_deliveries (created_at DESC);
+    CREATE INDEX alert_deliveries_trigger_id_idx ON alert_deliveries (trigger_id);
+    `,
+    `
+    ALTER TABLE tweets ADD COLUMN links TEXT;
+    `,
+    `
+    CREATE TABLE story_aggregates (
+      id TEXT PRIMARY KEY,
+      headline TEXT NOT NULL,
+      first_seen_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL,
+      item_count INTEGER NOT NULL DEFAULT 0,
+      source_count INTEGER NOT NULL DEFAULT 0,
+      sentiment_score REAL,
+      sentiment_label TEXT,
+      sentiment_analyzed_count INTEGER,
+      item_ids TEXT NOT NULL DEFAULT '[]',
+      outlet_ids TEXT NOT NULL DEFAULT '[]',
+      updated_at TEXT NOT NULL
+    );
+    CREATE INDEX story_aggregates_last_seen_at_idx ON story_aggregates (last_seen_at DESC);
+    `,
+];
+
+// ============================================
+// Row Encoding
+// ============================================
+
+// SQLite has no arrays, JSON or booleans – these columns are round-tripped through TEXT / INTEGER
+const JSON_COLUMNS = new Set([
+    'media', 'links', 'hashtags', 'mentions', 'cashtags', 'outlets', 'sentiment_keywords',
+    'conditions', 'actions', 'throttle', 'dedupe_keys', 'evidence', 'action', 'payload', 'top_categories',
+    'top_keywords', 'item_ids', 'outlet_ids',
+]);
+const BOOLEAN_COLUMNS = new Set(['author_verified', 'is_filtered', 'enabled']);
+
+function encodeRow(row: Record<string, unknown>): Record<string, unknown> {
+    const encoded: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+        if (value === null || value === undefined) encoded[column] = null;
+        else if (JSON_COLUMNS.has(column)) encoded[column] = JSON.stringify(value);
+        else if (BOOLEAN_COLUMNS.has(column)) encoded[column] = value ? 1 : 0;
+        else encoded[column] = value;
+    }
+    return encoded;
+}
+
+function decodeRow(row: Record<string, unknown>): Record<string, unknown> {
+    const decoded: Record<string, unknown> = {};
+    for (const [column, value] of Object.entries(row)) {
+        if (value === null) decoded[column] = null;
+        else if (JSON_COLUMNS.has(column)) decoded[column] = JSON.parse(value as string);
+        else if (BOOLEAN_COLUMNS.has(column)) decoded[column] = value === 1;
+        else decoded[column] = value;
+    }
+    return decoded;
+}
+
+// INSERT … ON CONFLICT(id) DO UPDATE for every column of the row
+function upsertSql(table: string, columns: string[]): string {
+    const updates = columns.filter((c) => c !== 'id').map((c) => `${c} = excluded.${c}`);
+    return `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map((c) => `@${c}`).join(', ')})
+        ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`;
+}
+
+// FTS5 has its own query language – quote every term so user input can't inject operators.
+// Terms within a group are ORed, groups are joined with `joiner`.
+function ftsQuery(groups: string[][], joiner: string): string | null {
+    const clauses = groups
+        .map((group) => group
+            .filter((t) => /[\w\u00C0-\uFFFF]/.test(t))
+            .map((t) => `"${t.replace(/"/g, '""')}"`))
+        .filter((quoted) => quoted.length)
+        .map((quoted) => (quoted.length > 1 ? `(${quoted.join(' OR ')})` : quoted[0]));
+    return clauses.length ? clauses.join(joiner) : null;
+}
+
+// Another row already holds this url (tweets.url is UNIQUE)
+function isUrlConflict(error: unknown): boolean {
+    return error instanceof Database.SqliteError
+        && error.code === 'SQLITE_CONSTRAINT_UNIQUE'
+        && error.message.includes('tweets.url');
+}
+
+function removeByIds(db: Database.Database, table: string, ids: string[]): number {
+    const statement = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    return db.transaction(() => ids.reduce((removed, id) => removed + statement.run(id).changes, 0))();
+}
+
+function wrap<T>(operation: string, fn: () => T): T {
+    try {
+        return fn();
+    } catch (error: unknown) {
+        if (error instanceof RepositoryError) throw error;
+        throw new RepositoryError('storage', `${operation}: ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+// ============================================
+// Tweets
+// ============================================
+
+export class SqliteTweetRepository implements TweetRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async upsert(tweets: Tweet[]): Promise<void> {
+        if (!tweets.length) return;
+        wrap('tweets.upsert', () => {
+            const rows = tweets.map((t) => encodeRow(tweetToRow(t)));
+            const statement = this.db.prepare(upsertSql('tweets', Object.keys(rows[0])));
+            this.db.transaction(() => rows.forEach((row) => {
+                // A failed statement only undoes itself, so the rest of the batch still commits
+                try {
+                    statement.run(row);
+                } catch (error: unknown) {
+                    if (!isUrlConflict(error)) throw error;
+                }
+            }))();
+        });
+    }
+
+    async get(id: string): Promise<Tweet | null> {
+        return wrap('tweets.get', () => {
+            const row = this.db.prepare('SELECT * FROM tweets WHERE id = ?').get(id) as Record<string, unknown> | undefined;
+            return row ? rowToTweet(decodeRow(row)) : null;
+        });
+    }
+
+    async query(query: TweetQuery = {}): Promise<Page<Tweet>> {
+        const limit = pageSize(query.limit);
+        const where: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.since) {
+            where.push('created_at >= ?');
+            params.push(query.since.toISOString());
+        }
+        if (query.until) {
+            where.push('created_at < ?');
+            params.push(query.until.toISOString());
+        }
+        if (query.sourceKinds?.length) {
+            where.push(`source_kind IN (${query.sourceKinds.map(() => '?').join(', ')})`);
+            params.push(...query.sourceKinds);
+        }
+        if (query.categories?.length) {
+            where.push(`category IN (${query.categories.map(() => '?').join(', ')})`);
+            params.push(...query.categories);
+        }
+        if (query.authorId) {
+            where.push('author_id = ?');
+            params.push(query.authorId);
+        }
+        if (query.storyId) {
+            where.push('story_id = ?');
+            params.push(query.storyId);
+        }
+        if (query.search) {
+            const { include, exclude } = parseSearch(query.search);
+            const match = ftsQuery(include, ' ');
+            const notMatch = ftsQuery(exclude.map((t) => [t]), ' OR ');
+            if (match) {
+                where.push('rowid IN (SELECT rowid FROM tweets_fts WHERE tweets_fts MATCH ?)');
+                params.push(match);
+            }
+            if (notMatch) {
+                where.push('rowid NOT IN (SELECT rowid FROM tweets_fts WHERE tweets_fts MATCH ?)');
+                params.push(notMatch);
+            }
+        }
+        if (query.spam !== undefined) {
+            const spam = `(is_filtered = 1 OR spam_score > ${SPAM_SCORE_THRESHOLD})`;
+            where.push(query.spam ? spam : `NOT ${spam}`);
+        }
+        if (query.cursor) {
+            const cursor = decodeCursor(query.cursor);
+            const at = cursor.createdAt.toISOString();
+            where.push('(created_at < ? OR (created_at = ? AND id < ?))');
+            params.push(at, at, cursor.id);
+        }
+
+        const sql = `SELECT * FROM tweets ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+            ORDER BY created_at DESC, id DESC LIMIT ?`;
+
+        return wrap('tweets.query', () => {
+            const rows = this.db.prepare(sql).all(...params, limit + 1) as Record<string, unknown>[];
+            const items = rows.slice(0, limit).map((row) => rowToTweet(decodeRow(row)));
+            return {
+                items,
+                nextCursor: rows.length > limit ? encodeCursor(items[items.length - 1]) : null,
+            };
+        });
+    }
+
+    async count(range: TimeRange = {}): Promise<number> {
+        return wrap('tweets.count', () => {
+            const row = this.db
+                .prepare('SELECT COUNT(*) AS count FROM tweets WHERE created_at >= ? AND created_at < ?')
+                .get(
+                    range.since?.toISOString() ?? '',
+                    // Any ISO timestamp sorts below this
+                    range.until?.toISOString() ?? '~'
+                ) as { count: number };
+            return row.count;
+        });
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return wrap('tweets.remove', () => removeByIds(this.db, 'tweets', ids));
+    }
+}
+
+// ============================================
+// Alerts
+// ============================================
+
+export class SqliteAlertRepository implements AlertRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async list(): Promise<Alert[]> {
+        return wrap('alerts.list', () => {
+            const rows = this.db.prepare('SELECT * FROM alerts ORDER BY created_at ASC').all() as Record<string, unknown>[];
+            return rows.map((row) => rowToAlert(decodeRow(row)));
+        });
+    }
+
+    async get(id: string): Promise<Alert | null> {
+        return wrap('alerts.get', () => {
+            const row = this.db.prepare('SELECT * FROM alerts WHERE id = ?').get(id) as Record<string, unknown> | undefined;
+            return row ? rowToAlert(decodeRow(row)) : null;
+        });
+    }
+
+    async save(alert: Alert): Promise<Alert> {
+        return wrap('alerts.save', () => {
+            const row = encodeRow(alertToRow(alert));
+            this.db.prepare(upsertSql('alerts', Object.keys(row))).run(row);
+            const saved = this.db.prepare('SELECT * FROM alerts WHERE id = ?').get(alert.id) as Record<string, unknown>;
+            return rowToAlert(decodeRow(saved));
+        });
+    }
+
+    async remove(id: string): Promise<boolean> {
+        return wrap('alerts.remove', () => this.db.prepare('DELETE FROM alerts WHERE id = ?').run(id).changes > 0);
+    }
+
+    // Single statement, so concurrent triggers can't lose an increment
+    async markTriggered(id: string, at: Date = new Date()): Promise<Alert | null> {
+        return wrap('alerts.markTriggered', () => {
+            const row = this.db
+                .prepare(
+                    'UPDATE alerts SET last_triggered_at = ?, trigger_count = trigger_count + 1 WHERE id = ? RETURNING *'
+                )
+                .get(at.toISOString(), id) as Record<string, unknown> | undefined;
+            return row ? rowToAlert(decodeRow(row)) : null;
+        });
+    }
+}
+
+export class SqliteAlertTriggerRepository implements AlertTriggerRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async record(trigger: AlertTrigger): Promise<void> {
+        wrap('alert_triggers.record', () => {
+            const row = encodeRow(alertTriggerToRow(trigger));
+            this.db.prepare(upsertSql('alert_triggers', Object.keys(row))).run(row);
+        });
+    }
+
+    async list(query: AlertTriggerQuery = {}): Promise<AlertTrigger[]> {
+        const where = ['triggered_at >= ?', 'triggered_at < ?'];
+        const params: unknown[] = [query.since?.toISOString() ?? '', query.until?.toISOString() ?? '~'];
+        if (query.alertId) {
+            where.push('alert_id = ?');
+            params.push(query.alertId);
+        }
+        const sql = `SELECT * FROM alert_triggers WHERE ${where.join(' AND ')}
+            ORDER BY triggered_at DESC, id DESC LIMIT ?`;
+
+        return wrap('alert_triggers.list', () => {
+            const rows = this.db.prepare(sql).all(...params, pageSize(query.limit)) as Record<string, unknown>[];
+            return rows.map((row) => rowToAlertTrigger(decodeRow(row)));
+        });
+    }
+}
+
+export class SqliteAlertDeliveryRepository implements AlertDeliveryRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async save(delivery: AlertDelivery): Promise<void> {
+        wrap('alert_deliveries.save', () => {
+            const row = encodeRow(alertDeliveryToRow(delivery));
+            this.db.prepare(upsertSql('alert_deliveries', Object.keys(row))).run(row);
+        });
+    }
+
+    async get(id: string): Promise<AlertDelivery | null> {
+        return wrap('alert_deliveries.get', () => {
+            const row = this.db.prepare('SELECT * FROM alert_deliveries WHERE id = ?').get(id) as Record<string, unknown> | undefined;
+            return row ? rowToAlertDelivery(decodeRow(row)) : null;
+        });
+    }
+
+    async list(query: AlertDeliveryQuery = {}): Promise<AlertDelivery[]> {
+        const where = ['created_at >= ?', 'created_at < ?'];
+        const params: unknown[] = [query.since?.toISOString() ?? '', query.until?.toISOString() ?? '~'];
+        if (query.alertId) {
+            where.push('alert_id = ?');
+            params.push(query.alertId);
+        }
+        if (query.triggerIds) {
+            if (!query.triggerIds.length) return [];
+            where.push(`trigger_id IN (${query.triggerIds.map(() => '?').join(', ')})`);
+            params.push(...query.triggerIds);
+        }
+        if (query.status) {
+            where.push('status = ?');
+            params.push(query.status);
+        }
+        const sql = `SELECT * FROM alert_deliveries WHERE ${where.join(' AND ')}
+            ORDER BY created_at DESC, id DESC LIMIT ?`;
+
+        return wrap('alert_deliveries.list', () => {
+            const rows = this.db.prepare(sql).all(...params, pageSize(query.limit)) as Record<string, unknown>[];
+            return rows.map((row) => rowToAlertDelivery(decodeRow(row)));
+        });
+    }
+
+    async due(now: Date = new Date(), limit?: number): Promise<AlertDelivery[]> {
+        const sql = `SELECT * FROM alert_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+            ORDER BY next_attempt_at ASC LIMIT ?`;
+        return wrap('alert_deliveries.due', () => {
+            const rows = this.db.prepare(sql).all(now.toISOString(), pageSize(limit)) as Record<string, unknown>[];
+            return rows.map((row) => rowToAlertDelivery(decodeRow(row)));
+        });
+    }
+}
+
+// ============================================
+// Velocity Snapshots
+// ============================================
+
+export class SqliteSnapshotRepository implements SnapshotRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async insert(snapshots: VelocitySnapshot[]): Promise<void> {
+        if (!snapshots.length) return;
+        wrap('velocity_snapshots.insert', () => {
+            const rows = snapshots.map((s) => encodeRow(snapshotToRow(s)));
+            const statement = this.db.prepare(upsertSql('velocity_snapshots', Object.keys(rows[0])));
+            this.db.transaction(() => rows.forEach((row) => statement.run(row)))();
+        });
+    }
+
+    async range(query: SnapshotQuery = {}): Promise<VelocitySnapshot[]> {
+        // With a limit we want the most recent rows, so fetch descending and flip
+        const sql = `SELECT * FROM velocity_snapshots WHERE resolution = ? AND timestamp >= ? AND timestamp < ?
+            ORDER BY timestamp DESC ${query.limit ? 'LIMIT ?' : ''}`;
+        const params: unknown[] = [
+            query.resolution ?? 'minute',
+            query.since?.toISOString() ?? '',
+            query.until?.toISOString() ?? '~',
+        ];
+        if (query.limit) params.push(query.limit);
+
+        return wrap('velocity_snapshots.range', () => {
+            const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+            return rows.map((row) => rowToSnapshot(decodeRow(row))).reverse();
+        });
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return wrap('velocity_snapshots.remove', () => removeByIds(this.db, 'velocity_snapshots', ids));
+    }
+}
+
+// ============================================
+// Story Aggregates
+// ============================================
+
+export class SqliteStoryAggregateRepository implements StoryAggregateRepository {
+    private db: Database.Database;
+
+    constructor(db: Database.Database) {
+        this.db = db;
+    }
+
+    async upsert(stories: StoryAggregate[]): Promise<void> {
+        if (!stories.length) return;
+        wrap('story_aggregates.upsert', () => {
+            const rows = stories.map((s) => encodeRow(storyAggregateToRow(s)));
+            const statement = this.db.prepare(upsertSql('story_aggregates', Object.keys(rows[0])));
+            this.db.transaction(() => rows.forEach((row) => statement.run(row)))();
+        });
+    }
+
+    async getMany(ids: string[]): Promise<StoryAggregate[]> {
+        if (!ids.length) return [];
+        return wrap('story_aggregates.getMany', () => {
+            const rows = this.db
+                .prepare(`SELECT * FROM story_aggregates WHERE id IN (${ids.map(() => '?').join(', ')})`)
+                .all(...ids) as Record<string, unknown>[];
+            return rows.map((row) => rowToStoryAggregate(decodeRow(row)));
+        });
+    }
+
+    async list(query: StoryAggregateQuery = {}): Promise<StoryAggregate[]> {
+        const sql = `SELECT * FROM story_aggregates WHERE last_seen_at >= ? AND last_seen_at < ?
+            ORDER BY last_seen_at DESC LIMIT ?`;
+        return wrap('story_aggregates.list', () => {
+            const params = [query.since?.toISOString() ?? '', query.until?.toISOString() ?? '~', pageSize(query.limit)];
+            const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+            return rows.map((row) => rowToStoryAggregate(decodeRow(row)));
+        });
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        return wrap('story_aggregates.remove', () => removeByIds(this.db, 'story_aggregates', ids));
+    }
+}
+
+// ============================================
+// Setup
+// ============================================
+
+export function openSqliteDatabase(filePath: string = process.env.SQLITE_PATH || SQLITE_DEFAULT_PATH): Database.Database {
+    if (filePath !== ':memory:') mkdirSync(path.dirname(filePath), { recursive: true });
+
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    db.pragma('busy_timeout = 5000');
+
+    const version = db.pragma('user_version', { simple: true }) as number;
+    SQLITE_MIGRATIONS.slice(version).forEach((sql, i) => {
+        db.transaction(() => {
+            db.exec(sql);
+            db.pragma(`user_version = ${version + i + 1}`);
+        })();
+    });
+
+    return db;
+}
+
+export function createSqliteRepositories(db: Database.Database = openSqliteDatabase()): Repositories {
+    return {
+        kind: 'sqlite',
+        tweets: new SqliteTweetRepository(db),
+        alerts: new SqliteAlertRepository(db),
+        triggers: new SqliteAlertTriggerRepository(db),
+        deliveries: new SqliteAlertDeliveryRepository(db),
+        snapshots: new SqliteSnapshotRepository(db),
+        stories: new SqliteStoryAggregateRepository(db),
+    };
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tweet } from './schema';
+import { RepositoryError } from './repository';
+import { SupabaseTweetRepository } from './supabase-repository';
+
+function item(id: string, url: string, text: string = id): Tweet {
+    return {
+        id,
+        text,
+        url,
+        author: { id: 'author', username: 'author', displayName: 'Author', avatarUrl: '', verified: false, followerCount: 0 },
+        metrics: { likes: 0, retweets: 0, replies: 0, views: 0 },
+        createdAt: new Date('2026-01-01T12:00:00Z'),
+        source: 'api',
+        sourceKind: 'rss',
+    };
+}
+
+type Row = Record<string, unknown>;
+
+// Just enough of PostgREST's upsert for the tweets table: a statement that would break
+// tweets_url_key fails as a whole, like the real one does
+function fakeClient(rows: Map<string, Row>, failWith?: { code: string; message: string }): SupabaseClient {
+    const upsert = async (input: Row | Row[]) => {
+        if (failWith) return { data: null, error: failWith };
+        const batch = Array.isArray(input) ? input : [input];
+        const owners = new Map([...rows.values()].map((r) => [r.url, r.id]));
+        for (const row of batch) {
+            const owner = owners.get(row.url);
+            if (owner !== undefined && owner !== row.id) {
+                return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint "tweets_url_key"' } };
+            }
+            owners.set(row.url, row.id);
+        }
+        batch.forEach((row) => rows.set(row.id as string, row));
+        return { data: null, error: null };
+    };
+    return { from: () => ({ upsert }) } as unknown as SupabaseClient;
+}
+
+test('upsert skips a tweet whose url is stored under another id and still updates the owner', async () => {
+    const rows = new Map<string, Row>();
+    const tweets = new SupabaseTweetRepository(fakeClient(rows));
+    await tweets.upsert([item('x_1', 'https://x.com/a/status/1')]);
+    await tweets.upsert([
+        item('url_other', 'https://x.com/a/status/1'),
+        item('x_1', 'https://x.com/a/status/1', 'edited'),
+        item('url_new', 'https://example.com/new'),
+    ]);
+
+    assert.deepEqual([...rows.keys()].sort(), ['url_new', 'x_1']);
+    assert.equal(rows.get('x_1')?.text, 'edited');
+});
+
+test('other upsert errors still fail', async () => {
+    const tweets = new SupabaseTweetRepository(fakeClient(new Map(), { code: '42501', message: 'permission denied for table tweets' }));
+    await assert.rejects(tweets.upsert([item('x_1', 'https://x.com/a/status/1')]), RepositoryError);
+});
@@ -0,0 +1,413 @@
+// Supabase repositories
+// PostgREST-backed implementation of the repository interfaces (tables from ./migrations)
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    rowToTweet,
+    tweetToRow,
+    rowToAlert,
+    alertToRow,
+    rowToAlertTrigger,
+    alertTriggerToRow,
+    rowToAlertDelivery,
+    alertDeliveryToRow,
+    rowToSnapshot,
+    snapshotToRow,
+    rowToStoryAggregate,
+    storyAggregateToRow,
+    type Tweet,
+    type Alert,
+    type AlertTrigger,
+    type AlertDelivery,
+    type VelocitySnapshot,
+    type StoryAggregate,
+} from './schema';
+import {
+    pageSize,
+    SPAM_SCORE_THRESHOLD,
+    encodeCursor,
+    decodeCursor,
+    RepositoryError,
+    type TweetRepository,
+    type AlertRepository,
+    type AlertTriggerRepository,
+    type AlertTriggerQuery,
+    type AlertDeliveryRepository,
+    type AlertDeliveryQuery,
+    type SnapshotRepository,
+    type StoryAggregateRepository,
+    type StoryAggregateQuery,
+    type Repositories,
+    type TweetQuery,
+    type TimeRange,
+    type SnapshotQuery,
+    type Page,
+} from './repository';
+
+// PostgREST request bodies get slow well before this, so large upserts are chunked
+const UPSERT_CHUNK = 500;
+// Deletes and id lookups filter on id in the query string, which has to stay well under URL length limits
+const DELETE_CHUNK = 100;
+
+function check<T>(operation: string, result: { data: T; error: { message: string } | null }): T {
+    if (result.error) throw new RepositoryError('storage', `${operation}: ${result.error.message}`);
+    return result.data;
+}
+
+// unique_violation on tweets_url_key (0002_tweet_indexes.sql)
+function isUrlConflict(error: { code?: string; message: string } | null): boolean {
+    return error?.code === '23505' && error.message.includes('tweets_url_key');
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+    const result: T[][] = [];
+    for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size));
+    return result;
+}
+
+// ============================================
+// Tweets
+// ============================================
+
+export class SupabaseTweetRepository implements TweetRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async upsert(tweets: Tweet[]): Promise<void> {
+        for (const batch of chunks(tweets, UPSERT_CHUNK)) {
+            const result = await this.client.from('tweets').upsert(batch.map(tweetToRow), { onConflict: 'id' });
+            if (!isUrlConflict(result.error)) {
+                check('tweets.upsert', result);
+                continue;
+            }
+            // Some row's url is already stored (or repeated in the batch) under another id – retry
+            // one by one and skip those
+            for (const tweet of batch) {
+                const row = await this.client.from('tweets').upsert(tweetToRow(tweet), { onConflict: 'id' });
+                if (!isUrlConflict(row.error)) check('tweets.upsert', row);
+            }
+        }
+    }
+
+    async get(id: string): Promise<Tweet | null> {
+        const row = check('tweets.get', await this.client.from('tweets').select('*').eq('id', id).maybeSingle());
+        return row ? rowToTweet(row) : null;
+    }
+
+    async query(query: TweetQuery = {}): Promise<Page<Tweet>> {
+        const limit = pageSize(query.limit);
+
+        let request = this.client
+            .from('tweets')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(limit + 1);
+
+        if (query.since) request = request.gte('created_at', query.since.toISOString());
+        if (query.until) request = request.lt('created_at', query.until.toISOString());
+        if (query.sourceKinds?.length) request = request.in('source_kind', query.sourceKinds);
+        if (query.categories?.length) request = request.in('category', query.categories);
+        if (query.authorId) request = request.eq('author_id', query.authorId);
+        if (query.storyId) request = request.eq('story_id', query.storyId);
+        // Same expression as the GIN index in 0002_tweet_indexes.sql, so the index is used
+        if (query.search) request = request.textSearch('text', query.search, { config: 'english', type: 'websearch' });
+        if (query.spam === true) request = request.or(`is_filtered.eq.true,spam_score.gt.${SPAM_SCORE_THRESHOLD}`);
+        if (query.spam === false) request = request.eq('is_filtered', false).lte('spam_score', SPAM_SCORE_THRESHOLD);
+
+        if (query.cursor) {
+            const cursor = decodeCursor(query.cursor);
+            const at = cursor.createdAt.toISOString();
+            request = request.or(`created_at.lt."${at}",and(created_at.eq."${at}",id.lt."${cursor.id}")`);
+        }
+
+        const rows = check('tweets.query', await request) ?? [];
+        const items = rows.slice(0, limit).map(rowToTweet);
+
+        return {
+            items,
+            nextCursor: rows.length > limit ? encodeCursor(items[items.length - 1]) : null,
+        };
+    }
+
+    async count(range: TimeRange = {}): Promise<number> {
+        let request = this.client.from('tweets').select('id', { count: 'exact', head: true });
+        if (range.since) request = request.gte('created_at', range.since.toISOString());
+        if (range.until) request = request.lt('created_at', range.until.toISOString());
+
+        const result = await request;
+        check('tweets.count', result);
+        return result.count ?? 0;
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        let removed = 0;
+        for (const batch of chunks(ids, DELETE_CHUNK)) {
+            const rows = check('tweets.remove', await this.client.from('tweets').delete().in('id', batch).select('id'));
+            removed += (rows ?? []).length;
+        }
+        return removed;
+    }
+}
+
+// ============================================
+// Alerts
+// ============================================
+
+export class SupabaseAlertRepository implements AlertRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async list(): Promise<Alert[]> {
+        const rows = check(
+            'alerts.list',
+            await this.client.from('alerts').select('*').order('created_at', { ascending: true })
+        );
+        return (rows ?? []).map(rowToAlert);
+    }
+
+    async get(id: string): Promise<Alert | null> {
+        const row = check('alerts.get', await this.client.from('alerts').select('*').eq('id', id).maybeSingle());
+        return row ? rowToAlert(row) : null;
+    }
+
+    async save(alert: Alert): Promise<Alert> {
+        const row = check(
+            'alerts.save',
+            await this.client.from('alerts').upsert(alertToRow(alert), { onConflict: 'id' }).select('*').single()
+        );
+        return rowToAlert(row);
+    }
+
+    async remove(id: string): Promise<boolean> {
+        const rows = check('alerts.remove', await this.client.from('alerts').delete().eq('id', id).select('id'));
+        return (rows ?? []).length > 0;
+    }
+
+    // Read-then-write; a lost increment under concurrent triggers only skews the counter
+    async markTriggered(id: string, at: Date = new Date()): Promise<Alert | null> {
+        const alert = await this.get(id);
+        if (!alert) return null;
+
+        const row = check(
+            'alerts.markTriggered',
+            await this.client
+                .from('alerts')
+                .update({ last_triggered_at: at.toISOString(), trigger_count: alert.triggerCount + 1 })
+                .eq('id', id)
+                .select('*')
+                .maybeSingle()
+        );
+        return row ? rowToAlert(row) : null;
+    }
+}
+
+export class SupabaseAlertTriggerRepository implements AlertTriggerRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async record(trigger: AlertTrigger): Promise<void> {
+        check(
+            'alert_triggers.record',
+            await this.client.from('alert_triggers').upsert(alertTriggerToRow(trigger), { onConflict: 'id' })
+        );
+    }
+
+    async list(query: AlertTriggerQuery = {}): Promise<AlertTrigger[]> {
+        let request = this.client
+            .from('alert_triggers')
+            .select('*')
+            .order('triggered_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(pageSize(query.limit));
+
+        if (query.alertId) request = request.eq('alert_id', query.alertId);
+        if (query.since) request = request.gte('triggered_at', query.since.toISOString());
+        if (query.until) request = request.lt('triggered_at', query.until.toISOString());
+
+        const rows = check('alert_triggers.list', await request);
+        return (rows ?? []).map(rowToAlertTrigger);
+    }
+}
+
+export class SupabaseAlertDeliveryRepository implements AlertDeliveryRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async save(delivery: AlertDelivery): Promise<void> {
+        check(
+            'alert_deliveries.save',
+            await this.client.from('alert_deliveries').upsert(alertDeliveryToRow(delivery), { onConflict: 'id' })
+        );
+    }
+
+    async get(id: string): Promise<AlertDelivery | null> {
+        const row = check(
+            'alert_deliveries.get',
+            await this.client.from('alert_deliveries').select('*').eq('id', id).maybeSingle()
+        );
+        return row ? rowToAlertDelivery(row) : null;
+    }
+
+    async list(query: AlertDeliveryQuery = {}): Promise<AlertDelivery[]> {
+        if (query.triggerIds && !query.triggerIds.length) return [];
+        let request = this.client
+            .from('alert_deliveries')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(pageSize(query.limit));
+
+        if (query.alertId) request = request.eq('alert_id', query.alertId);
+        if (query.triggerIds) request = request.in('trigger_id', query.triggerIds);
+        if (query.status) request = request.eq('status', query.status);
+        if (query.since) request = request.gte('created_at', query.since.toISOString());
+        if (query.until) request = request.lt('created_at', query.until.toISOString());
+
+        const rows = check('alert_deliveries.list', await request);
+        return (rows ?? []).map(rowToAlertDelivery);
+    }
+
+    async due(now: Date = new Date(), limit?: number): Promise<AlertDelivery[]> {
+        const rows = check(
+            'alert_deliveries.due',
+            await this.client
+                .from('alert_deliveries')
+                .select('*')
+                .eq('status', 'pending')
+                .lte('next_attempt_at', now.toISOString())
+                .order('next_attempt_at', { ascending: true })
+                .limit(pageSize(limit))
+        );
+        return (rows ?? []).map(rowToAlertDelivery);
+    }
+}
+
+// ============================================
+// Velocity Snapshots
+// ============================================
+
+export class SupabaseSnapshotRepository implements SnapshotRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async insert(snapshots: VelocitySnapshot[]): Promise<void> {
+        for (const batch of chunks(snapshots, UPSERT_CHUNK)) {
+            check(
+                'velocity_snapshots.insert',
+                await this.client.from('velocity_snapshots').upsert(batch.map(snapshotToRow), { onConflict: 'id' })
+            );
+        }
+    }
+
+    async range(query: SnapshotQuery = {}): Promise<VelocitySnapshot[]> {
+        // With a limit we want the most recent rows, so fetch descending and flip
+        let request = this.client
+            .from('velocity_snapshots')
+            .select('*')
+            .eq('resolution', query.resolution ?? 'minute')
+            .order('timestamp', { ascending: false });
+
+        if (query.since) request = request.gte('timestamp', query.since.toISOString());
+        if (query.until) request = request.lt('timestamp', query.until.toISOString());
+        if (query.limit) request = request.limit(query.limit);
+
+        const rows = check('velocity_snapshots.range', await request) ?? [];
+        return rows.map(rowToSnapshot).reverse();
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        let removed = 0;
+        for (const batch of chunks(ids, DELETE_CHUNK)) {
+            const rows = check(
+                'velocity_snapshots.remove',
+                await this.client.from('velocity_snapshots').delete().in('id', batch).select('id')
+            );
+            removed += (rows ?? []).length;
+        }
+        return removed;
+    }
+}
+
+// ============================================
+// Story Aggregates
+// ============================================
+
+export class SupabaseStoryAggregateRepository implements StoryAggregateRepository {
+    private client: SupabaseClient;
+
+    constructor(client: SupabaseClient) {
+        this.client = client;
+    }
+
+    async upsert(stories: StoryAggregate[]): Promise<void> {
+        for (const batch of chunks(stories, UPSERT_CHUNK)) {
+            check(
+                'story_aggregates.upsert',
+                await this.client.from('story_aggregates').upsert(batch.map(storyAggregateToRow), { onConflict: 'id' })
+            );
+        }
+    }
+
+    async getMany(ids: string[]): Promise<StoryAggregate[]> {
+        const stories: StoryAggregate[] = [];
+        for (const batch of chunks(ids, DELETE_CHUNK)) {
+            const rows = check('story_aggregates.getMany', await this.client.from('story_aggregates').select('*').in('id', batch));
+            stories.push(...(rows ?? []).map(rowToStoryAggregate));
+        }
+        return stories;
+    }
+
+    async list(query: StoryAggregateQuery = {}): Promise<StoryAggregate[]> {
+        let request = this.client
+            .from('story_aggregates')
+            .select('*')
+            .order('last_seen_at', { ascending: false })
+            .limit(pageSize(query.limit));
+
+        if (query.since) request = request.gte('last_seen_at', query.since.toISOString());
+        if (query.until) request = request.lt('last_seen_at', query.until.toISOString());
+
+        const rows = check('story_aggregates.list', await request) ?? [];
+        return rows.map(rowToStoryAggregate);
+    }
+
+    async remove(ids: string[]): Promise<number> {
+        let removed = 0;
+        for (const batch of chunks(ids, DELETE_CHUNK)) {
+            const rows = check(
+                'story_aggregates.remove',
+                await this.client.from('story_aggregates').delete().in('id', batch).select('id')
+            );
+            removed += (rows ?? []).length;
+        }
+        return removed;
+    }
+}
+
+export function createSupabaseRepositories(client: SupabaseClient): Repositories {
+    return {
+        kind: 'supabase',
+        tweets: new SupabaseTweetRepository(client),
+        alerts: new SupabaseAlertRepository(client),
+        triggers: new SupabaseAlertTriggerRepository(client),
+        deliveries: new SupabaseAlertDeliveryRepository(client),
+        snapshots: new SupabaseSnapshotRepository(client),
+        stories: new SupabaseStoryAggregateRepository(client),
+    };
+}
@@ -0,0 +1,160 @@
+// OPML import / export for the feed registry
+// Handles the subset real readers emit: nested <outline> folders and xmlUrl feed entries
+
+import type { FeedSource } from '../api/rss-feeds';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OpmlFeed {
+    title: string;
+    xmlUrl: string;
+    htmlUrl?: string;
+    // Folder names the outline was nested in, plus any `category` attribute values
+    tags: string[];
+    // Our own attributes, present when the file was exported by this app
+    followerCount?: number;
+    pollIntervalMs?: number;
+    enabled?: boolean;
+    topics?: string[];
+}
+
+// ============================================
+// XML helpers
+// ============================================
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+};
+
+function decodeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return ENTITIES[entity] ?? match;
+    });
+}
+
+function encodeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    const pattern = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(raw)) !== null) {
+        attrs[match[1]] = decodeXml(match[3] ?? match[4] ?? '');
+    }
+    return attrs;
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value ?? '')
+        .split(',')
+        .map((v) => v.trim().replace(/^\//, ''))
+        .filter(Boolean);
+}
+
+// ============================================
+// Parse
+// ============================================
+
+export function parseOpml(xml: string): OpmlFeed[] {
+    if (!/<opml[\s>]/i.test(xml)) throw new Error('Not an OPML document');
+
+    const body = xml.replace(/<!--[\s\S]*?-->/g, '');
+    const tagPattern = /<(\/?)outline\b([^>]*?)(\/?)>/gi;
+    const folders: (string | null)[] = [];
+    const feeds: OpmlFeed[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(body)) !== null) {
+        const [, closing, rawAttrs, selfClosing] = match;
+
+        if (closing) {
+            folders.pop();
+            continue;
+        }
+
+        const attrs = parseAttributes(rawAttrs);
+        const title = attrs.title || attrs.text || '';
+
+        if (attrs.xmlUrl) {
+            const folderTags = folders.filter((f): f is string => !!f);
+            const followerCount = parseInt(attrs.followerCount ?? '', 10);
+            const pollIntervalMs = parseInt(attrs.pollIntervalMs ?? '', 10);
+
+            feeds.push({
+                title: title || attrs.xmlUrl,
+                xmlUrl: attrs.xmlUrl,
+                htmlUrl: attrs.htmlUrl,
+                tags: [...new Set([...folderTags, ...splitList(attrs.category)])],
+                followerCount: Number.isFinite(followerCount) ? followerCount : undefined,
+                pollIntervalMs: Number.isFinite(pollIntervalMs) ? pollIntervalMs : undefined,
+                enabled: attrs.enabled !== undefined ? attrs.enabled !== 'false' : undefined,
+                topics: attrs.topics !== undefined ? splitList(attrs.topics) : undefined,
+            });
+        }
+
+        // Non-feed outlines with children act as folders; feeds can't contain children
+        if (!selfClosing) folders.push(attrs.xmlUrl ? null : title || null);
+    }
+
+    return feeds;
+}
+
+// ============================================
+// Serialize
+// ============================================
+
+export function serializeOpml(feeds: FeedSource[], title: string = 'X News Crawler feeds'): string {
+    const outlines = feeds.map((feed) => {
+        const attrs: [string, string | undefined][] = [
+            ['type', 'rss'],
+            ['text', feed.name],
+            ['title', feed.name],
+            ['xmlUrl', feed.url],
+            ['category', feed.tags?.length ? feed.tags.join(',') : undefined],
+            ['followerCount', String(feed.followerCount)],
+            ['pollIntervalMs', feed.pollIntervalMs !== undefined ? String(feed.pollIntervalMs) : undefined],
+            ['enabled', String(feed.enabled !== false)],
+            ['topics', feed.topics?.length ? feed.topics.join(',') : undefined],
+        ];
+
+        const rendered = attrs
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}="${encodeXml(value!)}"`)
+            .join(' ');
+
+        return `    <outline ${rendered}/>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<opml version="2.0">',
+        '  <head>',
+        `    <title>${encodeXml(title)}</title>`,
+        `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+        '  </head>',
+        '  <body>',
+        ...outlines,
+        '  </body>',
+        '</opml>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,320 @@
+// Feed Registry
+// Persisted list of RSS/Atom feeds (JSON file on disk), seeded from DEFAULT_FEEDS on first run
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_FEEDS, type FeedSource } from '../api/rss-feeds';
+import { TOPIC_PRESETS } from '../topics';
+import { parseOpml, serializeOpml } from './opml';
+
+// ============================================
+// Types
+// ============================================
+
+export type FeedInput = Partial<Omit<FeedSource, 'id'>> & { id?: string };
+
+export interface OpmlImportResult {
+    added: FeedSource[];
+    skipped: { url: string; reason: string }[];
+}
+
+export class FeedRegistryError extends Error {
+    code: 'invalid' | 'not_found' | 'conflict';
+
+    constructor(code: FeedRegistryError['code'], message: string) {
+        super(message);
+        this.name = 'FeedRegistryError';
+        this.code = code;
+    }
+}
+
+const ERROR_STATUS: Record<FeedRegistryError['code'], number> = {
+    invalid: 400,
+    not_found: 404,
+    conflict: 409,
+};
+
+// Maps registry errors to HTTP responses for the /api/feeds routes
+export function feedErrorStatus(error: unknown): { status: number; message: string } {
+    if (error instanceof FeedRegistryError) return { status: ERROR_STATUS[error.code], message: error.message };
+    return { status: 500, message: error instanceof Error ? error.message : 'Unknown error' };
+}
+
+export const MIN_POLL_INTERVAL_MS = 30_000;
+const DEFAULT_FOLLOWER_COUNT = 100_000;
+
+// ============================================
+// Validation
+// ============================================
+
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+}
+
+function normalizeList(value: unknown, field: string): string[] {
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+        throw new FeedRegistryError('invalid', `${field} must be an array of strings`);
+    }
+    return [...new Set(value.map((v: string) => v.trim()).filter(Boolean))];
+}
+
+function validateFeed(input: FeedInput, existing?: FeedSource): FeedSource {
+    const merged = { ...existing, ...input };
+
+    if (!merged.name || typeof merged.name !== 'string' || !merged.name.trim()) {
+        throw new FeedRegistryError('invalid', 'name is required');
+    }
+
+    let url: URL;
+    try {
+        url = new URL(String(merged.url ?? ''));
+    } catch {
+        throw new FeedRegistryError('invalid', 'url must be an absolute URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new FeedRegistryError('invalid', 'url must use http or https');
+    }
+
+    const id = existing?.id ?? (merged.id ? String(merged.id) : slugify(merged.name));
+    if (!/^[a-z0-9_-]+$/.test(id)) {
+        throw new FeedRegistryError('invalid', 'id may only contain a-z, 0-9, "_" and "-"');
+    }
+
+    const followerCount = merged.followerCount ?? DEFAULT_FOLLOWER_COUNT;
+    if (!Number.isInteger(followerCount) || followerCount < 0) {
+        throw new FeedRegistryError('invalid', 'followerCount must be a non-negative integer');
+    }
+
+    const pollIntervalMs = merged.pollIntervalMs ?? undefined;
+    if (pollIntervalMs !== undefined && (!Number.isInteger(pollIntervalMs) || pollIntervalMs < MIN_POLL_INTERVAL_MS)) {
+        throw new FeedRegistryError('invalid', `pollIntervalMs must be an integer ≥ ${MIN_POLL_INTERVAL_MS}`);
+    }
+
+    const topics = normalizeList(merged.topics, 'topics');
+    const unknown = topics.filter((t) => !TOPIC_PRESETS.some((p) => p.id === t));
+    if (unknown.length) {
+        throw new FeedRegistryError('invalid', `Unknown topics: ${unknown.join(', ')}`);
+    }
+
+    return {
+        id,
+        name: merged.name.trim(),
+        url: url.toString(),
+        followerCount,
+        pollIntervalMs,
+        enabled: merged.enabled !== false,
+        tags: normalizeList(merged.tags, 'tags'),
+        topics,
+    };
+}
+
+// ============================================
+// Topic bindings
+// ============================================
+
+// Feeds bound to other topics are dropped; feeds bound to this topic are "pinned"
+// (shown without keyword filtering). Unbound feeds stay subject to the keyword filter.
+export function feedsForTopic(
+    feeds: FeedSource[],
+    topicId?: string | null
+): { feeds: FeedSource[]; pinnedIds: string[] } {
+    if (!topicId || topicId === 'all') return { feeds, pinnedIds: [] };
+
+    const scoped = feeds.filter((f) => !f.topics?.length || f.topics.includes(topicId));
+    return {
+        feeds: scoped,
+        pinnedIds: scoped.filter((f) => f.topics?.includes(topicId)).map((f) => f.id),
+    };
+}
+
+// ============================================
+// Registry
+// ============================================
+
+type ChangeListener = (feeds: FeedSource[]) => void;
+
+export class FeedRegistry {
+    private filePath: string;
+    private feeds: FeedSource[] | null = null;
+    private loading: Promise<FeedSource[]> | null = null;
+    private listeners = new Set<ChangeListener>();
+    // Serialises writes so concurrent requests can't interleave read-modify-write
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    async list(): Promise<FeedSource[]> {
+        return [...(await this.load())];
+    }
+
+    async get(id: string): Promise<FeedSource | undefined> {
+        return (await this.load()).find((f) => f.id === id);
+    }
+
+    // Enabled feeds, optionally restricted to the given ids
+    async resolve(ids?: string[]): Promise<FeedSource[]> {
+        const feeds = (await this.load()).filter((f) => f.enabled !== false);
+        return ids?.length ? feeds.filter((f) => ids.includes(f.id)) : feeds;
+    }
+
+    create(input: FeedInput): Promise<FeedSource> {
+        return this.mutate((feeds) => {
+            const feed = validateFeed(input);
+            if (feeds.some((f) => f.id === feed.id)) {
+                throw new FeedRegistryError('conflict', `Feed "${feed.id}" already exists`);
+            }
+            if (feeds.some((f) => f.url === feed.url)) {
+                throw new FeedRegistryError('conflict', `A feed for ${feed.url} already exists`);
+            }
+            return { feeds: [...feeds, feed], result: feed };
+        });
+    }
+
+    update(id: string, patch: FeedInput): Promise<FeedSource> {
+        return this.mutate((feeds) => {
+            const existing = feeds.find((f) => f.id === id);
+            if (!existing) throw new FeedRegistryError('not_found', `Feed "${id}" not found`);
+
+            // ids are immutable – validateFeed keeps existing.id
+            const feed = validateFeed(patch, existing);
+            if (feeds.some((f) => f.id !== id && f.url === feed.url)) {
+                throw new FeedRegistryError('conflict', `A feed for ${feed.url} already exists`);
+            }
+            return { feeds: feeds.map((f) => (f.id === id ? feed : f)), result: feed };
+        });
+    }
+
+    remove(id: string): Promise<FeedSource> {
+        return this.mutate((feeds) => {
+            const existing = feeds.find((f) => f.id === id);
+            if (!existing) throw new FeedRegistryError('not_found', `Feed "${id}" not found`);
+            return { feeds: feeds.filter((f) => f.id !== id), result: existing };
+        });
+    }
+
+    importOpml(xml: string): Promise<OpmlImportResult> {
+        const entries = parseOpml(xml);
+
+        return this.mutate((feeds) => {
+            const next = [...feeds];
+            const result: OpmlImportResult = { added: [], skipped: [] };
+
+            for (const entry of entries) {
+                try {
+                    const base = slugify(entry.title) || 'feed';
+                    let id = base;
+                    for (let n = 2; next.some((f) => f.id === id); n++) id = `${base}_${n}`;
+
+                    const feed = validateFeed({
+                        id,
+                        name: entry.title,
+                        url: entry.xmlUrl,
+                        followerCount: entry.followerCount,
+                        pollIntervalMs: entry.pollIntervalMs,
+                        enabled: entry.enabled,
+                        tags: entry.tags,
+                        // Drop bindings to topics this install doesn't have rather than rejecting the feed
+                        topics: entry.topics?.filter((t) => TOPIC_PRESETS.some((p) => p.id === t)),
+                    });
+
+                    if (next.some((f) => f.url === feed.url)) {
+                        result.skipped.push({ url: entry.xmlUrl, reason: 'already registered' });
+                        continue;
+                    }
+
+                    next.push(feed);
+                    result.added.push(feed);
+                } catch (error: unknown) {
+                    result.skipped.push({
+                        url: entry.xmlUrl,
+                        reason: error instanceof Error ? error.message : 'invalid feed',
+                    });
+                }
+            }
+
+            return { feeds: next, result };
+        });
+    }
+
+    async exportOpml(): Promise<string> {
+        return serializeOpml(await this.load());
+    }
+
+    onChange(listener: ChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // ── Persistence ──────────────────────────────────────────────────────────
+
+    private async load(): Promise<FeedSource[]> {
+        if (this.feeds) return this.feeds;
+        this.loading ??= this.readFromDisk().finally(() => {
+            this.loading = null;
+        });
+        return this.loading;
+    }
+
+    // An entry that no longer validates (e.g. it names a topic that was removed since) is skipped
+    // rather than taking every feed down with it; only an unreadable file is an error
+    private async readFromDisk(): Promise<FeedSource[]> {
+        try {
+            const raw = await fs.readFile(this.filePath, 'utf8');
+            const entries: unknown = JSON.parse(raw);
+            if (!Array.isArray(entries)) throw new Error(`${this.filePath} must hold an array of feeds`);
+
+            const feeds: FeedSource[] = [];
+            entries.forEach((entry: FeedInput, i) => {
+                try {
+                    feeds.push(validateFeed(entry));
+                } catch (error: unknown) {
+                    const reason = error instanceof Error ? error.message : error;
+                    console.warn(`[Feeds] Skipping feed #${i} (${entry?.id ?? entry?.url ?? 'no id'}) in ${this.filePath}:`, reason);
+                }
+            });
+            this.feeds = feeds;
+        } catch (error: unknown) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            this.feeds = DEFAULT_FEEDS.map((f) => validateFeed(f));
+            await this.save(this.feeds);
+        }
+        return this.feeds;
+    }
+
+    private async save(feeds: FeedSource[]): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(feeds, null, 2));
+        await fs.rename(tmp, this.filePath);
+    }
+
+    private mutate<T>(fn: (feeds: FeedSource[]) => { feeds: FeedSource[]; result: T }): Promise<T> {
+        const run = this.queue.then(async () => {
+            const { feeds, result } = fn(await this.load());
+            await this.save(feeds);
+            this.feeds = feeds;
+            this.listeners.forEach((listener) => listener([...feeds]));
+            return result;
+        });
+
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+}
+
+// ============================================
+// Singleton
+// ============================================
+
+const globalForFeeds = globalThis as unknown as { feedRegistry?: FeedRegistry };
+
+export function getFeedRegistry(): FeedRegistry {
+    if (!globalForFeeds.feedRegistry) {
+        const filePath = process.env.FEED_REGISTRY_PATH || path.join(process.cwd(), 'data', 'feeds.json');
+        globalForFeeds.feedRegistry = new FeedRegistry(filePath);
+    }
+    return globalForFeeds.feedRegistry;
+}
@@ -0,0 +1,119 @@
+// Ingestion entry point – scheduler singleton (see store.ts for why it lives on globalThis)
+
+import { getIngestionStore, type IngestOrigin } from './store';
+import { IngestionScheduler, buildApiJobs } from './scheduler';
+import { XFilteredStream, STREAM_SOURCE } from './x-stream';
+import { SnapshotRecorder } from './snapshots';
+import { getFeedRegistry } from '../feeds/registry';
+import { getXApiClient } from '../api/x-api';
+import { getRepositories } from '../db';
+import type { TweetSourceKind } from '../db/schema';
+
+export * from './store';
+export * from './scheduler';
+export * from './x-stream';
+export * from './snapshots';
+
+const globalForIngest = globalThis as unknown as {
+    ingestionScheduler?: IngestionScheduler;
+    ingestionStarted?: Promise<void>;
+    xStream?: XFilteredStream | null;
+};
+
+export function getIngestionScheduler(): IngestionScheduler {
+    if (!globalForIngest.ingestionScheduler) {
+        const scheduler = new IngestionScheduler(getIngestionStore(), buildApiJobs());
+        persistIngested(scheduler);
+        globalForIngest.ingestionScheduler = scheduler;
+    }
+    return globalForIngest.ingestionScheduler;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+// Every fresh item goes to the tweets repository, then into the minute velocity snapshots
+function persistIngested(scheduler: IngestionScheduler): void {
+    const repositories = getRepositories();
+    const recorder = new SnapshotRecorder(repositories.snapshots, repositories.tweets);
+    recorder.start();
+
+    scheduler.onIngest((tweets) => {
+        repositories.tweets
+            .upsert(tweets)
+            .then(() => recorder.record(tweets))
+            .catch((error) => {
+                console.error('[Ingest] Failed to persist tweets:', error instanceof Error ? error.message : error);
+            });
+    });
+}
+
+const ORIGIN_BY_KIND: Partial<Record<TweetSourceKind, IngestOrigin>> = {
+    rss: 'rss',
+    newsapi: 'newsapi',
+    x: 'x_api',
+};
+
+const HYDRATE_LIMIT = 500;
+
+// After a restart, seed the in-process store from the database so /api/tweets serves
+// recent history straight away instead of waiting for the first sweep. Items keep their persisted
+// storyId, and go in oldest first so any without one cluster in the order they were ingested.
+async function hydrateStore(): Promise<number> {
+    const { items } = await getRepositories().tweets.query({
+        limit: HYDRATE_LIMIT,
+        since: new Date(Date.now() - 24 * 60 * 60_000),
+    });
+    const store = getIngestionStore();
+
+    let added = 0;
+    for (const tweet of [...items].reverse()) {
+        const origin = ORIGIN_BY_KIND[tweet.sourceKind];
+        if (!origin) continue;
+        const feedId = origin === 'rss' && tweet.author.id.startsWith('rss_') ? tweet.author.id.slice(4) : undefined;
+        added += store.add(origin, [tweet], feedId).length;
+    }
+    return added;
+}
+
+// Filtered stream needs Pro-tier access, so it is opt-in via X_STREAM_ENABLED=true.
+// Returns null when disabled or when no bearer token is configured.
+export function getXStream(): XFilteredStream | null {
+    if (globalForIngest.xStream !== undefined) return globalForIngest.xStream;
+
+    const client = process.env.X_STREAM_ENABLED === 'true' ? getXApiClient() : null;
+    globalForIngest.xStream = client
+        ? new XFilteredStream(client, (tweets) => getIngestionScheduler().ingest(STREAM_SOURCE, tweets))
+        : null;
+    return globalForIngest.xStream;
+}
+
+// Idempotent – safe to call from instrumentation and from every request.
+// Resolves once the first sweep of all sources has finished.
+export function ensureIngestionStarted(): Promise<void> {
+    globalForIngest.ingestionStarted ??= (async () => {
+        const scheduler = getIngestionScheduler();
+        const registry = getFeedRegistry();
+
+        if (getRepositories().kind !== 'memory') {
+            await hydrateStore().catch((error) => {
+                console.error('[Ingest] Hydration failed:', error instanceof Error ? error.message : error);
+            });
+        }
+
+        scheduler.syncFeedJobs(await registry.list());
+        registry.onChange((feeds) => scheduler.syncFeedJobs(feeds));
+
+        // The stream reconnects on its own; don't hold up the first sweep for it
+        getXStream()?.start();
+
+        await scheduler.start();
+    })().catch((error) => {
+        // Let the next caller retry instead of caching the failure forever
+        globalForIngest.ingestionStarted = undefined;
+        throw error;
+    });
+
+    return globalForIngest.ingestionStarted;
+}
@@ -0,0 +1,293 @@
+// Background Ingestion Scheduler
+// Polls every upstream source on its own interval and writes into the shared IngestionStore,
+// so dashboard requests never hit CoinDesk / NewsAPI / X directly
+
+import type { Tweet } from '../db/schema';
+import { fetchRssFeed, type FeedSource } from '../api/rss-feeds';
+import { isNewsApiConfigured, fetchNewsArticles, transformArticleToTweet } from '../api/news-api';
+import { getXApiClient, transformXApiTweet, isXApiConfigured, XApiError } from '../api/x-api';
+import { RetryAfterError } from '../api/http-cache';
+import { broadcastTweet, broadcastTweetBatch } from '../realtime/socket-server';
+import type { IngestionStore, IngestOrigin } from './store';
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DEFAULT_INGEST_QUERY = 'breaking OR market OR technology OR politics';
+
+// NewsAPI free tier is 100 requests/day, so it gets a much longer interval than RSS
+export const DEFAULT_INTERVALS = {
+    rss: 2 * 60_000,
+    newsapi: 15 * 60_000,
+    x_api: 5 * 60_000,
+} as const;
+
+// Tweets collected per X poll across all pages – each page costs one request from the window
+export const DEFAULT_X_BUDGET = 100;
+
+function envInterval(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// ============================================
+// Types
+// ============================================
+
+export interface IngestionJob {
+    id: string;
+    origin: IngestOrigin;
+    feedId?: string;
+    intervalMs: number;
+    run: () => Promise<Tweet[]>;
+    // Earliest time the next run may start (e.g. when an upstream quota is exhausted)
+    notBefore?: () => Date | null;
+}
+
+// Where a batch came from – a polled job or a push source such as the X filtered stream
+export type IngestSource = Pick<IngestionJob, 'id' | 'origin' | 'feedId'>;
+
+export interface IngestionJobStatus {
+    id: string;
+    origin: IngestOrigin;
+    intervalMs: number;
+    running: boolean;
+    lastRunAt?: Date;
+    lastSuccessAt?: Date;
+    // Next run pushed back past the normal interval by a rate limit
+    deferredUntil?: Date;
+    lastError?: string;
+    lastFetched: number;
+    lastNew: number;
+    totalNew: number;
+}
+
+// ============================================
+// Default Jobs
+// ============================================
+
+export function buildRssJob(source: FeedSource): IngestionJob {
+    return {
+        id: `rss:${source.id}`,
+        origin: 'rss',
+        feedId: source.id,
+        intervalMs: source.pollIntervalMs ?? envInterval('INGEST_RSS_INTERVAL_MS', DEFAULT_INTERVALS.rss),
+        run: () => fetchRssFeed(source, 30),
+    };
+}
+
+// RSS jobs come from the feed registry (see syncFeedJobs); these are the keyed API sources
+export function buildApiJobs(query: string = process.env.INGEST_QUERY || DEFAULT_INGEST_QUERY): IngestionJob[] {
+    const jobs: IngestionJob[] = [];
+
+    if (isNewsApiConfigured()) {
+        jobs.push({
+            id: 'newsapi',
+            origin: 'newsapi',
+            intervalMs: envInterval('INGEST_NEWSAPI_INTERVAL_MS', DEFAULT_INTERVALS.newsapi),
+            run: async () => {
+                const response = await fetchNewsArticles(query, { pageSize: 50 });
+                if (response.status !== 'ok') throw new Error(`NewsAPI status: ${response.status}`);
+                return response.articles.map((a) => transformArticleToTweet(a));
+            },
+        });
+    }
+
+    if (isXApiConfigured()) {
+        const budget = envInterval('INGEST_X_BUDGET', DEFAULT_X_BUDGET);
+        // newest_id of the previous poll – later polls only fetch what's new
+        let sinceId: string | undefined;
+
+        jobs.push({
+            id: 'x_api',
+            origin: 'x_api',
+            intervalMs: envInterval('INGEST_X_INTERVAL_MS', DEFAULT_INTERVALS.x_api),
+            run: async () => {
+                const response = await getXApiClient()!.searchRecentTweetsPaginated(query, { sinceId, budget });
+                if (response.meta.newest_id) sinceId = response.meta.newest_id;
+                const users = response.includes?.users ?? [];
+                return (response.data ?? []).map((t): Tweet => transformXApiTweet(t, users, response.includes?.media));
+            },
+            notBefore: () => getXApiClient()?.rateLimitedUntil('/tweets/search/recent') ?? null,
+        });
+    }
+
+    return jobs;
+}
+
+// ============================================
+// Scheduler
+// ============================================
+
+type IngestListener = (tweets: Tweet[], source: IngestSource) => void;
+
+export class IngestionScheduler {
+    private store: IngestionStore;
+    private jobs = new Map<string, IngestionJob>();
+    private status = new Map<string, IngestionJobStatus>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private listeners = new Set<IngestListener>();
+    private feedConfigs = new Map<string, string>();
+    private firstSweep: Promise<void> | null = null;
+
+    constructor(store: IngestionStore, jobs: IngestionJob[] = []) {
+        this.store = store;
+        jobs.forEach((job) => this.addJob(job));
+    }
+
+    addJob(job: IngestionJob): void {
+        this.jobs.set(job.id, job);
+        this.status.set(job.id, {
+            id: job.id,
+            origin: job.origin,
+            intervalMs: job.intervalMs,
+            running: false,
+            lastFetched: 0,
+            lastNew: 0,
+            totalNew: 0,
+        });
+
+        // Jobs added after start() get scheduled straight away
+        if (this.firstSweep) this.schedule(job.id, 0);
+    }
+
+    removeJob(id: string): void {
+        const timer = this.timers.get(id);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(id);
+        this.jobs.delete(id);
+        this.status.delete(id);
+    }
+
+    // Reconcile rss:* jobs with the registry – adds new feeds, drops removed/disabled ones
+    // and restarts feeds whose URL or interval changed
+    syncFeedJobs(feeds: FeedSource[]): void {
+        const wanted = new Map(
+            feeds.filter((f) => f.enabled !== false).map((f) => [`rss:${f.id}`, f])
+        );
+
+        for (const id of this.feedConfigs.keys()) {
+            if (!wanted.has(id)) {
+                this.removeJob(id);
+                this.feedConfigs.delete(id);
+            }
+        }
+
+        for (const [id, feed] of wanted) {
+            const config = JSON.stringify(feed);
+            if (this.feedConfigs.get(id) === config) continue;
+
+            this.removeJob(id);
+            this.addJob(buildRssJob(feed));
+            this.feedConfigs.set(id, config);
+        }
+    }
+
+    onIngest(listener: IngestListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // Runs every job once, then keeps each on its own interval.
+    // The returned promise resolves when the first sweep has completed.
+    start(): Promise<void> {
+        if (this.firstSweep) return this.firstSweep;
+
+        this.firstSweep = Promise.all(
+            [...this.jobs.keys()].map((id) => this.runJob(id).finally(() => this.schedule(id)))
+        ).then(() => undefined);
+
+        return this.firstSweep;
+    }
+
+    stop(): void {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+        this.firstSweep = null;
+    }
+
+    isRunning(): boolean {
+        return this.firstSweep !== null;
+    }
+
+    async runJob(id: string): Promise<Tweet[]> {
+        const job = this.jobs.get(id);
+        const status = this.status.get(id);
+        if (!job || !status || status.running) return [];
+
+        status.running = true;
+        status.lastRunAt = new Date();
+
+        try {
+            const fetched = await job.run();
+            const fresh = this.ingest(job, fetched);
+
+            status.lastSuccessAt = new Date();
+            status.lastError = undefined;
+            status.lastFetched = fetched.length;
+            status.lastNew = fresh.length;
+            status.totalNew += fresh.length;
+
+            return fresh;
+        } catch (error: unknown) {
+            status.lastError = error instanceof Error ? error.message : String(error);
+            console.error(`[Ingest] ${job.id}: ${status.lastError}`);
+            if (error instanceof XApiError || error instanceof RetryAfterError) {
+                status.deferredUntil = error.retryAt;
+            }
+            return [];
+        } finally {
+            status.running = false;
+        }
+    }
+
+    // Stores, broadcasts and notifies listeners. Push sources call this directly
+    // so they share dedupe and fan-out with the polled jobs.
+    ingest(source: IngestSource, tweets: Tweet[]): Tweet[] {
+        const fresh = this.store.add(source.origin, tweets, source.feedId);
+        if (!fresh.length) return fresh;
+
+        if (fresh.length === 1) broadcastTweet(fresh[0]);
+        else broadcastTweetBatch(fresh);
+        this.listeners.forEach((listener) => listener(fresh, source));
+
+        return fresh;
+    }
+
+    getStatus(): IngestionJobStatus[] {
+        return [...this.status.values()].map((s) => ({ ...s }));
+    }
+
+    // Normal interval, stretched to the end of a rate-limit window if we're out of quota
+    private nextDelay(job: IngestionJob): number {
+        const status = this.status.get(job.id);
+        const limits = [job.notBefore?.(), status?.deferredUntil]
+            .filter((d): d is Date => !!d)
+            .map((d) => d.getTime() - Date.now());
+        const delay = Math.max(job.intervalMs, ...limits);
+
+        if (status) {
+            status.deferredUntil = delay > job.intervalMs ? new Date(Date.now() + delay) : undefined;
+        }
+        return delay;
+    }
+
+    private schedule(id: string, delayMs?: number): void {
+        const job = this.jobs.get(id);
+        if (!job || !this.firstSweep) return;
+
+        const existing = this.timers.get(id);
+        if (existing) clearTimeout(existing);
+
+        const delay = delayMs ?? this.nextDelay(job);
+        const timer = setTimeout(async () => {
+            await this.runJob(id);
+            this.schedule(id);
+        }, delay);
+
+        // Don't keep a CLI / test process alive just for polling
+        timer.unref?.();
+        this.timers.set(id, timer);
+    }
+}
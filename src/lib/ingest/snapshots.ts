@@ -0,0 +1,76 @@
+// Minute velocity snapshots
+// Persists one VelocitySnapshot per minute of item createdAt; hour and day snapshots are
+// rolled up from these by the retention job
+
+import type { Tweet, VelocitySnapshot } from '../db/schema';
+import { queryAll, type SnapshotRepository, type TweetRepository } from '../db/repository';
+import { RESOLUTION_MS, bucketStart, buildSnapshot } from '../velocity/snapshot';
+
+const BUCKET_MS = RESOLUTION_MS.minute;
+
+// Items published longer ago than this don't re-open their minute (the hour is rolled up by then)
+const LATE_ITEM_WINDOW_MS = 60 * 60_000;
+
+export class SnapshotRecorder {
+    private snapshots: SnapshotRepository;
+    private tweets: TweetRepository;
+    // Start of the first minute that hasn't been written yet
+    private nextBucket: number;
+    // Already-written minutes that received late items and need recomputing
+    private dirty = new Set<number>();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(snapshots: SnapshotRepository, tweets: TweetRepository) {
+        this.snapshots = snapshots;
+        this.tweets = tweets;
+        this.nextBucket = bucketStart(Date.now(), 'minute').getTime();
+    }
+
+    // Call once the items are in the tweets repository – buckets are recomputed from there
+    record(tweets: Tweet[], now: number = Date.now()): void {
+        for (const tweet of tweets) {
+            const bucket = bucketStart(tweet.createdAt, 'minute').getTime();
+            if (bucket < this.nextBucket && bucket >= now - LATE_ITEM_WINDOW_MS) this.dirty.add(bucket);
+        }
+    }
+
+    // Writes every closed minute since the last flush (empty ones too, so gaps read as zero
+    // velocity) plus any earlier minute that picked up late items
+    async flush(now: number = Date.now()): Promise<VelocitySnapshot[]> {
+        const closed = bucketStart(now, 'minute').getTime();
+        const pending = new Set(this.dirty);
+        for (let bucket = this.nextBucket; bucket < closed; bucket += BUCKET_MS) pending.add(bucket);
+        if (!pending.size) return [];
+        const buckets = [...pending];
+
+        const snapshots = await Promise.all(
+            buckets.map(async (bucket) => {
+                const items = await queryAll(this.tweets, {
+                    since: new Date(bucket),
+                    until: new Date(bucket + BUCKET_MS),
+                });
+                return buildSnapshot(new Date(bucket), items);
+            })
+        );
+        await this.snapshots.insert(snapshots);
+
+        buckets.forEach((b) => this.dirty.delete(b));
+        this.nextBucket = Math.max(this.nextBucket, closed);
+        return snapshots;
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => {
+            this.flush().catch((error) => {
+                console.error('[Snapshots] Flush failed:', error instanceof Error ? error.message : error);
+            });
+        }, BUCKET_MS / 4);
+        this.timer.unref?.();
+    }
+
+    stop(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+}
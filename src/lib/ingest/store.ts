@@ -0,0 +1,169 @@
+// Shared ingestion store
+// Written to by the background scheduler, read by /api/tweets and the socket server
+
+import type { Tweet } from '../db/schema';
+import { rankTweets, headlineFingerprint, mergeOutlets } from '../api/ranking';
+import { StoryClusterer, buildStory, type Story } from '../stories/cluster';
+
+// ============================================
+// Types
+// ============================================
+
+export type IngestOrigin = 'rss' | 'newsapi' | 'x_api';
+
+export interface IngestedItem {
+    tweet: Tweet;
+    origin: IngestOrigin;
+    feedId?: string;
+    ingestedAt: Date;
+}
+
+export interface StoreQuery {
+    max?: number;
+    // Keyword filter, applied to RSS items only (NewsAPI / X are already query-scoped)
+    keywords?: string[];
+    // Restrict RSS items to these feed ids
+    feedIds?: string[];
+    // RSS feeds bound to the requested topic – always included, keyword filter skipped
+    pinnedFeedIds?: string[];
+    since?: Date;
+}
+
+export interface StoryQuery {
+    max?: number;
+    // Only stories reported by at least this many distinct outlets
+    minSources?: number;
+    since?: Date;
+}
+
+// ============================================
+// Store
+// ============================================
+
+const DEFAULT_CAPACITY = 1000;
+
+export class IngestionStore {
+    private items = new Map<string, IngestedItem>();
+    private fingerprints = new Map<string, string>();
+    private clusterer: StoryClusterer;
+    private capacity: number;
+
+    constructor(capacity: number = DEFAULT_CAPACITY, clusterer: StoryClusterer = new StoryClusterer()) {
+        this.capacity = capacity;
+        this.clusterer = clusterer;
+    }
+
+    // Adds items and returns only the ones not seen before. Cross-source duplicates
+    // (same canonical id or same headline) are folded into the stored item's outlets.
+    add(origin: IngestOrigin, tweets: Tweet[], feedId?: string): Tweet[] {
+        const fresh: Tweet[] = [];
+        const now = new Date();
+
+        for (const incoming of tweets) {
+            const fingerprint = headlineFingerprint(incoming.text);
+            const existingId = this.items.has(incoming.id)
+                ? incoming.id
+                : fingerprint ? this.fingerprints.get(fingerprint) : undefined;
+
+            if (existingId) {
+                const existing = this.items.get(existingId)!;
+                existing.tweet = mergeOutlets(existing.tweet, incoming);
+                continue;
+            }
+
+            // Items hydrated from the database keep their persisted story (sources never set one)
+            const tweet: Tweet = { ...incoming, storyId: this.clusterer.assign(incoming, incoming.storyId) };
+            this.items.set(tweet.id, { tweet, origin, feedId, ingestedAt: now });
+            if (fingerprint) this.fingerprints.set(fingerprint, tweet.id);
+            fresh.push(tweet);
+        }
+
+        if (this.items.size > this.capacity) this.evict();
+        return fresh;
+    }
+
+    query(options: StoreQuery = {}): Tweet[] {
+        const { max = 20, keywords = [], feedIds, pinnedFeedIds = [], since } = options;
+        const lower = keywords.map((k) => k.toLowerCase());
+
+        const matches: Tweet[] = [];
+        for (const item of this.items.values()) {
+            if (since && new Date(item.tweet.createdAt) < since) continue;
+            if (item.origin === 'rss') {
+                if (feedIds && item.feedId && !feedIds.includes(item.feedId)) continue;
+                const pinned = !!item.feedId && pinnedFeedIds.includes(item.feedId);
+                const text = item.tweet.text.toLowerCase();
+                if (!pinned && lower.length && !lower.some((kw) => text.includes(kw))) continue;
+            }
+            matches.push(item.tweet);
+        }
+
+        return rankTweets(matches).slice(0, max);
+    }
+
+    // Groups stored items by storyId, most recently active story first
+    stories(options: StoryQuery = {}): Story[] {
+        const { max = 20, minSources = 1, since } = options;
+        const groups = new Map<string, Tweet[]>();
+
+        for (const { tweet } of this.items.values()) {
+            if (!tweet.storyId) continue;
+            const group = groups.get(tweet.storyId);
+            if (group) group.push(tweet);
+            else groups.set(tweet.storyId, [tweet]);
+        }
+
+        return [...groups.entries()]
+            .map(([id, items]) => buildStory(id, items))
+            .filter((story) => story.sourceCount >= minSources && (!since || story.lastSeenAt >= since))
+            .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+            .slice(0, max);
+    }
+
+    countByOrigin(): Record<IngestOrigin, number> {
+        const counts: Record<IngestOrigin, number> = { rss: 0, newsapi: 0, x_api: 0 };
+        for (const item of this.items.values()) counts[item.origin]++;
+        return counts;
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    clear(): void {
+        this.items.clear();
+        this.fingerprints.clear();
+        this.clusterer.clear();
+    }
+
+    // Drop the oldest items (by createdAt) until we're back under capacity
+    private evict(): void {
+        const sorted = [...this.items.values()].sort(
+            (a, b) => new Date(a.tweet.createdAt).getTime() - new Date(b.tweet.createdAt).getTime()
+        );
+
+        for (const item of sorted.slice(0, this.items.size - this.capacity)) {
+            this.items.delete(item.tweet.id);
+            this.clusterer.remove(item.tweet.id);
+            const fingerprint = headlineFingerprint(item.tweet.text);
+            if (this.fingerprints.get(fingerprint) === item.tweet.id) {
+                this.fingerprints.delete(fingerprint);
+            }
+        }
+    }
+}
+
+// ============================================
+// Singleton
+// ============================================
+
+// Kept on globalThis because Next.js bundles instrumentation and each route handler
+// separately – a plain module-level variable would give every bundle its own store
+const globalForStore = globalThis as unknown as { ingestionStore?: IngestionStore };
+
+export function getIngestionStore(): IngestionStore {
+    if (!globalForStore.ingestionStore) {
+        globalForStore.ingestionStore = new IngestionStore();
+    }
+    return globalForStore.ingestionStore;
+}
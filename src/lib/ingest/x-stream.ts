@@ -0,0 +1,314 @@
+// X API v2 Filtered Stream Consumer
+// Keeps one long-lived connection to /tweets/search/stream, parses the NDJSON body
+// and pushes each tweet into the ingestion pipeline as it arrives
+
+import type { Tweet } from '../db/schema';
+import {
+    XApiError,
+    transformXApiTweet,
+    type XApiClient,
+    type XStreamMessage,
+    type XStreamRule,
+} from '../api/x-api';
+import { TOPIC_PRESETS } from '../topics';
+import type { IngestSource } from './scheduler';
+
+// ============================================
+// Configuration
+// ============================================
+
+// X sends a keep-alive newline every 20s; treat 30s of silence as a stalled connection
+const STALL_TIMEOUT_MS = 30_000;
+
+// Reconnect policy from the X filtered-stream docs:
+//  - network errors: back off linearly by 250ms, up to 16s
+//  - HTTP errors: back off exponentially from 5s, up to 320s
+//  - 429: back off exponentially from 1 minute
+const BACKOFF = {
+    network: { initial: 250, max: 16_000 },
+    http: { initial: 5_000, max: 320_000 },
+    rateLimit: { initial: 60_000, max: 15 * 60_000 },
+} as const;
+
+export const STREAM_SOURCE: IngestSource = { id: 'x_stream', origin: 'x_api' };
+
+const RULE_TAG_PREFIX = 'topic:';
+
+// ============================================
+// Rule Sync
+// ============================================
+
+export interface StreamRuleSpec {
+    value: string;
+    tag: string;
+}
+
+// One rule per topic preset. Preset queries are NewsAPI syntax, which is close enough
+// to X's rule syntax (OR, quoted phrases); retweets are excluded to avoid floods of copies.
+export function topicStreamRules(): StreamRuleSpec[] {
+    return TOPIC_PRESETS.map((preset) => ({
+        value: `(${preset.query}) -is:retweet`,
+        tag: `${RULE_TAG_PREFIX}${preset.id}`,
+    }));
+}
+
+// Only rules tagged topic:* are ours – anything else on the account is left alone.
+// A rule whose value changed is deleted and re-added (X rules are immutable).
+export function diffStreamRules(
+    current: XStreamRule[],
+    desired: StreamRuleSpec[]
+): { add: StreamRuleSpec[]; delete: string[] } {
+    const managed = current.filter((r) => r.tag?.startsWith(RULE_TAG_PREFIX));
+
+    const remove = managed
+        .filter((r) => !desired.some((d) => d.tag === r.tag && d.value === r.value))
+        .map((r) => r.id);
+
+    const add = desired.filter(
+        (d) => !managed.some((r) => r.tag === d.tag && r.value === d.value)
+    );
+
+    return { add, delete: remove };
+}
+
+// ============================================
+// NDJSON Parsing
+// ============================================
+
+// Splits a chunked body into complete lines. Empty lines are heartbeats.
+export class NdjsonLineBuffer {
+    private buffer = '';
+
+    push(chunk: string): string[] {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+        return lines;
+    }
+}
+
+// ============================================
+// Stream Consumer
+// ============================================
+
+export interface XStreamStatus {
+    running: boolean;
+    connected: boolean;
+    connectedAt?: Date;
+    lastMessageAt?: Date;
+    lastHeartbeatAt?: Date;
+    lastError?: string;
+    reconnects: number;
+    tweetsReceived: number;
+    rules: XStreamRule[];
+}
+
+type ErrorKind = keyof typeof BACKOFF;
+
+class StreamError extends Error {
+    kind: ErrorKind;
+
+    constructor(kind: ErrorKind, message: string) {
+        super(message);
+        this.name = 'StreamError';
+        this.kind = kind;
+    }
+}
+
+export class XFilteredStream {
+    private client: XApiClient;
+    private onTweets: (tweets: Tweet[]) => void;
+    private controller: AbortController | null = null;
+    private loop: Promise<void> | null = null;
+    private attempts: Record<ErrorKind, number> = { network: 0, http: 0, rateLimit: 0 };
+    private rulesSynced = false;
+    private status: XStreamStatus = {
+        running: false,
+        connected: false,
+        reconnects: 0,
+        tweetsReceived: 0,
+        rules: [],
+    };
+
+    constructor(client: XApiClient, onTweets: (tweets: Tweet[]) => void) {
+        this.client = client;
+        this.onTweets = onTweets;
+    }
+
+    start(): void {
+        if (this.loop) return;
+        this.status.running = true;
+        this.loop = this.run().finally(() => {
+            this.loop = null;
+            this.status.running = false;
+        });
+    }
+
+    async stop(): Promise<void> {
+        this.status.running = false;
+        this.controller?.abort();
+        await this.loop;
+    }
+
+    getStatus(): XStreamStatus {
+        return { ...this.status, rules: [...this.status.rules] };
+    }
+
+    async syncRules(desired: StreamRuleSpec[] = topicStreamRules()): Promise<XStreamRule[]> {
+        const current = (await this.client.streamRules()).data ?? [];
+        const diff = diffStreamRules(current, desired);
+
+        if (diff.add.length || diff.delete.length) {
+            await this.client.updateStreamRules(diff);
+            console.log(`[XStream] Rules synced: +${diff.add.length} −${diff.delete.length}`);
+        }
+
+        this.status.rules = (await this.client.streamRules()).data ?? [];
+        this.rulesSynced = true;
+        return this.status.rules;
+    }
+
+    // ── Connection loop ──────────────────────────────────────────────────────
+
+    private async run(): Promise<void> {
+        while (this.status.running) {
+            try {
+                if (!this.rulesSynced) await this.syncRules();
+                await this.connect();
+            } catch (error: unknown) {
+                if (!this.status.running) break;
+
+                const kind = this.classify(error);
+                // A 429 with a reset time waits at least until the window reopens
+                const resetMs = error instanceof XApiError && error.retryAt ? error.retryAt.getTime() - Date.now() : 0;
+                const delay = Math.max(this.nextDelay(kind), resetMs);
+                this.status.lastError = error instanceof Error ? error.message : String(error);
+                console.error(`[XStream] ${this.status.lastError} – reconnecting in ${delay}ms`);
+                await this.sleep(delay);
+            } finally {
+                this.status.connected = false;
+            }
+
+            if (this.status.running) this.status.reconnects++;
+        }
+    }
+
+    private async connect(): Promise<void> {
+        const controller = new AbortController();
+        this.controller = controller;
+
+        let stallTimer: NodeJS.Timeout | null = null;
+        const resetStallTimer = () => {
+            if (stallTimer) clearTimeout(stallTimer);
+            stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS);
+            stallTimer.unref?.();
+        };
+
+        try {
+            resetStallTimer();
+            const response = await this.client.openFilteredStream(controller.signal);
+
+            if (response.status === 429) {
+                throw new StreamError('rateLimit', 'Filtered stream rate limited (429)');
+            }
+            if (!response.ok || !response.body) {
+                throw new StreamError('http', `Filtered stream error: ${response.status} ${response.statusText}`);
+            }
+
+            this.status.connected = true;
+            this.status.connectedAt = new Date();
+            this.status.lastError = undefined;
+            this.attempts = { network: 0, http: 0, rateLimit: 0 };
+            console.log('[XStream] Connected');
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            const lines = new NdjsonLineBuffer();
+
+            while (this.status.running) {
+                const { done, value } = await reader.read();
+                if (done) throw new StreamError('network', 'Stream closed by server');
+
+                resetStallTimer();
+                for (const line of lines.push(decoder.decode(value, { stream: true }))) {
+                    this.handleLine(line);
+                }
+            }
+        } catch (error: unknown) {
+            if (error instanceof StreamError) throw error;
+            if (controller.signal.aborted && !this.status.running) return;
+            throw new StreamError(
+                'network',
+                controller.signal.aborted
+                    ? `No data for ${STALL_TIMEOUT_MS / 1000}s – connection stalled`
+                    : `Stream connection lost: ${error instanceof Error ? error.message : error}`
+            );
+        } finally {
+            if (stallTimer) clearTimeout(stallTimer);
+            controller.abort(); // releases the socket if we bailed out mid-read
+            if (this.controller === controller) this.controller = null;
+        }
+    }
+
+    private handleLine(line: string): void {
+        if (!line.trim()) {
+            this.status.lastHeartbeatAt = new Date();
+            return;
+        }
+
+        let message: XStreamMessage;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            console.warn('[XStream] Skipping malformed line');
+            return;
+        }
+        this.status.lastMessageAt = new Date();
+
+        // Operational disconnects arrive in-band as an errors payload before the socket closes
+        if (message.errors?.length && !message.data) {
+            throw new StreamError('http', `Stream error: ${message.errors.map((e) => e.title).join('; ')}`);
+        }
+        if (!message.data) return;
+
+        const tweet: Tweet = transformXApiTweet(
+            message.data,
+            message.includes?.users ?? [],
+            message.includes?.media
+        );
+        this.status.tweetsReceived++;
+
+        try {
+            this.onTweets([tweet]);
+        } catch (error: unknown) {
+            console.error('[XStream] Ingest failed:', error instanceof Error ? error.message : error);
+        }
+    }
+
+    // ── Backoff ──────────────────────────────────────────────────────────────
+
+    private classify(error: unknown): ErrorKind {
+        if (error instanceof StreamError) return error.kind;
+        if (error instanceof XApiError) return error.status === 429 ? 'rateLimit' : 'http';
+        return 'network';
+    }
+
+    private nextDelay(kind: ErrorKind): number {
+        const { initial, max } = BACKOFF[kind];
+        const attempt = this.attempts[kind]++;
+        const delay = kind === 'network' ? initial * (attempt + 1) : initial * 2 ** attempt;
+        return Math.min(delay, max);
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => {
+            const timer = setTimeout(resolve, ms);
+            timer.unref?.();
+            this.controller = new AbortController();
+            this.controller.signal.addEventListener('abort', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+}
@@ -0,0 +1,282 @@
+// Mock Alert Receiver
+// Local stand-in for the webhook channels, so alert deliveries and the outbox retry paths can be
+// exercised without real Slack, Discord or Telegram accounts. Point an action's webhookUrl at
+// http://localhost:<port>/slack/…, /discord/… or /webhook/…, and TELEGRAM_API_URL at http://localhost:<port>
+
+import http from 'http';
+import { WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, verifyWebhookSignature } from '../alerts/channels';
+
+// ============================================
+// Configuration
+// ============================================
+
+export type MockAlertChannel = 'slack' | 'discord' | 'telegram' | 'webhook';
+
+export interface MockAlertReceiverOptions {
+    // Signing secret expected on /webhook/… posts – give the webhook action the same one
+    webhookSecret?: string;
+    // Called for every delivery the receiver answers, e.g. to log it
+    onDelivery?: (delivery: ReceivedDelivery) => void;
+}
+
+export interface ReceivedDelivery {
+    channel: MockAlertChannel;
+    path: string;
+    receivedAt: Date;
+    status: number;
+    body: unknown;
+    // /webhook/… only: whether the X-Alert-Signature header checked out
+    signatureValid?: boolean;
+}
+
+// Queued with POST /__mock/failures: the next `count` deliveries (to `channel`, or any) get `status`
+export interface MockFailure {
+    status: number;
+    // Seconds, sent the way each channel does it (body retry_after or the Retry-After header)
+    retryAfter?: number;
+    count: number;
+    channel?: MockAlertChannel;
+}
+
+export const DEFAULT_MOCK_WEBHOOK_SECRET = 'mock-alert-receiver-secret';
+
+const HISTORY_SIZE = 200;
+const CHANNELS: MockAlertChannel[] = ['slack', 'discord', 'telegram', 'webhook'];
+
+// ============================================
+// Server
+// ============================================
+
+export function createMockAlertReceiver(options: MockAlertReceiverOptions = {}): http.Server {
+    const { webhookSecret = DEFAULT_MOCK_WEBHOOK_SECRET, onDelivery } = options;
+
+    // Newest first
+    const received: ReceivedDelivery[] = [];
+    const failures: MockFailure[] = [];
+    let nextMessageId = 1;
+
+    // ── Helpers ──────────────────────────────────────────────────────────────
+
+    function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+        if (typeof body === 'string') {
+            res.writeHead(status, { 'Content-Type': 'text/plain', ...headers });
+            res.end(body);
+        } else {
+            res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+            res.end(body === undefined ? undefined : JSON.stringify(body));
+        }
+    }
+
+    function readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+
+    function parseJson(text: string): Record<string, unknown> | null {
+        try {
+            const value = JSON.parse(text);
+            return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+        } catch {
+            return null;
+        }
+    }
+
+    function record(delivery: Omit<ReceivedDelivery, 'receivedAt'>): void {
+        const entry = { ...delivery, receivedAt: new Date() };
+        received.unshift(entry);
+        if (received.length > HISTORY_SIZE) received.length = HISTORY_SIZE;
+        onDelivery?.(entry);
+    }
+
+    // Takes one queued failure for this channel, if any
+    function nextFailure(channel: MockAlertChannel): MockFailure | undefined {
+        const index = failures.findIndex((f) => !f.channel || f.channel === channel);
+        if (index === -1) return undefined;
+        const failure = failures[index];
+        if (--failure.count <= 0) failures.splice(index, 1);
+        return failure;
+    }
+
+    // The failure in each channel's own format – 429s carry the wait where the real service puts it
+    function sendFailure(res: http.ServerResponse, channel: MockAlertChannel, failure: MockFailure): void {
+        const retryAfter = failure.status === 429 ? failure.retryAfter ?? 1 : undefined;
+        const headers: Record<string, string> = retryAfter !== undefined ? { 'Retry-After': String(Math.ceil(retryAfter)) } : {};
+
+        switch (channel) {
+            case 'slack':
+                return send(res, failure.status, failure.status === 429 ? 'rate_limited' : 'mock_failure', headers);
+            case 'discord':
+                return send(res, failure.status, {
+                    message: failure.status === 429 ? 'You are being rate limited.' : 'Mock failure',
+                    ...(retryAfter !== undefined ? { retry_after: retryAfter, global: false } : {}),
+                }, headers);
+            case 'telegram':
+                return send(res, failure.status, {
+                    ok: false,
+                    error_code: failure.status,
+                    description: retryAfter !== undefined ? `Too Many Requests: retry after ${retryAfter}` : 'Mock failure',
+                    ...(retryAfter !== undefined ? { parameters: { retry_after: retryAfter } } : {}),
+                });
+            case 'webhook':
+                return send(res, failure.status, { error: 'Mock failure' }, headers);
+        }
+    }
+
+    // ── Channels ─────────────────────────────────────────────────────────────
+
+    // Incoming webhooks answer a plain "ok"; a message needs text or blocks
+    function slack(path: string, body: Record<string, unknown> | null, res: http.ServerResponse): void {
+        if (!body || (typeof body.text !== 'string' && !Array.isArray(body.blocks))) {
+            record({ channel: 'slack', path, status: 400, body });
+            return send(res, 400, 'invalid_payload');
+        }
+        record({ channel: 'slack', path, status: 200, body });
+        send(res, 200, 'ok');
+    }
+
+    // Webhook executions answer 204 No Content; a message needs content or embeds
+    function discord(path: string, body: Record<string, unknown> | null, res: http.ServerResponse): void {
+        if (!body || (typeof body.content !== 'string' && !Array.isArray(body.embeds))) {
+            record({ channel: 'discord', path, status: 400, body });
+            return send(res, 400, { message: 'Cannot send an empty message', code: 50006 });
+        }
+        record({ channel: 'discord', path, status: 204, body });
+        send(res, 204, undefined);
+    }
+
+    function telegram(path: string, body: Record<string, unknown> | null, res: http.ServerResponse): void {
+        const error = !body
+            ? 'Bad Request: invalid JSON'
+            : body.chat_id === undefined || body.chat_id === ''
+                ? 'Bad Request: chat not found'
+                : typeof body.text !== 'string' || !body.text.trim()
+                    ? 'Bad Request: message text is empty'
+                    : null;
+        if (error) {
+            record({ channel: 'telegram', path, status: 400, body });
+            return send(res, 400, { ok: false, error_code: 400, description: error });
+        }
+        record({ channel: 'telegram', path, status: 200, body });
+        send(res, 200, {
+            ok: true,
+            result: { message_id: nextMessageId++, chat: { id: body!.chat_id }, date: Math.floor(Date.now() / 1000), text: body!.text },
+        });
+    }
+
+    // Checked over the raw body, as a real receiver must
+    function webhook(path: string, raw: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+        const header = (name: string) => {
+            const value = req.headers[name.toLowerCase()];
+            return (Array.isArray(value) ? value[0] : value) ?? null;
+        };
+        const signatureValid = verifyWebhookSignature(
+            webhookSecret,
+            raw,
+            header(WEBHOOK_TIMESTAMP_HEADER),
+            header(WEBHOOK_SIGNATURE_HEADER)
+        );
+        const body = parseJson(raw) ?? raw;
+
+        if (!signatureValid) {
+            record({ channel: 'webhook', path, status: 401, body, signatureValid });
+            return send(res, 401, { error: 'Invalid or expired signature' });
+        }
+        record({ channel: 'webhook', path, status: 200, body, signatureValid });
+        send(res, 200, { received: true });
+    }
+
+    // ── Control ──────────────────────────────────────────────────────────────
+
+    function queueFailure(body: Record<string, unknown> | null, res: http.ServerResponse): void {
+        const status = body?.status ?? 429;
+        const count = body?.count ?? 1;
+        const retryAfter = body?.retryAfter;
+        const channel = body?.channel;
+
+        if (typeof status !== 'number' || !Number.isInteger(status) || status < 400 || status > 599) {
+            return send(res, 400, { error: 'status must be an HTTP error status (400–599)' });
+        }
+        if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) {
+            return send(res, 400, { error: 'count must be a positive integer' });
+        }
+        if (retryAfter !== undefined && (typeof retryAfter !== 'number' || !(retryAfter >= 0))) {
+            return send(res, 400, { error: 'retryAfter must be a non-negative number of seconds' });
+        }
+        if (channel !== undefined && !CHANNELS.includes(channel as MockAlertChannel)) {
+            return send(res, 400, { error: `channel must be one of ${CHANNELS.join(', ')}` });
+        }
+
+        failures.push({
+            status,
+            count,
+            ...(retryAfter !== undefined ? { retryAfter } : {}),
+            ...(channel !== undefined ? { channel: channel as MockAlertChannel } : {}),
+        });
+        send(res, 201, { failures });
+    }
+
+    // ── Routing ──────────────────────────────────────────────────────────────
+
+    function channelFor(pathname: string): MockAlertChannel | null {
+        if (/^\/bot[^/]+\/sendMessage$/.test(pathname)) return 'telegram';
+        const prefix = pathname.split('/')[1];
+        return CHANNELS.includes(prefix as MockAlertChannel) && prefix !== 'telegram' ? (prefix as MockAlertChannel) : null;
+    }
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = req.method || 'GET';
+
+        try {
+            if (url.pathname === '/__mock/deliveries') {
+                if (method === 'GET') {
+                    const channel = url.searchParams.get('channel');
+                    return send(res, 200, { deliveries: channel ? received.filter((d) => d.channel === channel) : received });
+                }
+                if (method === 'DELETE') {
+                    received.length = 0;
+                    return send(res, 204, undefined);
+                }
+            }
+
+            if (url.pathname === '/__mock/failures') {
+                if (method === 'GET') return send(res, 200, { failures });
+                if (method === 'POST') return queueFailure(parseJson(await readBody(req)), res);
+                if (method === 'DELETE') {
+                    failures.length = 0;
+                    return send(res, 204, undefined);
+                }
+            }
+
+            const channel = channelFor(url.pathname);
+            if (method === 'POST' && channel) {
+                // The bot token is part of Telegram's path – keep it out of the log
+                const path = url.pathname.replace(/^\/bot[^/]+/, '/bot…');
+                const raw = await readBody(req);
+                const failure = nextFailure(channel);
+                if (failure) {
+                    record({ channel, path, status: failure.status, body: parseJson(raw) ?? raw });
+                    return sendFailure(res, channel, failure);
+                }
+
+                switch (channel) {
+                    case 'slack': return slack(path, parseJson(raw), res);
+                    case 'discord': return discord(path, parseJson(raw), res);
+                    case 'telegram': return telegram(path, parseJson(raw), res);
+                    case 'webhook': return webhook(path, raw, req, res);
+                }
+            }
+
+            send(res, 404, { error: `No route for ${method} ${url.pathname}` });
+        } catch (error: unknown) {
+            console.error('[MockAlertReceiver]', error instanceof Error ? error.message : error);
+            if (!res.headersSent) send(res, 500, { error: 'Mock server error' });
+        }
+    });
+
+    return server;
+}
@@ -1 +1,2 @@
 export * from './tweet-generator';
+// x-api-server and alert-receiver are Node-only (http) – import them directly rather than through this barrel
@@ -1,4 +1,5 @@
 import type { Tweet, TweetCategory, SentimentAnalysis } from '../db/schema';
+import { extractEntities } from '../api/entities';
 
 // ============================================
 // Mock Data Configuration
@@ -158,10 +159,11 @@ export function generateMockTweet(): Tweet {
     const author = pickRandom(MOCK_USERNAMES);
     const category = generateCategory();
     const spamScore = author.followers < 10 ? 0.8 + Math.random() * 0.2 : Math.random() * 0.3;
+    const text = generateTweetText(category);
 
     return {
         id: generateId(),
-        text: generateTweetText(category),
+        text,
         author: {
             id: `user_${author.username}`,
             username: author.username,
@@ -173,6 +175,9 @@ export function generateMockTweet(): Tweet {
         metrics: generateMetrics(author),
         createdAt: new Date(Date.now() - Math.random() * 60000), // Within last minute
         source: 'mock',
+        sourceKind: 'mock',
+        ...extractEntities(text),
+        lang: 'en',
         sentiment: generateSentiment(),
         category,
         spamScore,
@@ -196,9 +201,11 @@ export function generateSpike(topic: string, count: number = 20): Tweet[] {
             `📰 ${topic}`,
         ];
 
+        const text = pickRandom(variations);
+
         return {
             id: generateId(),
-            text: pickRandom(variations),
+            text,
             author: {
                 id: `user_${author.username}`,
                 username: author.username,
@@ -210,6 +217,9 @@ export function generateSpike(topic: string, count: number = 20): Tweet[] {
             metrics: generateMetrics(author),
             createdAt: new Date(Date.now() - Math.random() * 10000),
             source: 'mock' as const,
+            sourceKind: 'mock' as const,
+            ...extractEntities(text),
+            lang: 'en',
             sentiment: generateSentiment(),
             category: 'breaking_news' as TweetCategory,
             spamScore: 0.1,
@@ -0,0 +1,396 @@
+// Mock X API v2 Server
+// Local stand-in for api.twitter.com so XApiClient, transformXApiTweet and the filtered-stream
+// consumer can be exercised without credentials. Point X_API_BASE_URL at http://localhost:<port>/2
+
+import http from 'http';
+import type { Tweet } from '../db/schema';
+import type {
+    XApiTweet,
+    XApiUser,
+    XApiSearchResponse,
+    XStreamRule,
+    XStreamMessage,
+} from '../api/x-api';
+import { generateMockTweet, generateMockTweets } from './tweet-generator';
+
+// ============================================
+// Configuration
+// ============================================
+
+export interface MockXApiServerOptions {
+    // Requests allowed per rate-limit window on each endpoint (search/recent is 450 per 15 min on X)
+    rateLimit?: number;
+    rateLimitWindowMs?: number;
+    // How often the stream emits a tweet and a keep-alive
+    streamIntervalMs?: number;
+    heartbeatIntervalMs?: number;
+    // Tweets generated up front so the first searches return something
+    seedCount?: number;
+    // Expected bearer token; any token is accepted when unset
+    bearerToken?: string;
+}
+
+const POOL_SIZE = 2000;
+
+// ============================================
+// Payload Conversion
+// ============================================
+
+// Snowflake-like ids: numeric strings that increase over time, like real tweet ids
+let lastId = BigInt(Date.now()) << BigInt(22);
+
+function nextTweetId(): string {
+    lastId += BigInt(1 + Math.floor(Math.random() * 1000));
+    return lastId.toString();
+}
+
+function userId(username: string): string {
+    let hash = 0;
+    for (const ch of username) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+    return String(1_000_000 + hash);
+}
+
+export function toXApiUser(tweet: Tweet): XApiUser {
+    return {
+        id: userId(tweet.author.username),
+        name: tweet.author.displayName,
+        username: tweet.author.username,
+        profile_image_url: tweet.author.avatarUrl,
+        verified: tweet.author.verified,
+        public_metrics: {
+            followers_count: tweet.author.followerCount,
+            following_count: Math.floor(Math.random() * 2000),
+            tweet_count: 1000 + Math.floor(Math.random() * 50_000),
+        },
+    };
+}
+
+export function toXApiTweet(tweet: Tweet, id: string = nextTweetId()): XApiTweet {
+    const hashtags = (tweet.hashtags ?? []).map((tag) => ({ tag }));
+    const mentions = (tweet.mentions ?? []).map((username) => ({ username }));
+    const cashtags = (tweet.cashtags ?? []).map((tag) => ({ tag }));
+
+    return {
+        id,
+        text: tweet.text,
+        created_at: new Date(tweet.createdAt).toISOString(),
+        author_id: userId(tweet.author.username),
+        public_metrics: {
+            retweet_count: tweet.metrics.retweets,
+            reply_count: tweet.metrics.replies,
+            like_count: tweet.metrics.likes,
+            quote_count: Math.floor(tweet.metrics.retweets / 4),
+            impression_count: tweet.metrics.views ?? 0,
+        },
+        lang: tweet.lang,
+        entities: hashtags.length || mentions.length || cashtags.length
+            ? { hashtags, mentions, cashtags }
+            : undefined,
+    };
+}
+
+interface PooledTweet {
+    tweet: XApiTweet;
+    user: XApiUser;
+}
+
+function pooled(tweet: Tweet): PooledTweet {
+    return { tweet: toXApiTweet(tweet), user: toXApiUser(tweet) };
+}
+
+// ============================================
+// Query Matching
+// ============================================
+
+// Good-enough subset of X query syntax: OR-separated terms and quoted phrases, with
+// operators (is:, lang:, -term) ignored. A tweet matches if it contains any term.
+export function queryTerms(query: string): string[] {
+    const terms: string[] = [];
+    const pattern = /-?"([^"]+)"|-?([^\s()"]+)/g;
+
+    for (const match of query.matchAll(pattern)) {
+        if (match[0].startsWith('-')) continue;
+        const term = (match[1] ?? match[2]).toLowerCase();
+        if (term === 'or' || term === 'and' || term.includes(':')) continue;
+        terms.push(term);
+    }
+
+    return terms;
+}
+
+function matchesQuery(text: string, terms: string[]): boolean {
+    if (!terms.length) return true;
+    const lower = text.toLowerCase();
+    return terms.some((term) => lower.includes(term));
+}
+
+// ============================================
+// Server
+// ============================================
+
+interface RateWindow {
+    count: number;
+    resetAt: number;
+}
+
+export function createMockXApiServer(options: MockXApiServerOptions = {}): http.Server {
+    const {
+        rateLimit = 450,
+        rateLimitWindowMs = 15 * 60_000,
+        streamIntervalMs = 2000,
+        heartbeatIntervalMs = 20_000,
+        seedCount = 200,
+        bearerToken,
+    } = options;
+
+    // Newest first, like search results
+    const pool: PooledTweet[] = generateMockTweets(seedCount)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .map(pooled)
+        .reverse();
+    const rules: XStreamRule[] = [];
+    const windows = new Map<string, RateWindow>();
+    const streams = new Set<http.ServerResponse>();
+    let nextRuleId = 1;
+
+    function addToPool(tweet: Tweet): PooledTweet {
+        const item = pooled(tweet);
+        pool.unshift(item);
+        if (pool.length > POOL_SIZE) pool.length = POOL_SIZE;
+        return item;
+    }
+
+    // ── Helpers ──────────────────────────────────────────────────────────────
+
+    function send(res: http.ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    // X-style problem payload
+    function sendError(res: http.ServerResponse, status: number, title: string, detail: string): void {
+        send(res, status, { title, detail, type: `https://api.twitter.com/2/problems/${title.toLowerCase().replace(/\s+/g, '-')}`, status });
+    }
+
+    // Sets x-rate-limit-* headers; returns false (after sending a 429) when the window is spent
+    function checkRateLimit(bucket: string, res: http.ServerResponse): boolean {
+        const now = Date.now();
+        let window = windows.get(bucket);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + rateLimitWindowMs };
+            windows.set(bucket, window);
+        }
+        window.count++;
+
+        res.setHeader('x-rate-limit-limit', String(rateLimit));
+        res.setHeader('x-rate-limit-remaining', String(Math.max(rateLimit - window.count, 0)));
+        res.setHeader('x-rate-limit-reset', String(Math.ceil(window.resetAt / 1000)));
+
+        if (window.count > rateLimit) {
+            sendError(res, 429, 'Too Many Requests', 'Too Many Requests');
+            return false;
+        }
+        return true;
+    }
+
+    function readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+
+    function ruleMatches(text: string): { id: string; tag?: string }[] {
+        return rules
+            .filter((rule) => matchesQuery(text, queryTerms(rule.value)))
+            .map((rule) => ({ id: rule.id, tag: rule.tag }));
+    }
+
+    // ── Endpoints ────────────────────────────────────────────────────────────
+
+    function searchRecent(url: URL, res: http.ServerResponse): void {
+        const query = url.searchParams.get('query');
+        if (!query) {
+            return sendError(res, 400, 'Invalid Request', 'The `query` query parameter can not be empty');
+        }
+
+        const maxResults = parseInt(url.searchParams.get('max_results') || '10', 10);
+        if (!Number.isInteger(maxResults) || maxResults < 10 || maxResults > 100) {
+            return sendError(res, 400, 'Invalid Request', 'The `max_results` query parameter value is not between 10 and 100');
+        }
+
+        const sinceId = url.searchParams.get('since_id');
+        if (sinceId !== null && !/^\d+$/.test(sinceId)) {
+            return sendError(res, 400, 'Invalid Request', `The \`since_id\` query parameter value [${sinceId}] is not valid`);
+        }
+
+        // A couple of new tweets per request keeps incremental (since_id) polling interesting
+        generateMockTweets(1 + Math.floor(Math.random() * 3)).forEach(addToPool);
+
+        const terms = queryTerms(query);
+        const matches = pool.filter(
+            (p) => matchesQuery(p.tweet.text, terms) && (!sinceId || BigInt(p.tweet.id) > BigInt(sinceId))
+        );
+
+        // next_token is just an offset into the match list
+        const offset = parseInt(url.searchParams.get('next_token') || '0', 10) || 0;
+        const page = matches.slice(offset, offset + maxResults);
+        const hasMore = offset + maxResults < matches.length;
+
+        const users = new Map(page.map((p) => [p.user.id, p.user]));
+        const body: XApiSearchResponse = {
+            data: page.map((p) => p.tweet),
+            includes: { users: [...users.values()] },
+            meta: {
+                newest_id: page[0]?.tweet.id,
+                oldest_id: page[page.length - 1]?.tweet.id,
+                result_count: page.length,
+                next_token: hasMore ? String(offset + maxResults) : undefined,
+            },
+        };
+
+        // X omits `data` entirely when nothing matched
+        send(res, 200, page.length ? body : { meta: { result_count: 0 } });
+    }
+
+    async function updateRules(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let payload: { add?: { value: string; tag?: string }[]; delete?: { ids?: string[] } };
+        try {
+            payload = JSON.parse(await readBody(req));
+        } catch {
+            return sendError(res, 400, 'Invalid Request', 'Request body is not valid JSON');
+        }
+
+        const sent = new Date().toISOString();
+
+        if (payload.delete?.ids) {
+            const ids = payload.delete.ids;
+            const before = rules.length;
+            for (let i = rules.length - 1; i >= 0; i--) {
+                if (ids.includes(rules[i].id)) rules.splice(i, 1);
+            }
+            const deleted = before - rules.length;
+            return send(res, 200, {
+                meta: { sent, summary: { deleted, not_deleted: ids.length - deleted } },
+            });
+        }
+
+        if (payload.add) {
+            const created: XStreamRule[] = [];
+            const errors: { title: string; value: string; detail: string }[] = [];
+
+            for (const { value, tag } of payload.add) {
+                if (!value || value.length > 512) {
+                    errors.push({ title: 'Invalid Rule', value, detail: 'Rules must be 1–512 characters' });
+                } else if (rules.some((r) => r.value === value)) {
+                    errors.push({ title: 'DuplicateRule', value, detail: 'Rule already exists' });
+                } else {
+                    created.push({ id: String(nextRuleId++), value, tag });
+                }
+            }
+
+            // Like X, one invalid rule rejects the whole batch
+            if (!errors.some((e) => e.title === 'Invalid Rule')) rules.push(...created);
+
+            return send(res, 200, {
+                data: errors.length ? undefined : created,
+                meta: {
+                    sent,
+                    summary: {
+                        created: errors.length ? 0 : created.length,
+                        not_created: errors.length ? payload.add.length : 0,
+                        valid: created.length,
+                        invalid: errors.length,
+                    },
+                },
+                errors: errors.length ? errors : undefined,
+            });
+        }
+
+        sendError(res, 400, 'Invalid Request', 'Body must contain `add` or `delete`');
+    }
+
+    function openStream(req: http.IncomingMessage, res: http.ServerResponse): void {
+        res.writeHead(200, {
+            'Content-Type': 'application/json',
+            'Transfer-Encoding': 'chunked',
+            'Connection': 'keep-alive',
+        });
+        streams.add(res);
+
+        const emit = () => {
+            const tweet = addToPool(generateMockTweet());
+            const matchingRules = ruleMatches(tweet.tweet.text);
+            // The real stream only delivers tweets that match at least one rule
+            if (!matchingRules.length) return;
+
+            const message: XStreamMessage = {
+                data: tweet.tweet,
+                includes: { users: [tweet.user] },
+                matching_rules: matchingRules,
+            };
+            res.write(`${JSON.stringify(message)}\r\n`);
+        };
+
+        const tweetTimer = setInterval(emit, streamIntervalMs);
+        const heartbeatTimer = setInterval(() => res.write('\r\n'), heartbeatIntervalMs);
+        res.write('\r\n');
+
+        req.on('close', () => {
+            clearInterval(tweetTimer);
+            clearInterval(heartbeatTimer);
+            streams.delete(res);
+        });
+    }
+
+    // ── Routing ──────────────────────────────────────────────────────────────
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = req.method || 'GET';
+
+        const auth = req.headers.authorization;
+        if (!auth?.startsWith('Bearer ') || (bearerToken && auth.slice(7) !== bearerToken)) {
+            return sendError(res, 401, 'Unauthorized', 'Unauthorized');
+        }
+
+        try {
+            if (method === 'GET' && url.pathname === '/2/tweets/search/recent') {
+                if (checkRateLimit('search', res)) searchRecent(url, res);
+                return;
+            }
+
+            if (url.pathname === '/2/tweets/search/stream/rules') {
+                if (method === 'GET') {
+                    if (!checkRateLimit('rules:get', res)) return;
+                    return send(res, 200, {
+                        data: rules.length ? rules : undefined,
+                        meta: { sent: new Date().toISOString(), result_count: rules.length },
+                    });
+                }
+                if (method === 'POST') {
+                    if (checkRateLimit('rules:post', res)) await updateRules(req, res);
+                    return;
+                }
+            }
+
+            if (method === 'GET' && url.pathname === '/2/tweets/search/stream') {
+                // X allows one connection per app – a second one is rejected
+                if (streams.size > 0) {
+                    return sendError(res, 429, 'ConnectionException', 'This stream is currently at the maximum allowed connection limit.');
+                }
+                if (checkRateLimit('stream', res)) openStream(req, res);
+                return;
+            }
+
+            sendError(res, 404, 'Not Found Error', `No route for ${method} ${url.pathname}`);
+        } catch (error: unknown) {
+            console.error('[MockXApi]', error instanceof Error ? error.message : error);
+            if (!res.headersSent) sendError(res, 500, 'Internal Error', 'Mock server error');
+        }
+    });
+
+    return server;
+}
@@ -0,0 +1,43 @@
+// Socket.io event names and payloads
+// Shared by the socket server and the client hooks – no server imports here
+
+// ============================================
+// Socket Events
+// ============================================
+
+export const SOCKET_EVENTS = {
+    // Client -> Server
+    JOIN_ROOM: 'join-room',
+    LEAVE_ROOM: 'leave-room',
+    REQUEST_HISTORY: 'request-history',
+
+    // Server -> Client
+    NEW_TWEET: 'new-tweet',
+    TWEET_BATCH: 'tweet-batch',
+    VELOCITY_UPDATE: 'velocity-update',
+    SPIKE_ALERT: 'spike-alert',
+    CONNECTION_STATUS: 'connection-status',
+} as const;
+
+export type SocketEventType = keyof typeof SOCKET_EVENTS;
+
+// ============================================
+// Event Payloads
+// ============================================
+
+export interface SpikeAlertPayload {
+    topic: string;
+    tweetCount: number;
+    startTime: Date;
+    sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
+    // Set when a configured alert fired (see lib/alerts/monitor)
+    alertId?: string;
+    triggerId?: string;
+    details?: string;
+}
+
+export interface ConnectionStatusPayload {
+    connected: boolean;
+    clientCount: number;
+    serverTime: Date;
+}
@@ -5,7 +5,7 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
 import type { Tweet, VelocitySnapshot } from '../db/schema';
-import { SOCKET_EVENTS, type SpikeAlertPayload, type ConnectionStatusPayload } from './socket-server';
+import { SOCKET_EVENTS, type SpikeAlertPayload, type ConnectionStatusPayload } from './events';
 
 // ============================================
 // Socket Connection Hook
@@ -13,12 +13,13 @@ import { SOCKET_EVENTS, type SpikeAlertPayload, type ConnectionStatusPayload } f
 
 let socket: Socket | null = null;
 
+// Same origin unless the socket server runs on its own port (SOCKET_PORT)
+const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL;
+
 function getSocket(): Socket {
     if (!socket) {
-        socket = io({
-            transports: ['websocket', 'polling'],
-            autoConnect: true,
-        });
+        const options = { transports: ['websocket', 'polling'], autoConnect: true };
+        socket = SOCKET_URL ? io(SOCKET_URL, options) : io(options);
     }
     return socket;
 }
@@ -154,12 +155,15 @@ export function useVelocityStream(options: {
 
 export function useSpikeAlerts(options: {
     onAlert?: (alert: SpikeAlertPayload) => void;
+    // false: don't open a connection (e.g. no socket server configured)
+    enabled?: boolean;
 } = {}) {
-    const { onAlert } = options;
+    const { onAlert, enabled = true } = options;
     const [alerts, setAlerts] = useState<SpikeAlertPayload[]>([]);
     const [latestAlert, setLatestAlert] = useState<SpikeAlertPayload | null>(null);
 
     useEffect(() => {
+        if (!enabled) return;
         const socket = getSocket();
 
         function handleAlert(alert: SpikeAlertPayload) {
@@ -173,7 +177,7 @@ export function useSpikeAlerts(options: {
         return () => {
             socket.off(SOCKET_EVENTS.SPIKE_ALERT, handleAlert);
         };
-    }, [onAlert]);
+    }, [onAlert, enabled]);
 
     const clearAlerts = useCallback(() => {
         setAlerts([]);
@@ -2,57 +2,24 @@
 // Server-side socket configuration for Next.js
 
 import { Server as SocketIOServer } from 'socket.io';
-import type { Server as HTTPServer } from 'http';
+import { createServer, type Server as HTTPServer } from 'http';
 import type { Tweet, VelocitySnapshot } from '../db/schema';
+import { getIngestionStore } from '../ingest/store';
+import { SOCKET_EVENTS, type SpikeAlertPayload, type ConnectionStatusPayload } from './events';
 
-// ============================================
-// Socket Events
-// ============================================
-
-export const SOCKET_EVENTS = {
-    // Client -> Server
-    JOIN_ROOM: 'join-room',
-    LEAVE_ROOM: 'leave-room',
-    REQUEST_HISTORY: 'request-history',
-
-    // Server -> Client
-    NEW_TWEET: 'new-tweet',
-    TWEET_BATCH: 'tweet-batch',
-    VELOCITY_UPDATE: 'velocity-update',
-    SPIKE_ALERT: 'spike-alert',
-    CONNECTION_STATUS: 'connection-status',
-} as const;
-
-export type SocketEventType = keyof typeof SOCKET_EVENTS;
-
-// ============================================
-// Event Payloads
-// ============================================
-
-export interface SpikeAlertPayload {
-    topic: string;
-    tweetCount: number;
-    startTime: Date;
-    sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
-}
-
-export interface ConnectionStatusPayload {
-    connected: boolean;
-    clientCount: number;
-    serverTime: Date;
-}
+export * from './events';
 
 // ============================================
 // Socket Server Singleton
 // ============================================
 
-let io: SocketIOServer | null = null;
-let connectedClients = 0;
+// On globalThis so the instrumentation hook and route handlers broadcast through one server
+const globalForSocket = globalThis as unknown as { io?: SocketIOServer; connectedClients?: number };
 
 export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
-    if (io) return io;
+    if (globalForSocket.io) return globalForSocket.io;
 
-    io = new SocketIOServer(httpServer, {
+    const io = new SocketIOServer(httpServer, {
         cors: {
             origin: process.env.NODE_ENV === 'development'
                 ? 'http://localhost:3000'
@@ -61,9 +28,12 @@ export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
         },
         transports: ['websocket', 'polling'],
     });
+    globalForSocket.io = io;
+    globalForSocket.connectedClients = 0;
 
     io.on('connection', (socket) => {
-        connectedClients++;
+        const connectedClients = getConnectedClientCount() + 1;
+        globalForSocket.connectedClients = connectedClients;
         console.log(`🔌 Client connected: ${socket.id} (Total: ${connectedClients})`);
 
         // Send connection status
@@ -84,9 +54,18 @@ export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
             console.log(`📺 ${socket.id} left room: ${room}`);
         });
 
+        // Serve backlog from the ingestion store – never fetches upstream
+        socket.on(SOCKET_EVENTS.REQUEST_HISTORY, (options: { max?: number; keywords?: string[] } = {}) => {
+            const tweets = getIngestionStore().query({
+                max: Math.min(options.max ?? 50, 200),
+                keywords: options.keywords,
+            });
+            socket.emit(SOCKET_EVENTS.TWEET_BATCH, tweets);
+        });
+
         socket.on('disconnect', () => {
-            connectedClients--;
-            console.log(`🔌 Client disconnected: ${socket.id} (Total: ${connectedClients})`);
+            globalForSocket.connectedClients = getConnectedClientCount() - 1;
+            console.log(`🔌 Client disconnected: ${socket.id} (Total: ${globalForSocket.connectedClients})`);
         });
     });
 
@@ -94,8 +73,19 @@ export function initSocketServer(httpServer: HTTPServer): SocketIOServer {
     return io;
 }
 
+// `next start` has no hook into its HTTP server, so the socket server gets a port of its own
+// (SOCKET_PORT); dashboards connect to it via NEXT_PUBLIC_SOCKET_URL
+export function startSocketServer(port: number): SocketIOServer {
+    if (globalForSocket.io) return globalForSocket.io;
+
+    const httpServer = createServer();
+    const server = initSocketServer(httpServer);
+    httpServer.listen(port, () => console.log(`🔌 Socket.io listening on :${port}`));
+    return server;
+}
+
 export function getSocketServer(): SocketIOServer | null {
-    return io;
+    return globalForSocket.io ?? null;
 }
 
 // ============================================
@@ -103,30 +93,35 @@ export function getSocketServer(): SocketIOServer | null {
 // ============================================
 
 export function broadcastTweet(tweet: Tweet): void {
+    const io = globalForSocket.io;
     if (!io) return;
     io.emit(SOCKET_EVENTS.NEW_TWEET, tweet);
 }
 
 export function broadcastTweetBatch(tweets: Tweet[]): void {
+    const io = globalForSocket.io;
     if (!io) return;
     io.emit(SOCKET_EVENTS.TWEET_BATCH, tweets);
 }
 
 export function broadcastVelocityUpdate(snapshot: VelocitySnapshot): void {
+    const io = globalForSocket.io;
     if (!io) return;
     io.emit(SOCKET_EVENTS.VELOCITY_UPDATE, snapshot);
 }
 
 export function broadcastSpikeAlert(alert: SpikeAlertPayload): void {
+    const io = globalForSocket.io;
     if (!io) return;
     io.emit(SOCKET_EVENTS.SPIKE_ALERT, alert);
 }
 
 export function broadcastToRoom(room: string, event: string, data: unknown): void {
+    const io = globalForSocket.io;
     if (!io) return;
     io.to(room).emit(event, data);
 }
 
 export function getConnectedClientCount(): number {
-    return connectedClients;
+    return globalForSocket.connectedClients ?? 0;
 }
@@ -0,0 +1,56 @@
+// NDJSON Archives
+// Streams expired rows into a gzip-compressed NDJSON file, one JSON object per line.
+// Written under a .partial name and renamed on close, so a crash never leaves a truncated archive.
+
+import { createWriteStream } from 'fs';
+import { mkdir, rename } from 'fs/promises';
+import { once } from 'events';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGzip, type Gzip } from 'zlib';
+
+export class NdjsonArchive {
+    readonly filePath: string;
+    private gzip: Gzip | null = null;
+    private done: Promise<void> | null = null;
+    private count = 0;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    // The file is only created once there's something to write
+    async write(records: unknown[]): Promise<void> {
+        if (!records.length) return;
+
+        if (!this.gzip) {
+            await mkdir(path.dirname(this.filePath), { recursive: true });
+            this.gzip = createGzip();
+            this.done = pipeline(this.gzip, createWriteStream(`${this.filePath}.partial`));
+            // Surfaced by close(); without this a disk error before then is an unhandled rejection
+            this.done.catch(() => undefined);
+        }
+
+        for (const record of records) {
+            if (!this.gzip.write(`${JSON.stringify(record)}\n`)) await once(this.gzip, 'drain');
+            this.count++;
+        }
+    }
+
+    // Resolves to the number of records written (0 means no file was created)
+    async close(): Promise<number> {
+        if (this.gzip) {
+            this.gzip.end();
+            await this.done;
+            await rename(`${this.filePath}.partial`, this.filePath);
+            this.gzip = null;
+        }
+        return this.count;
+    }
+}
+
+// data/archive/tweets/2026-10-19/tweets-2026-10-19T14-00-00-000Z.ndjson.gz
+export function archivePath(dir: string, table: string, at: Date): string {
+    const stamp = at.toISOString().replace(/[:.]/g, '-');
+    return path.join(dir, table, stamp.slice(0, 10), `${table}-${stamp}.ndjson.gz`);
+}
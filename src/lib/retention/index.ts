@@ -0,0 +1,20 @@
+// Retention entry point – policy, archives and the background compaction/expiry job
+
+import { getRepositories } from '../db';
+import { RetentionJob } from './job';
+import { loadRetentionPolicy } from './policy';
+
+export * from './policy';
+export * from './archive';
+export * from './job';
+
+// On globalThis so route handlers and the instrumentation hook share one job
+const globalForRetention = globalThis as unknown as { retentionJob?: RetentionJob };
+
+export function getRetentionJob(): RetentionJob {
+    if (!globalForRetention.retentionJob) {
+        const intervalMs = parseInt(process.env.RETENTION_INTERVAL_MS || '', 10) || undefined;
+        globalForRetention.retentionJob = new RetentionJob(getRepositories(), loadRetentionPolicy(), intervalMs);
+    }
+    return globalForRetention.retentionJob;
+}
@@ -0,0 +1,291 @@
+// Retention Job
+// Periodically rolls minute velocity snapshots up into hour/day aggregates and folds expiring
+// tweets into their story aggregates, then archives and deletes rows that have outlived their
+// retention period. Archiving is at-least-once: if a delete
+// fails after the archive was written, the next run archives those rows again.
+
+import { TWEET_SOURCE_KINDS, type SnapshotResolution, type Tweet, type VelocitySnapshot } from '../db/schema';
+import { MAX_PAGE_SIZE, type Repositories, type TweetQuery } from '../db/repository';
+import { RESOLUTION_MS, bucketStart, rollupSnapshots } from '../velocity/snapshot';
+import { aggregateStory } from '../stories/aggregate';
+import { NdjsonArchive, archivePath } from './archive';
+import { parsePeriod, type RetentionPolicy } from './policy';
+
+const DEFAULT_INTERVAL_MS = 60 * 60_000;
+// Let the server settle (and the first ingestion sweep finish) before the first pass
+const FIRST_RUN_DELAY_MS = 60_000;
+// Minute buckets are flushed up to ~15s after they close; don't aggregate an hour before they land
+const ROLLUP_SETTLE_MS = 5 * 60_000;
+// The very first rollup looks back at least this far (or the source's retention, if longer),
+// so buckets that already outlived their retention are aggregated before they're deleted
+const FIRST_ROLLUP_LOOKBACK_MS = 35 * 24 * 60 * 60_000;
+
+const ROLLUPS: { from: SnapshotResolution; to: SnapshotResolution }[] = [
+    { from: 'minute', to: 'hour' },
+    { from: 'hour', to: 'day' },
+];
+
+export interface RetentionReport {
+    startedAt: Date;
+    finishedAt: Date;
+    rolledUp: Record<'hour' | 'day', number>;
+    // Story aggregates created or updated from expiring tweets
+    storiesAggregated: number;
+    deleted: { tweets: number; velocity_snapshots: number; story_aggregates: number };
+    archives: string[];
+}
+
+export interface RetentionStatus {
+    running: boolean;
+    lastRun?: RetentionReport;
+    lastError?: string;
+    nextRunAt?: Date;
+}
+
+export class RetentionJob {
+    private repositories: Repositories;
+    private policy: RetentionPolicy;
+    private intervalMs: number;
+    private timer: NodeJS.Timeout | null = null;
+    private current: Promise<RetentionReport> | null = null;
+    private status: RetentionStatus = { running: false };
+
+    constructor(repositories: Repositories, policy: RetentionPolicy, intervalMs: number = DEFAULT_INTERVAL_MS) {
+        this.repositories = repositories;
+        this.policy = policy;
+        this.intervalMs = intervalMs;
+    }
+
+    getPolicy(): RetentionPolicy {
+        return this.policy;
+    }
+
+    getStatus(): RetentionStatus {
+        return { ...this.status };
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.schedule(FIRST_RUN_DELAY_MS);
+    }
+
+    stop(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.status.nextRunAt = undefined;
+    }
+
+    // Concurrent callers share the pass already in progress
+    run(now: Date = new Date()): Promise<RetentionReport> {
+        this.current ??= this.execute(now).finally(() => {
+            this.current = null;
+        });
+        return this.current;
+    }
+
+    private schedule(delay: number): void {
+        this.status.nextRunAt = new Date(Date.now() + delay);
+        this.timer = setTimeout(async () => {
+            try {
+                await this.run();
+            } catch {
+                // Recorded in status by execute()
+            }
+            if (this.timer) this.schedule(this.intervalMs);
+        }, delay);
+        this.timer.unref?.();
+    }
+
+    private async execute(now: Date): Promise<RetentionReport> {
+        this.status.running = true;
+        const report: RetentionReport = {
+            startedAt: new Date(),
+            finishedAt: new Date(),
+            rolledUp: { hour: 0, day: 0 },
+            storiesAggregated: 0,
+            deleted: { tweets: 0, velocity_snapshots: 0, story_aggregates: 0 },
+            archives: [],
+        };
+
+        try {
+            // Roll up first – expiring minute buckets before their hour is aggregated would lose them
+            for (const { from, to } of ROLLUPS) {
+                report.rolledUp[to as 'hour' | 'day'] = await this.rollup(from, to, now);
+            }
+            await this.expireTweets(now, report);
+            await this.expireSnapshots(now, report);
+            await this.expireStories(now, report);
+
+            report.finishedAt = new Date();
+            this.status.lastRun = report;
+            this.status.lastError = undefined;
+            console.log(
+                `[Retention] Rolled up ${report.rolledUp.hour}h/${report.rolledUp.day}d, ` +
+                `aggregated ${report.storiesAggregated} stories, deleted ${report.deleted.tweets} tweets, ` +
+                `${report.deleted.velocity_snapshots} snapshots and ${report.deleted.story_aggregates} stories`
+            );
+            return report;
+        } catch (error: unknown) {
+            this.status.lastError = error instanceof Error ? error.message : String(error);
+            console.error('[Retention] Run failed:', this.status.lastError);
+            throw error;
+        } finally {
+            this.status.running = false;
+        }
+    }
+
+    // ── Compaction ───────────────────────────────────────────────────────────
+
+    // Aggregates every complete `to` bucket after the latest existing rollup. Empty buckets
+    // are skipped, so a trailing gap is simply re-checked on the next run.
+    private async rollup(from: SnapshotResolution, to: SnapshotResolution, now: Date): Promise<number> {
+        const size = RESOLUTION_MS[to];
+        const [latest] = await this.repositories.snapshots.range({ resolution: to, limit: 1 });
+        const lookback = Math.max(parsePeriod(this.policy.snapshots[from]) ?? 0, FIRST_ROLLUP_LOOKBACK_MS);
+
+        let start = latest
+            ? new Date(new Date(latest.timestamp).getTime() + size)
+            : bucketStart(now.getTime() - lookback, to);
+        const end = bucketStart(now.getTime() - ROLLUP_SETTLE_MS, to);
+
+        let written = 0;
+        for (; start < end; start = new Date(start.getTime() + size)) {
+            const until = new Date(start.getTime() + size);
+            const snapshots: VelocitySnapshot[] = await this.repositories.snapshots.range({
+                resolution: from,
+                since: start,
+                until,
+            });
+            if (!snapshots.length) continue;
+
+            await this.repositories.snapshots.insert([rollupSnapshots(start, to, snapshots)]);
+            written++;
+        }
+        return written;
+    }
+
+    // ── Expiry ───────────────────────────────────────────────────────────────
+
+    // One query per rule: spam first, then each source kind with its own period, then the rest
+    private tweetRules(now: Date): TweetQuery[] {
+        const { tweets } = this.policy;
+        const cutoff = (period: string | null) => {
+            const ms = parsePeriod(period);
+            return ms === null ? null : new Date(now.getTime() - ms);
+        };
+
+        const rules: TweetQuery[] = [];
+        const spamCutoff = cutoff(tweets.spam);
+        if (spamCutoff) rules.push({ spam: true, until: spamCutoff });
+
+        const overridden = TWEET_SOURCE_KINDS.filter((k) => tweets.sourceKinds[k] !== undefined);
+        for (const kind of overridden) {
+            const until = cutoff(tweets.sourceKinds[kind] ?? null);
+            if (until) rules.push({ sourceKinds: [kind], until });
+        }
+
+        const rest = TWEET_SOURCE_KINDS.filter((k) => !overridden.includes(k));
+        const defaultCutoff = cutoff(tweets.default);
+        if (defaultCutoff && rest.length) rules.push({ sourceKinds: rest, until: defaultCutoff });
+
+        return rules;
+    }
+
+    private async expireTweets(now: Date, report: RetentionReport): Promise<void> {
+        const archive = this.openArchive('tweets', now);
+
+        try {
+            for (const rule of this.tweetRules(now)) {
+                // Each page is deleted before the next is read, so no cursor is needed
+                for (;;) {
+                    const { items } = await this.repositories.tweets.query({ ...rule, limit: MAX_PAGE_SIZE });
+                    if (!items.length) break;
+
+                    // Aggregated first – a story whose items are gone can't be rebuilt
+                    report.storiesAggregated += await this.aggregateStories(items, now);
+                    await archive?.write(items);
+                    const removed = await this.repositories.tweets.remove(items.map((t) => t.id));
+                    report.deleted.tweets += removed;
+                    if (removed === 0) break;
+                }
+            }
+        } finally {
+            if (archive && (await archive.close()) > 0) report.archives.push(archive.filePath);
+        }
+    }
+
+    private async expireSnapshots(now: Date, report: RetentionReport): Promise<void> {
+        const archive = this.openArchive('velocity_snapshots', now);
+
+        try {
+            for (const [resolution, period] of Object.entries(this.policy.snapshots)) {
+                const ms = parsePeriod(period);
+                if (ms === null) continue;
+
+                const until = new Date(now.getTime() - ms);
+                for (;;) {
+                    const snapshots = await this.repositories.snapshots.range({
+                        resolution: resolution as SnapshotResolution,
+                        until,
+                        limit: MAX_PAGE_SIZE,
+                    });
+                    if (!snapshots.length) break;
+
+                    await archive?.write(snapshots);
+                    const removed = await this.repositories.snapshots.remove(snapshots.map((s) => s.id));
+                    report.deleted.velocity_snapshots += removed;
+                    if (removed === 0) break;
+                }
+            }
+        } finally {
+            if (archive && (await archive.close()) > 0) report.archives.push(archive.filePath);
+        }
+    }
+
+    // Folds the items into their stories' aggregates and returns how many aggregates changed
+    private async aggregateStories(items: Tweet[], now: Date): Promise<number> {
+        const byStory = new Map<string, Tweet[]>();
+        for (const item of items) {
+            if (item.storyId) byStory.set(item.storyId, [...(byStory.get(item.storyId) ?? []), item]);
+        }
+        if (!byStory.size) return 0;
+
+        const existing = new Map(
+            (await this.repositories.stories.getMany([...byStory.keys()])).map((s) => [s.id, s])
+        );
+        const changed = [...byStory]
+            .map(([storyId, members]) => {
+                const aggregate = aggregateStory(storyId, members, existing.get(storyId), now);
+                return aggregate !== existing.get(storyId) ? aggregate : undefined;
+            })
+            .filter((s) => s !== undefined);
+
+        await this.repositories.stories.upsert(changed);
+        return changed.length;
+    }
+
+    private async expireStories(now: Date, report: RetentionReport): Promise<void> {
+        const ms = parsePeriod(this.policy.stories);
+        if (ms === null) return;
+
+        const archive = this.openArchive('story_aggregates', now);
+        try {
+            const until = new Date(now.getTime() - ms);
+            for (;;) {
+                const stories = await this.repositories.stories.list({ until, limit: MAX_PAGE_SIZE });
+                if (!stories.length) break;
+
+                await archive?.write(stories);
+                const removed = await this.repositories.stories.remove(stories.map((s) => s.id));
+                report.deleted.story_aggregates += removed;
+                if (removed === 0) break;
+            }
+        } finally {
+            if (archive && (await archive.close()) > 0) report.archives.push(archive.filePath);
+        }
+    }
+
+    private openArchive(table: string, now: Date): NdjsonArchive | null {
+        return this.policy.archive.enabled ? new NdjsonArchive(archivePath(this.policy.archive.dir, table, now)) : null;
+    }
+}
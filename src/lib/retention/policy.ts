@@ -0,0 +1,114 @@
+// Retention Policy
+// How long each kind of row is kept before it's archived and deleted. Defaults can be
+// overridden with a JSON file (RETENTION_POLICY_PATH, default data/retention.json).
+
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import type { TweetSourceKind, SnapshotResolution } from '../db/schema';
+
+// '90m', '24h', '30d' – null keeps rows forever
+export type RetentionPeriod = string | null;
+
+export interface RetentionPolicy {
+    tweets: {
+        // Anything not covered by a more specific rule
+        default: RetentionPeriod;
+        // Spam-flagged items (isFiltered or spamScore above the threshold), whatever their source
+        spam: RetentionPeriod;
+        sourceKinds: Partial<Record<TweetSourceKind, RetentionPeriod>>;
+    };
+    // Minute buckets are rolled up into hours and days before they expire
+    snapshots: Record<SnapshotResolution, RetentionPeriod>;
+    // Story aggregates, written from a story's items before they expire – by last activity
+    stories: RetentionPeriod;
+    archive: {
+        // Write expired rows to gzipped NDJSON before deleting them
+        enabled: boolean;
+        dir: string;
+    };
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+    tweets: {
+        default: '30d',
+        spam: '24h',
+        sourceKinds: { mock: '24h' },
+    },
+    snapshots: {
+        minute: '7d',
+        hour: '90d',
+        day: null,
+    },
+    stories: null,
+    archive: {
+        enabled: true,
+        dir: path.join(process.cwd(), 'data', 'archive'),
+    },
+};
+
+const DURATION_UNITS: Record<string, number> = {
+    m: 60_000,
+    h: 60 * 60_000,
+    d: 24 * 60 * 60_000,
+};
+
+export class RetentionPolicyError extends Error {
+    code: 'invalid_period' | 'invalid_file';
+
+    constructor(code: RetentionPolicyError['code'], message: string) {
+        super(message);
+        this.name = 'RetentionPolicyError';
+        this.code = code;
+    }
+}
+
+// Milliseconds, or null for "forever"
+export function parsePeriod(period: RetentionPeriod): number | null {
+    if (period === null) return null;
+    const match = /^(\d+)\s*([mhd])$/.exec(period.trim());
+    if (!match || parseInt(match[1], 10) === 0) {
+        throw new RetentionPolicyError('invalid_period', `Invalid retention period "${period}" – use e.g. 90m, 24h or 30d`);
+    }
+    return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+// Every period in the policy, for up-front validation
+function periods(policy: RetentionPolicy): RetentionPeriod[] {
+    return [
+        policy.tweets.default,
+        policy.tweets.spam,
+        ...Object.values(policy.tweets.sourceKinds),
+        ...Object.values(policy.snapshots),
+        policy.stories,
+    ].filter((p): p is RetentionPeriod => p !== undefined);
+}
+
+export function loadRetentionPolicy(
+    filePath: string = process.env.RETENTION_POLICY_PATH || path.join(process.cwd(), 'data', 'retention.json')
+): RetentionPolicy {
+    let overrides: Partial<RetentionPolicy> = {};
+    if (existsSync(filePath)) {
+        try {
+            overrides = JSON.parse(readFileSync(filePath, 'utf8'));
+        } catch (error: unknown) {
+            throw new RetentionPolicyError(
+                'invalid_file',
+                `${filePath}: ${error instanceof Error ? error.message : error}`
+            );
+        }
+    }
+
+    const policy: RetentionPolicy = {
+        tweets: {
+            ...DEFAULT_RETENTION_POLICY.tweets,
+            ...overrides.tweets,
+            sourceKinds: { ...DEFAULT_RETENTION_POLICY.tweets.sourceKinds, ...overrides.tweets?.sourceKinds },
+        },
+        snapshots: { ...DEFAULT_RETENTION_POLICY.snapshots, ...overrides.snapshots },
+        stories: overrides.stories === undefined ? DEFAULT_RETENTION_POLICY.stories : overrides.stories,
+        archive: { ...DEFAULT_RETENTION_POLICY.archive, ...overrides.archive },
+    };
+
+    periods(policy).forEach(parsePeriod);
+    return policy;
+}
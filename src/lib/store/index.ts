@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { devtools, subscribeWithSelector } from 'zustand/middleware';
 import type { Tweet, Alert, VelocitySnapshot, TweetCategory } from '../db/schema';
+import type { VelocityRange } from '../velocity/series';
 
 // ============================================
 // Tweet Store - Real-time tweet management
@@ -203,6 +204,7 @@ interface AlertState {
     activeNotifications: { id: string; message: string; type: 'info' | 'warning' | 'error' }[];
 
     // Actions
+    setAlerts: (alerts: Alert[]) => void;
     addAlert: (alert: Alert) => void;
     updateAlert: (id: string, updates: Partial<Alert>) => void;
     removeAlert: (id: string) => void;
@@ -218,6 +220,8 @@ export const useAlertStore = create<AlertState>()(
             alerts: [],
             activeNotifications: [],
 
+            setAlerts: (alerts) => set({ alerts }),
+
             addAlert: (alert) => {
                 set((state) => ({
                     alerts: [...state.alerts, alert],
@@ -270,7 +274,7 @@ export const useAlertStore = create<AlertState>()(
 interface DashboardState {
     isLive: boolean;
     refreshInterval: number;
-    selectedTimeRange: '5m' | '15m' | '30m' | '1h' | '6h' | '24h';
+    selectedTimeRange: VelocityRange;
     sidebarOpen: boolean;
 
     // Actions
@@ -0,0 +1,44 @@
+// Story Aggregates
+// Folds a story's items into the persisted StoryAggregate, so headline, time span, outlet count and
+// sentiment survive after retention deletes the items themselves
+
+import type { StoryAggregate, Tweet } from '../db/schema';
+import { buildStory, outletIds, sentimentLabel } from './cluster';
+
+// Sentiment of two disjoint sets of items, weighted by how many were analysed in each
+function combineSentiment(a: StoryAggregate['sentiment'], b: StoryAggregate['sentiment']): StoryAggregate['sentiment'] {
+    if (!a || !b) return a ?? b;
+    const analyzedCount = a.analyzedCount + b.analyzedCount;
+    const score = (a.score * a.analyzedCount + b.score * b.analyzedCount) / analyzedCount;
+    return { score, label: sentimentLabel(score), analyzedCount };
+}
+
+// Items already counted in `existing` are ignored, so folding the same batch twice is harmless
+export function aggregateStory(
+    storyId: string,
+    items: Tweet[],
+    existing?: StoryAggregate,
+    now: Date = new Date()
+): StoryAggregate | undefined {
+    const counted = new Set(existing?.itemIds ?? []);
+    const fresh = items.filter((t) => !counted.has(t.id));
+    if (!fresh.length) return existing;
+
+    const story = buildStory(storyId, fresh);
+    const outlets = new Set([...(existing?.outletIds ?? []), ...outletIds(fresh)]);
+    const earlier = !existing || story.firstSeenAt < new Date(existing.firstSeenAt);
+    const later = !existing || story.lastSeenAt > new Date(existing.lastSeenAt);
+
+    return {
+        id: storyId,
+        headline: earlier ? story.headline : existing.headline,
+        firstSeenAt: earlier ? story.firstSeenAt : existing.firstSeenAt,
+        lastSeenAt: later ? story.lastSeenAt : existing.lastSeenAt,
+        itemCount: counted.size + fresh.length,
+        sourceCount: outlets.size,
+        sentiment: combineSentiment(existing?.sentiment ?? null, story.sentiment),
+        itemIds: [...counted, ...fresh.map((t) => t.id)],
+        outletIds: [...outlets],
+        updatedAt: now,
+    };
+}
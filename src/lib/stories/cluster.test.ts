@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Tweet } from '../db/schema';
+import { StoryClusterer } from './cluster';
+import { shingles, tokenize } from './minhash';
+
+function item(id: string, text: string): Tweet {
+    return {
+        id,
+        text,
+        author: { id: `author_${id}`, username: id, displayName: id, avatarUrl: '', verified: false, followerCount: 0 },
+        metrics: { likes: 0, retweets: 0, replies: 0, views: 0 },
+        createdAt: new Date('2026-01-01T12:00:00Z'),
+        source: 'api',
+        sourceKind: 'rss',
+    };
+}
+
+test('tokenize keeps non-Latin words and pairs up CJK characters', () => {
+    assert.deepEqual(tokenize('Биткоин обновил рекорд'), ['биткоин', 'обновил', 'рекорд']);
+    assert.deepEqual(tokenize('東京で地震'), ['東京', '京で', 'で地', '地震']);
+    assert.deepEqual(tokenize('ETF 承認'), ['etf', '承認']);
+    assert.equal(shingles('🚀🚀🔥').size, 0);
+});
+
+test('unrelated non-Latin and emoji-only items get separate stories', () => {
+    const clusterer = new StoryClusterer();
+    const ids = [
+        item('ja', '東京で大きな地震が発生しました'),
+        item('zh', '比特币价格创下历史新高'),
+        item('emoji_1', '🚀🚀🔥'),
+        item('emoji_2', '💎🙌'),
+    ].map((t) => clusterer.assign(t));
+
+    assert.equal(new Set(ids).size, ids.length);
+});
+
+test('reworded non-Latin items still cluster', () => {
+    const clusterer = new StoryClusterer();
+    const a = clusterer.assign(item('zh_1', '比特币价格创下历史新高，突破十万美元'));
+    const b = clusterer.assign(item('zh_2', '比特币价格创历史新高 突破十万美元大关'));
+    const c = clusterer.assign(item('ru_1', 'Биткоин обновил исторический максимум цены'));
+    const d = clusterer.assign(item('ru_2', 'Биткоин обновил исторический максимум'));
+
+    assert.equal(a, b);
+    assert.equal(c, d);
+    assert.notEqual(a, c);
+});
+
+test('an item keeps the story it was persisted with', () => {
+    const clusterer = new StoryClusterer();
+    const first = clusterer.assign(item('ru_2', 'Биткоин обновил исторический максимум'), 'story_ru_1');
+    const second = clusterer.assign(item('ru_3', 'Биткоин обновил исторический максимум цены'));
+
+    assert.equal(first, 'story_ru_1');
+    assert.equal(second, 'story_ru_1');
+});
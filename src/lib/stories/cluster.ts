@@ -0,0 +1,196 @@
+// Story Clustering
+// Groups near-duplicate items from different outlets ("five sites reporting the same hack")
+// into stories using MinHash + LSH over headline/snippet shingles
+
+import type { Tweet, SentimentAnalysis } from '../db/schema';
+import { shingles, minhash, estimateSimilarity, bandKeys, type MinHashSignature } from './minhash';
+
+// ============================================
+// Types
+// ============================================
+
+export interface Story {
+    id: string;
+    headline: string;
+    firstSeenAt: Date;
+    lastSeenAt: Date;
+    items: Tweet[];
+    itemCount: number;
+    sourceCount: number;
+    sentiment: {
+        score: number;
+        label: SentimentAnalysis['label'];
+        analyzedCount: number;
+    } | null;
+}
+
+export interface ClustererOptions {
+    // Estimated Jaccard similarity needed to join an existing story
+    threshold?: number;
+    // Items further apart than this are never clustered together
+    windowMs?: number;
+    rowsPerBand?: number;
+}
+
+interface StoryState {
+    id: string;
+    memberIds: Set<string>;
+    firstSeenAt: number;
+    lastSeenAt: number;
+}
+
+interface MemberState {
+    storyId: string;
+    signature: MinHashSignature;
+    bands: string[];
+}
+
+// ============================================
+// Clusterer
+// ============================================
+
+export class StoryClusterer {
+    private threshold: number;
+    private windowMs: number;
+    private rowsPerBand: number;
+    private stories = new Map<string, StoryState>();
+    private members = new Map<string, MemberState>();
+    private buckets = new Map<string, Set<string>>(); // band key → member ids
+
+    constructor(options: ClustererOptions = {}) {
+        this.threshold = options.threshold ?? 0.35;
+        this.windowMs = options.windowMs ?? 48 * 60 * 60_000;
+        this.rowsPerBand = options.rowsPerBand ?? 2;
+    }
+
+    // Returns the story id for the item, creating a new story when nothing is similar enough.
+    // `knownStoryId` keeps the story the item was given before (persisted ahead of a restart), so
+    // ids stay stable across restarts; later items still join it by similarity.
+    assign(tweet: Tweet, knownStoryId?: string): string {
+        const existing = this.members.get(tweet.id);
+        if (existing) return existing.storyId;
+
+        const shingleSet = shingles(tweet.text);
+        const signature = minhash(shingleSet);
+        // Nothing to compare (emoji only, or nothing but stopwords) – the empty signature would
+        // match every other such item, so the item gets a story of its own
+        const bands = shingleSet.size ? bandKeys(signature, this.rowsPerBand) : [];
+        const createdAt = new Date(tweet.createdAt).getTime();
+
+        const storyId = knownStoryId ?? this.findStory(signature, bands, createdAt) ?? `story_${tweet.id}`;
+
+        let story = this.stories.get(storyId);
+        if (!story) {
+            story = { id: storyId, memberIds: new Set(), firstSeenAt: createdAt, lastSeenAt: createdAt };
+            this.stories.set(storyId, story);
+        }
+        story.memberIds.add(tweet.id);
+        story.firstSeenAt = Math.min(story.firstSeenAt, createdAt);
+        story.lastSeenAt = Math.max(story.lastSeenAt, createdAt);
+
+        this.members.set(tweet.id, { storyId, signature, bands });
+        for (const key of bands) {
+            let bucket = this.buckets.get(key);
+            if (!bucket) this.buckets.set(key, (bucket = new Set()));
+            bucket.add(tweet.id);
+        }
+
+        return storyId;
+    }
+
+    remove(tweetId: string): void {
+        const member = this.members.get(tweetId);
+        if (!member) return;
+
+        for (const key of member.bands) {
+            const bucket = this.buckets.get(key);
+            bucket?.delete(tweetId);
+            if (bucket && bucket.size === 0) this.buckets.delete(key);
+        }
+        this.members.delete(tweetId);
+
+        const story = this.stories.get(member.storyId);
+        story?.memberIds.delete(tweetId);
+        if (story && story.memberIds.size === 0) this.stories.delete(story.id);
+    }
+
+    clear(): void {
+        this.stories.clear();
+        this.members.clear();
+        this.buckets.clear();
+    }
+
+    storyOf(tweetId: string): string | undefined {
+        return this.members.get(tweetId)?.storyId;
+    }
+
+    private findStory(signature: MinHashSignature, bands: string[], createdAt: number): string | null {
+        const candidates = new Set<string>();
+        for (const key of bands) {
+            this.buckets.get(key)?.forEach((id) => candidates.add(id));
+        }
+
+        let best: { storyId: string; similarity: number } | null = null;
+        for (const id of candidates) {
+            const member = this.members.get(id)!;
+            const story = this.stories.get(member.storyId);
+            if (!story) continue;
+            if (createdAt < story.firstSeenAt - this.windowMs || createdAt > story.lastSeenAt + this.windowMs) continue;
+
+            const similarity = estimateSimilarity(signature, member.signature);
+            if (similarity >= this.threshold && (!best || similarity > best.similarity)) {
+                best = { storyId: member.storyId, similarity };
+            }
+        }
+
+        return best?.storyId ?? null;
+    }
+}
+
+// ============================================
+// Story assembly
+// ============================================
+
+// Confidence-weighted mean of the analysed members; null when none have sentiment yet
+export function mergeSentiment(items: Tweet[]): Story['sentiment'] {
+    const analysed = items.filter((t) => t.sentiment);
+    if (!analysed.length) return null;
+
+    const weight = analysed.reduce((sum, t) => sum + (t.sentiment!.confidence || 1), 0);
+    const score = analysed.reduce(
+        (sum, t) => sum + t.sentiment!.score * (t.sentiment!.confidence || 1),
+        0
+    ) / weight;
+
+    return { score, label: sentimentLabel(score), analyzedCount: analysed.length };
+}
+
+export function sentimentLabel(score: number): SentimentAnalysis['label'] {
+    return score > 0.3 ? 'positive' : score < -0.3 ? 'negative' : 'neutral';
+}
+
+// Every outlet that published one of the items (syndicated items carry several)
+export function outletIds(items: Tweet[]): Set<string> {
+    const outlets = new Set<string>();
+    for (const item of items) {
+        (item.outlets?.map((o) => o.authorId) ?? [item.author.id]).forEach((id) => outlets.add(id));
+    }
+    return outlets;
+}
+
+export function buildStory(storyId: string, items: Tweet[]): Story {
+    const sorted = [...items].sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+
+    return {
+        id: storyId,
+        headline: sorted[0].text.split(' — ')[0],
+        firstSeenAt: new Date(sorted[0].createdAt),
+        lastSeenAt: new Date(sorted[sorted.length - 1].createdAt),
+        items: sorted,
+        itemCount: sorted.length,
+        sourceCount: outletIds(sorted).size,
+        sentiment: mergeSentiment(sorted),
+    };
+}
@@ -0,0 +1,3 @@
+export * from './cluster';
+export * from './minhash';
+export * from './aggregate';
@@ -0,0 +1,105 @@
+// MinHash signatures over word shingles
+// Fully offline – estimates Jaccard similarity between short texts (headlines + snippets)
+
+// ============================================
+// Tokenisation
+// ============================================
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is',
+    'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+    'after', 'amid', 'over', 'into', 'says', 'said', 'new', 'just', 'breaking', 'report', 'reports',
+]);
+
+// Han and kana are written without spaces – runs of them are split into overlapping character pairs
+const UNSPACED_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+function characterPairs(run: string): string {
+    const chars = Array.from(run);
+    if (chars.length < 2) return ` ${run} `;
+    return ` ${chars.slice(1).map((c, i) => chars[i] + c).join(' ')} `;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[^\p{L}\p{N}$#@]+/gu, ' ')
+        .replace(UNSPACED_RUN, characterPairs)
+        .split(' ')
+        .map((t) => t.replace(/^[#@]/, ''))
+        .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+// Unigrams + bigrams: unigrams keep recall on reworded headlines, bigrams add precision
+export function shingles(text: string): Set<string> {
+    const tokens = tokenize(text);
+    const result = new Set<string>(tokens);
+    for (let i = 0; i < tokens.length - 1; i++) {
+        result.add(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+    return result;
+}
+
+// ============================================
+// Hashing
+// ============================================
+
+function fnv1a(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// murmur3 finaliser – turns (value, seed) into an independent-looking 32-bit hash
+function mix(value: number, seed: number): number {
+    let h = (value ^ seed) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+export const SIGNATURE_SIZE = 64;
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1, 0x9e3779b9));
+
+// ============================================
+// Signatures
+// ============================================
+
+export type MinHashSignature = Uint32Array;
+
+export function minhash(shingleSet: Set<string>): MinHashSignature {
+    const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+
+    for (const shingle of shingleSet) {
+        const base = fnv1a(shingle);
+        for (let i = 0; i < SIGNATURE_SIZE; i++) {
+            const h = mix(base, SEEDS[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    }
+
+    return signature;
+}
+
+// Fraction of matching slots ≈ Jaccard similarity of the underlying shingle sets
+export function estimateSimilarity(a: MinHashSignature, b: MinHashSignature): number {
+    let matches = 0;
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+        if (a[i] === b[i]) matches++;
+    }
+    return matches / SIGNATURE_SIZE;
+}
+
+// LSH band keys – two signatures sharing any band are candidate near-duplicates
+export function bandKeys(signature: MinHashSignature, rowsPerBand: number): string[] {
+    const keys: string[] = [];
+    for (let start = 0; start < SIGNATURE_SIZE; start += rowsPerBand) {
+        keys.push(`${start}:${Array.from(signature.subarray(start, start + rowsPerBand)).join(',')}`);
+    }
+    return keys;
+}
@@ -0,0 +1,77 @@
+// Topic presets shared by the dashboard and server-side ingestion
+// Plain data module (no 'use client') so route handlers and workers can import it
+
+// ──────────────────────────────────────────────────────────────────────────────
+// Topic presets – each maps to a NewsAPI `q` query string
+// ──────────────────────────────────────────────────────────────────────────────
+export interface TopicPreset {
+    id: string;
+    label: string;
+    emoji: string;
+    color: string;        // Tailwind colour token (without `text-` / `bg-` prefix)
+    query: string;        // NewsAPI `q` value
+    keywords: string[];   // client-side keyword highlights
+}
+
+export const TOPIC_PRESETS: TopicPreset[] = [
+    {
+        id: 'all',
+        label: 'All News',
+        emoji: '🌐',
+        color: 'neon-cyan',
+        query: 'breaking OR market OR technology OR politics',
+        keywords: [],
+    },
+    {
+        id: 'crypto',
+        label: 'Crypto',
+        emoji: '🪙',
+        color: 'neon-orange',
+        query: 'crypto OR cryptocurrency OR bitcoin OR ethereum OR altcoin',
+        keywords: ['crypto', 'bitcoin', 'ethereum', 'btc', 'eth', 'altcoin'],
+    },
+    {
+        id: 'blockchain',
+        label: 'Blockchain',
+        emoji: '⛓️',
+        color: 'neon-purple',
+        query: 'blockchain OR "web3" OR "DeFi" OR "NFT" OR "smart contract"',
+        keywords: ['blockchain', 'web3', 'defi', 'nft', 'smart contract'],
+    },
+    {
+        id: 'airdrop',
+        label: 'Airdrop',
+        emoji: '🪂',
+        color: 'neon-green',
+        query: 'airdrop OR "token airdrop" OR "crypto airdrop" OR retroactive',
+        keywords: ['airdrop', 'retroactive', 'eligible', 'claim', 'snapshot'],
+    },
+    {
+        id: 'whitelist',
+        label: 'Whitelist / WL',
+        emoji: '📋',
+        color: 'neon-pink',
+        query: 'whitelist OR "whitelist hunt" OR "WL spots" OR "allowlist" OR "mint pass"',
+        keywords: ['whitelist', 'wl', 'allowlist', 'mint', 'pass'],
+    },
+    {
+        id: 'new_projects',
+        label: 'New Projects',
+        emoji: '🚀',
+        color: 'neon-cyan',
+        query: '"new project" OR "project launch" OR "token launch" OR IDO OR ICO OR "pre-sale"',
+        keywords: ['launch', 'ido', 'ico', 'presale', 'pre-sale', 'new project'],
+    },
+    {
+        id: 'retroactive',
+        label: 'Retroactive',
+        emoji: '⏮️',
+        color: 'neon-orange',
+        query: 'retroactive OR "retroactive reward" OR "retro drop" OR "retrospective airdrop"',
+        keywords: ['retroactive', 'retro', 'retrospective', 'reward'],
+    },
+];
+
+export function getTopicPreset(id: string): TopicPreset | undefined {
+    return TOPIC_PRESETS.find((p) => p.id === id);
+}
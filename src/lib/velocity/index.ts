@@ -0,0 +1,17 @@
+// Velocity entry point – snapshot builders, time-series bucketing and the /api/velocity service
+// Client components should import ./series directly: the service pulls in the (fs-backed) feed registry
+
+import { getRepositories } from '../db';
+import { getFeedRegistry } from '../feeds/registry';
+import { VelocityService } from './service';
+
+export * from './snapshot';
+export * from './series';
+export * from './service';
+
+const globalForVelocity = globalThis as unknown as { velocityService?: VelocityService };
+
+export function getVelocityService(): VelocityService {
+    globalForVelocity.velocityService ??= new VelocityService(getRepositories().tweets, getFeedRegistry());
+    return globalForVelocity.velocityService;
+}
@@ -0,0 +1,165 @@
+// Velocity Time Series
+// Buckets items by createdAt into fixed-width VelocitySnapshots. Pure – shared by the
+// /api/velocity service and the dashboard (range and bucket options).
+
+import type { Tweet, VelocitySnapshot } from '../db/schema';
+import { buildSnapshot, snapshotId, tweetKeywords } from './snapshot';
+
+// The dashboard's time range options (useDashboardStore.selectedTimeRange)
+export const VELOCITY_RANGES = {
+    '5m': 5 * 60_000,
+    '15m': 15 * 60_000,
+    '30m': 30 * 60_000,
+    '1h': 60 * 60_000,
+    '6h': 6 * 60 * 60_000,
+    '24h': 24 * 60 * 60_000,
+} as const;
+
+export const VELOCITY_BUCKETS = {
+    '1m': 60_000,
+    '5m': 5 * 60_000,
+    '15m': 15 * 60_000,
+    '1h': 60 * 60_000,
+} as const;
+
+export type VelocityRange = keyof typeof VELOCITY_RANGES;
+export type VelocityBucket = keyof typeof VELOCITY_BUCKETS;
+
+// Keeps every range at a readable 5–96 points
+export const DEFAULT_VELOCITY_BUCKET: Record<VelocityRange, VelocityBucket> = {
+    '5m': '1m',
+    '15m': '1m',
+    '30m': '1m',
+    '1h': '1m',
+    '6h': '5m',
+    '24h': '15m',
+};
+
+export const MAX_VELOCITY_BUCKETS = 1440;
+
+export function isVelocityRange(value: string): value is VelocityRange {
+    return Object.prototype.hasOwnProperty.call(VELOCITY_RANGES, value);
+}
+
+export function isVelocityBucket(value: string): value is VelocityBucket {
+    return Object.prototype.hasOwnProperty.call(VELOCITY_BUCKETS, value);
+}
+
+export interface SeriesWindow {
+    start: Date;
+    end: Date;
+    bucketMs: number;
+}
+
+// `range` worth of buckets ending with the one that contains `now` (so the last bucket is partial)
+export function seriesWindow(rangeMs: number, bucketMs: number, now: Date = new Date()): SeriesWindow {
+    const end = Math.floor(now.getTime() / bucketMs) * bucketMs + bucketMs;
+    return { start: new Date(end - rangeMs), end: new Date(end), bucketMs };
+}
+
+// One snapshot per bucket, oldest first; empty buckets are included with a zero count
+export function bucketTweets(tweets: Tweet[], { start, end, bucketMs }: SeriesWindow): VelocitySnapshot[] {
+    const buckets: Tweet[][] = Array.from(
+        { length: Math.ceil((end.getTime() - start.getTime()) / bucketMs) },
+        () => []
+    );
+
+    for (const tweet of tweets) {
+        const index = Math.floor((new Date(tweet.createdAt).getTime() - start.getTime()) / bucketMs);
+        if (index >= 0 && index < buckets.length) buckets[index].push(tweet);
+    }
+
+    return buckets.map((items, i) => {
+        const bucketStart = new Date(start.getTime() + i * bucketMs);
+        return {
+            ...buildSnapshot(bucketStart, items),
+            id: bucketMs === 60_000 ? snapshotId(bucketStart) : `snap_${bucketMs / 60_000}m_${bucketStart.toISOString()}`,
+        };
+    });
+}
+
+// ── Breakdowns ───────────────────────────────────────────────────────────
+
+// Ways to split one velocity series into several (/api/velocity?by=…)
+export const VELOCITY_DIMENSIONS = ['topic', 'keyword', 'cashtag', 'author'] as const;
+export type VelocityDimension = (typeof VELOCITY_DIMENSIONS)[number];
+
+export const DEFAULT_SERIES_LIMIT = 5;
+export const MAX_SERIES_LIMIT = 20;
+
+export function isVelocityDimension(value: string): value is VelocityDimension {
+    return (VELOCITY_DIMENSIONS as readonly string[]).includes(value);
+}
+
+export interface NamedVelocitySeries {
+    key: string;
+    label: string;
+    total: number;
+    snapshots: VelocitySnapshot[];
+}
+
+// Normalised series key, so `$xyz`, `XYZ` and `$XYZ` all select the same cashtag series
+export function seriesKey(dimension: VelocityDimension, value: string): string {
+    const trimmed = value.trim();
+    switch (dimension) {
+        case 'cashtag':
+            return trimmed.replace(/^\$/, '').toUpperCase();
+        case 'author':
+            return trimmed.replace(/^@/, '').toLowerCase();
+        default:
+            return trimmed.toLowerCase();
+    }
+}
+
+export function seriesLabel(dimension: VelocityDimension, key: string): string {
+    if (dimension === 'cashtag') return `$${key}`;
+    if (dimension === 'author') return `@${key}`;
+    return key;
+}
+
+// The series an item counts towards. Topic membership needs the feed registry, so callers
+// splitting by topic pass their own function to bucketSeries instead.
+export function dimensionKeys(tweet: Tweet, dimension: Exclude<VelocityDimension, 'topic'>): string[] {
+    switch (dimension) {
+        case 'keyword':
+            return tweetKeywords(tweet);
+        case 'cashtag':
+            return [...new Set((tweet.cashtags ?? []).map((c) => seriesKey('cashtag', c)))];
+        case 'author':
+            return [seriesKey('author', tweet.author.username)];
+    }
+}
+
+export interface BucketSeriesOptions {
+    // Explicit series to return (zero-filled when nothing matched); otherwise the busiest ones
+    keys?: string[];
+    limit?: number;
+    label?: (key: string) => string;
+}
+
+// One zero-filled series per key, busiest first. An item with several keys counts towards each.
+export function bucketSeries(
+    tweets: Tweet[],
+    window: SeriesWindow,
+    keysOf: (tweet: Tweet) => string[],
+    { keys, limit = DEFAULT_SERIES_LIMIT, label = (key) => key }: BucketSeriesOptions = {}
+): NamedVelocitySeries[] {
+    const grouped = new Map<string, Tweet[]>();
+    for (const key of keys ?? []) grouped.set(key, []);
+
+    for (const tweet of tweets) {
+        for (const key of keysOf(tweet)) {
+            const items = grouped.get(key);
+            if (items) items.push(tweet);
+            else if (!keys) grouped.set(key, [tweet]);
+        }
+    }
+
+    const selected = [...grouped.entries()].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+    return (keys ? selected : selected.slice(0, limit)).map(([key, items]) => ({
+        key,
+        label: label(key),
+        total: items.length,
+        snapshots: bucketTweets(items, window),
+    }));
+}
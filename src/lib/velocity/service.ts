@@ -0,0 +1,219 @@
+// Velocity Service
+// Server-side time series for /api/velocity: reads stored items for the requested range,
+// scopes them to a topic and buckets them by createdAt – optionally split per topic, keyword,
+// cashtag or author, with spike detection run on each series
+
+import type { Tweet, VelocitySnapshot } from '../db/schema';
+import { queryAll, type TweetRepository } from '../db/repository';
+import { feedsForTopic, type FeedRegistry } from '../feeds/registry';
+import { TOPIC_PRESETS } from '../topics';
+import { SEASON_MS, getDetector, listDetectors, type AnomalyResult, type Season } from '../alerts/detectors';
+import {
+    VELOCITY_RANGES,
+    VELOCITY_BUCKETS,
+    VELOCITY_DIMENSIONS,
+    DEFAULT_VELOCITY_BUCKET,
+    MAX_VELOCITY_BUCKETS,
+    MAX_SERIES_LIMIT,
+    isVelocityRange,
+    isVelocityBucket,
+    isVelocityDimension,
+    seriesWindow,
+    seriesKey,
+    seriesLabel,
+    dimensionKeys,
+    bucketTweets,
+    bucketSeries,
+    type NamedVelocitySeries,
+    type VelocityRange,
+    type VelocityBucket,
+    type VelocityDimension,
+} from './series';
+
+export interface VelocityQuery {
+    range: string;
+    bucket?: string | null;
+    topic?: string | null;
+    // Breakdown: split the series by this dimension, either into `keys` or the `limit` busiest
+    by?: string | null;
+    keys?: string[];
+    limit?: number | null;
+    // Spike detection compares the last `windowMinutes` (default: one bucket) with the rest, using
+    // the named detector; `season` picks the seasonal detector's baseline
+    windowMinutes?: number | null;
+    threshold?: number | null;
+    detector?: string | null;
+    season?: string | null;
+    now?: Date;
+}
+
+export interface VelocitySeries {
+    range: VelocityRange;
+    bucket: VelocityBucket;
+    topic: string;
+    from: Date;
+    to: Date;
+    snapshots: VelocitySnapshot[];
+    spike: AnomalyResult;
+    breakdown?: {
+        by: VelocityDimension;
+        series: (NamedVelocitySeries & { spike: AnomalyResult })[];
+    };
+}
+
+export class VelocityQueryError extends Error {
+    code: 'invalid_range' | 'invalid_bucket' | 'invalid_topic' | 'invalid_breakdown' | 'invalid_detector';
+
+    constructor(code: VelocityQueryError['code'], message: string) {
+        super(message);
+        this.name = 'VelocityQueryError';
+        this.code = code;
+    }
+}
+
+export class VelocityService {
+    private tweets: TweetRepository;
+    private registry: FeedRegistry;
+
+    constructor(tweets: TweetRepository, registry: FeedRegistry) {
+        this.tweets = tweets;
+        this.registry = registry;
+    }
+
+    async series({
+        range,
+        bucket,
+        topic,
+        by,
+        keys,
+        limit,
+        windowMinutes,
+        threshold,
+        detector: detectorName,
+        season,
+        now = new Date(),
+    }: VelocityQuery): Promise<VelocitySeries> {
+        if (!isVelocityRange(range)) {
+            throw new VelocityQueryError('invalid_range', `range must be one of ${Object.keys(VELOCITY_RANGES).join(', ')}`);
+        }
+        const bucketKey = bucket || DEFAULT_VELOCITY_BUCKET[range];
+        if (!isVelocityBucket(bucketKey)) {
+            throw new VelocityQueryError('invalid_bucket', `bucket must be one of ${Object.keys(VELOCITY_BUCKETS).join(', ')}`);
+        }
+        if (by && !isVelocityDimension(by)) {
+            throw new VelocityQueryError('invalid_breakdown', `by must be one of ${VELOCITY_DIMENSIONS.join(', ')}`);
+        }
+        if (limit != null && (!Number.isInteger(limit) || limit < 1 || limit > MAX_SERIES_LIMIT)) {
+            throw new VelocityQueryError('invalid_breakdown', `limit must be between 1 and ${MAX_SERIES_LIMIT}`);
+        }
+        const detector = getDetector(detectorName || undefined);
+        if (!detector) {
+            const names = listDetectors().map((d) => d.name).join(', ');
+            throw new VelocityQueryError('invalid_detector', `detector must be one of ${names}`);
+        }
+        const seasonKey = season || 'day';
+        if (!Object.prototype.hasOwnProperty.call(SEASON_MS, seasonKey)) {
+            throw new VelocityQueryError('invalid_detector', `season must be one of ${Object.keys(SEASON_MS).join(', ')}`);
+        }
+
+        const rangeMs = VELOCITY_RANGES[range];
+        const bucketMs = VELOCITY_BUCKETS[bucketKey];
+        if (bucketMs > rangeMs || rangeMs / bucketMs > MAX_VELOCITY_BUCKETS) {
+            throw new VelocityQueryError('invalid_bucket', `bucket ${bucketKey} doesn't fit range ${range}`);
+        }
+
+        const topicId = topic || 'all';
+        const matches = await this.topicFilter(topicId);
+
+        const window = seriesWindow(rangeMs, bucketMs, now);
+        const items = (await queryAll(this.tweets, { since: window.start, until: window.end })).filter(matches);
+        const snapshots = bucketTweets(items, window);
+
+        // The newest bucket is still filling up, so spikes are measured on complete ones
+        const recentBuckets = windowMinutes ? Math.max(1, Math.round((windowMinutes * 60_000) / bucketMs)) : 1;
+        const spikeOf = (series: VelocitySnapshot[], baseline?: VelocitySnapshot[]) =>
+            detector.detect(series.slice(0, -1), {
+                threshold: threshold || undefined,
+                recentBuckets,
+                baseline: baseline ? [baseline] : undefined,
+            });
+
+        // Seasonal baseline: the same recent window, one day or week earlier
+        const seasonal = detector.name === 'seasonal';
+        const recentEnd = window.end.getTime() - bucketMs;
+        const baseWindow = {
+            start: new Date(recentEnd - recentBuckets * bucketMs - SEASON_MS[seasonKey as Season]),
+            end: new Date(recentEnd - SEASON_MS[seasonKey as Season]),
+            bucketMs,
+        };
+        const baseItems = seasonal
+            ? (await queryAll(this.tweets, { since: baseWindow.start, until: baseWindow.end })).filter(matches)
+            : [];
+
+        const result: VelocitySeries = {
+            range,
+            bucket: bucketKey,
+            topic: topicId,
+            from: window.start,
+            to: window.end,
+            snapshots,
+            spike: spikeOf(snapshots, seasonal ? bucketTweets(baseItems, baseWindow) : undefined),
+        };
+
+        if (by) {
+            const dimension = by as VelocityDimension;
+            const keysOf = await this.keysOf(dimension);
+            const series = bucketSeries(items, window, keysOf, {
+                keys: keys?.length ? [...new Set(keys.map((k) => seriesKey(dimension, k)))] : undefined,
+                limit: limit ?? undefined,
+                label: (key) => this.labelOf(dimension, key),
+            });
+            const baselines = seasonal
+                ? new Map(bucketSeries(baseItems, baseWindow, keysOf, { keys: series.map((s) => s.key) }).map((s) => [s.key, s.snapshots]))
+                : null;
+            result.breakdown = {
+                by: dimension,
+                series: series.map((s) => ({ ...s, spike: spikeOf(s.snapshots, baselines?.get(s.key)) })),
+            };
+        }
+
+        return result;
+    }
+
+    private async keysOf(dimension: VelocityDimension): Promise<(tweet: Tweet) => string[]> {
+        if (dimension !== 'topic') return (tweet) => dimensionKeys(tweet, dimension);
+
+        const topics = await Promise.all(
+            TOPIC_PRESETS.filter((p) => p.id !== 'all').map(async (p) => ({ id: p.id, matches: await this.topicFilter(p.id) }))
+        );
+        return (tweet) => topics.filter((t) => t.matches(tweet)).map((t) => t.id);
+    }
+
+    private labelOf(dimension: VelocityDimension, key: string): string {
+        if (dimension === 'topic') return TOPIC_PRESETS.find((p) => p.id === key)?.label ?? key;
+        return seriesLabel(dimension, key);
+    }
+
+    // Same scoping as the merged feed: RSS feeds bound to other topics are excluded, feeds bound
+    // to this one always count, everything else has to mention one of the topic's keywords
+    private async topicFilter(topicId: string): Promise<(tweet: Tweet) => boolean> {
+        if (topicId === 'all') return () => true;
+
+        const preset = TOPIC_PRESETS.find((p) => p.id === topicId);
+        if (!preset) throw new VelocityQueryError('invalid_topic', `Unknown topic "${topicId}"`);
+
+        const feeds = await this.registry.resolve();
+        const scoped = feedsForTopic(feeds, topicId);
+        const inScope = new Set(scoped.feeds.map((f) => `rss_${f.id}`));
+        const pinned = new Set(scoped.pinnedIds.map((id) => `rss_${id}`));
+        const excluded = new Set(feeds.map((f) => `rss_${f.id}`).filter((id) => !inScope.has(id)));
+        const keywords = preset.keywords.map((k) => k.toLowerCase());
+
+        return (tweet) => {
+            if (excluded.has(tweet.author.id)) return false;
+            if (pinned.has(tweet.author.id) || !keywords.length) return true;
+            const text = tweet.text.toLowerCase();
+            return keywords.some((k) => text.includes(k));
+        };
+    }
+}
@@ -0,0 +1,88 @@
+// Velocity Snapshot builders
+// Turns a bucket of items into a VelocitySnapshot and rolls finer snapshots up into coarser
+// ones. Pure functions – used by the minute recorder, the retention job and /api/velocity.
+
+import type { Tweet, TweetCategory, VelocitySnapshot, SnapshotResolution } from '../db/schema';
+import { tokenize } from '../stories/minhash';
+
+const TOP_N = 5;
+
+export const RESOLUTION_MS: Record<SnapshotResolution, number> = {
+    minute: 60_000,
+    hour: 60 * 60_000,
+    day: 24 * 60 * 60_000,
+};
+
+// Buckets are aligned to UTC
+export function bucketStart(at: Date | number, resolution: SnapshotResolution): Date {
+    const size = RESOLUTION_MS[resolution];
+    return new Date(Math.floor(new Date(at).getTime() / size) * size);
+}
+
+// Deterministic ids so a re-flushed or re-rolled bucket upserts over itself
+export function snapshotId(start: Date, resolution: SnapshotResolution = 'minute'): string {
+    return resolution === 'minute' ? `snap_${start.toISOString()}` : `snap_${resolution}_${start.toISOString()}`;
+}
+
+function topCounts<T extends string>(values: T[], weights?: number[]): { value: T; count: number }[] {
+    const counts = new Map<T, number>();
+    values.forEach((v, i) => counts.set(v, (counts.get(v) ?? 0) + (weights?.[i] ?? 1)));
+    return [...counts.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_N);
+}
+
+// AI keywords and entities when the item has them; otherwise its significant words, so
+// unanalysed RSS and NewsAPI items still contribute to topKeywords
+export function tweetKeywords(tweet: Tweet): string[] {
+    const tagged = [
+        ...(tweet.sentiment?.keywords ?? []),
+        ...(tweet.hashtags ?? []),
+        ...(tweet.cashtags ?? []).map((c) => `$${c}`),
+    ].map((k) => k.toLowerCase());
+    if (tagged.length) return [...new Set(tagged)];
+
+    return [...new Set(tokenize(tweet.text).filter((t) => t.length > 3 && !/^\d+$/.test(t)))];
+}
+
+export function buildSnapshot(start: Date, tweets: Tweet[]): VelocitySnapshot {
+    const scored = tweets.filter((t) => t.sentiment);
+
+    return {
+        id: snapshotId(start),
+        timestamp: start,
+        resolution: 'minute',
+        count: tweets.length,
+        sentimentAvg: scored.length
+            ? scored.reduce((sum, t) => sum + t.sentiment!.score, 0) / scored.length
+            : 0,
+        topCategories: topCounts(tweets.map((t) => t.category).filter((c): c is TweetCategory => !!c))
+            .map(({ value, count }) => ({ category: value, count })),
+        topKeywords: topCounts(tweets.flatMap(tweetKeywords)).map(({ value, count }) => ({ keyword: value, count })),
+    };
+}
+
+// Aggregates finer snapshots into one coarser bucket. Sentiment is count-weighted; the top
+// lists are re-ranked from the per-bucket top 5s, so they're approximate for busy periods.
+export function rollupSnapshots(
+    start: Date,
+    resolution: SnapshotResolution,
+    snapshots: VelocitySnapshot[]
+): VelocitySnapshot {
+    const count = snapshots.reduce((sum, s) => sum + s.count, 0);
+    const categories = snapshots.flatMap((s) => s.topCategories);
+    const keywords = snapshots.flatMap((s) => s.topKeywords);
+
+    return {
+        id: snapshotId(start, resolution),
+        timestamp: start,
+        resolution,
+        count,
+        sentimentAvg: count ? snapshots.reduce((sum, s) => sum + s.sentimentAvg * s.count, 0) / count : 0,
+        topCategories: topCounts(categories.map((c) => c.category), categories.map((c) => c.count))
+            .map(({ value, count }) => ({ category: value, count })),
+        topKeywords: topCounts(keywords.map((k) => k.keyword), keywords.map((k) => k.count))
+            .map(({ value, count }) => ({ keyword: value, count })),
+    };
+}